@@ -24,11 +24,13 @@ function RootLayoutNav({ initialRouteName }: RootLayoutNavProps) {
       <Stack.Screen name="auth" options={{ headerShown: false }} />
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
       <Stack.Screen name="contact/[id]" options={{ headerShown: false }} />
+      <Stack.Screen name="place/[id]" options={{ title: "Place", headerBackTitle: "Places" }} />
       <Stack.Screen name="permissions" options={{ presentation: "modal", title: "Permissions" }} />
       <Stack.Screen name="health" options={{ presentation: "modal", title: "Health Check" }} />
       <Stack.Screen name="ai-demo" options={{ presentation: "modal", title: "AI Demo" }} />
       <Stack.Screen name="onboarding" options={{ headerShown: false }} />
       <Stack.Screen name="email-setup" options={{ presentation: "modal", title: "Email Setup" }} />
+      <Stack.Screen name="duplicates" options={{ presentation: "modal", title: "Review Duplicates" }} />
     </Stack>
   );
 }
@@ -9,6 +9,7 @@ import {
   TextInput,
   KeyboardAvoidingView,
   Platform,
+  Alert,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { useLocalSearchParams, useRouter, Stack } from 'expo-router';
@@ -17,12 +18,18 @@ import { InteractionRepository } from '@/repositories/InteractionRepository';
 import { TaskRepository } from '@/repositories/TaskRepository';
 import { Person } from '@/models/Person';
 import { Interaction } from '@/models/Interaction';
+import { PersonScore, PersonScoreSnapshot } from '@/models/PersonScore';
 import { Task } from '@/models/Task';
-import { Annotation } from '@/models/Annotation';
+import { Annotation, TIER_OPTIONS } from '@/models/Annotation';
+import { CADENCE_OPTIONS, formatCadence, resolveCadence } from '@/models/Cadence';
 import { AnnotationDAO } from '@/database/AnnotationDAO';
+import { ChangeBatch } from '@/models/ChangeLog';
+import { ChangeHistoryService } from '@/services/ChangeHistoryService';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { AnnotationManager } from '@/components/AnnotationManager';
-import { mockPersonScores, mockMeetings, mockThreads, mockMessages } from '@/repositories/mockData';
+import { ScoreBreakdownView } from '@/components/ScoreBreakdownView';
+import { Sparkline, getTrendColor } from '@/components/Sparkline';
+import { mockMeetings, mockThreads, mockMessages } from '@/repositories/mockData';
 import { 
   ArrowLeft, 
   Phone, 
@@ -36,6 +43,11 @@ import {
   Plus,
   Clock,
   User,
+  History,
+  Undo2,
+  ChevronDown,
+  ChevronUp,
+  Repeat,
 } from 'lucide-react-native';
 
 export default function ContactScreen() {
@@ -45,6 +57,10 @@ export default function ContactScreen() {
   const [interactions, setInteractions] = useState<Interaction[]>([]);
   const [tasks, setTasks] = useState<Task[]>([]);
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
+  const [history, setHistory] = useState<ChangeBatch[]>([]);
+  const [score, setScore] = useState<PersonScore | undefined>(undefined);
+  const [showScoreBreakdown, setShowScoreBreakdown] = useState(false);
+  const [scoreHistory, setScoreHistory] = useState<PersonScoreSnapshot[]>([]);
   const [notes, setNotes] = useState('');
   const [isEditingNotes, setIsEditingNotes] = useState(false);
   const { database } = useDatabase();
@@ -60,10 +76,13 @@ export default function ContactScreen() {
   const loadData = async () => {
     if (!id) return;
     
-    const [personData, interactionData, taskData] = await Promise.all([
+    const ninetyDaysAgo = new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+    const [personData, interactionData, taskData, scoreData, historyData] = await Promise.all([
       personRepo.getPersonById(id),
       interactionRepo.getInteractionsByPersonId(id),
       taskRepo.getTasksByPersonId(id),
+      personRepo.getPersonScore(id),
+      personRepo.getScoreHistory(id, ninetyDaysAgo),
     ]);
 
     if (personData) {
@@ -75,6 +94,8 @@ export default function ContactScreen() {
       return;
     }
     setInteractions(interactionData);
+    setScore(scoreData);
+    setScoreHistory(historyData);
     setTasks(taskData.filter(t => !t.completed));
     
     // Load annotations
@@ -86,9 +107,46 @@ export default function ContactScreen() {
       } catch (error) {
         console.error('Failed to load annotations:', error);
       }
+
+      try {
+        setHistory(await ChangeHistoryService.getInstance().getHistoryForPerson(id, 20));
+      } catch (error) {
+        console.error('Failed to load change history:', error);
+      }
     }
   };
 
+  const handleUndo = (batch: ChangeBatch) => {
+    Alert.alert(
+      'Undo Change',
+      `Undo "${batch.description}"?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Undo',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await ChangeHistoryService.getInstance().undoBatch(batch.batchId);
+              await loadData();
+            } catch (error) {
+              Alert.alert('Undo Failed', error instanceof Error ? error.message : 'Unknown error');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const formatScoreChange = (snapshots: PersonScoreSnapshot[]) => {
+    const change = snapshots[snapshots.length - 1].relationshipScore - snapshots[0].relationshipScore;
+    const days = Math.max(1, Math.round(
+      (new Date(snapshots[snapshots.length - 1].day).getTime() - new Date(snapshots[0].day).getTime()) / (1000 * 60 * 60 * 24)
+    ));
+    if (change === 0) return `Steady over ${days} days`;
+    return `${change > 0 ? 'Up' : 'Down'} ${Math.abs(change)} over ${days} days`;
+  };
+
   const getLastMetText = () => {
     if (!person?.lastInteraction) return 'Never';
     const lastInteraction = new Date(person.lastInteraction);
@@ -129,6 +187,27 @@ export default function ContactScreen() {
     return d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' });
   };
 
+  const handleCadenceChange = async (days?: number) => {
+    if (!person || person.cadence === days) return;
+    try {
+      const updated = await personRepo.updateCadence(person.id, days);
+      if (updated) setPerson(updated);
+    } catch {
+      Alert.alert('Error', 'Failed to update cadence. Please try again.');
+    }
+  };
+
+  const getCadenceHint = () => {
+    if (!person) return '';
+    const tier = annotations.find(annotation => annotation.type === 'tier')?.content;
+    const cadence = resolveCadence(person, tier);
+    if (cadence.source === 'person') return formatCadence(cadence.days);
+    const basis = cadence.source === 'tier'
+      ? TIER_OPTIONS.find(option => option.value === tier)?.label ?? tier
+      : person.relationship;
+    return `${formatCadence(cadence.days)} (default for ${basis?.toLowerCase()})`;
+  };
+
   const handleSaveNotes = () => {
     // In a real app, this would save to backend
     console.log('Saving notes:', notes);
@@ -145,8 +224,6 @@ export default function ContactScreen() {
     );
   }
 
-  const score = mockPersonScores.find(s => s.personId === person.id);
-
   return (
     <>
       <Stack.Screen 
@@ -218,13 +295,70 @@ export default function ContactScreen() {
             </View>
             <Text style={styles.lastMetText}>{getLastMetText()}</Text>
             {score && (
-              <View style={styles.scoreRow}>
-                <Text style={styles.scoreLabel}>Relationship Score:</Text>
-                <Text style={styles.scoreValue}>{score.relationshipScore}</Text>
-              </View>
+              <>
+                <TouchableOpacity
+                  style={styles.scoreRow}
+                  onPress={() => setShowScoreBreakdown(!showScoreBreakdown)}
+                >
+                  <Text style={styles.scoreLabel}>Relationship Score:</Text>
+                  <View style={styles.scoreValueRow}>
+                    <Text style={styles.scoreValue}>{score.relationshipScore}</Text>
+                    {showScoreBreakdown
+                      ? <ChevronUp size={18} color="#7F8C8D" />
+                      : <ChevronDown size={18} color="#7F8C8D" />}
+                  </View>
+                </TouchableOpacity>
+                {scoreHistory.length >= 2 && (
+                  <View style={styles.trendRow}>
+                    <Sparkline
+                      values={scoreHistory.map(snapshot => snapshot.relationshipScore)}
+                      width={140}
+                      height={28}
+                    />
+                    <Text style={[styles.trendText, { color: getTrendColor(scoreHistory.map(snapshot => snapshot.relationshipScore)) }]}>
+                      {formatScoreChange(scoreHistory)}
+                    </Text>
+                  </View>
+                )}
+                {showScoreBreakdown && (
+                  <View style={styles.scoreBreakdown}>
+                    <Text style={styles.scoreBreakdownTitle}>Why this score?</Text>
+                    <ScoreBreakdownView score={score} />
+                  </View>
+                )}
+              </>
             )}
           </View>
 
+          {/* Cadence */}
+          <View style={styles.section}>
+            <View style={styles.sectionHeader}>
+              <Text style={styles.sectionTitle}>Keep in Touch</Text>
+              <Repeat size={20} color="#45B7D1" />
+            </View>
+            <Text style={styles.cadenceText}>{getCadenceHint()}</Text>
+            <View style={styles.cadenceOptions}>
+              <TouchableOpacity
+                style={[styles.cadenceChip, !person.cadence && styles.cadenceChipSelected]}
+                onPress={() => handleCadenceChange(undefined)}
+              >
+                <Text style={[styles.cadenceChipText, !person.cadence && styles.cadenceChipTextSelected]}>Default</Text>
+              </TouchableOpacity>
+              {CADENCE_OPTIONS.map(option => {
+                const selected = person.cadence === option.value;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[styles.cadenceChip, selected && styles.cadenceChipSelected]}
+                    onPress={() => handleCadenceChange(option.value)}
+                  >
+                    <Text style={[styles.cadenceChipText, selected && styles.cadenceChipTextSelected]}>{option.label}</Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+          </View>
+
           {/* Timeline */}
           <View style={styles.section}>
             <Text style={styles.sectionTitle}>Timeline</Text>
@@ -344,6 +478,37 @@ export default function ContactScreen() {
             </View>
           )}
 
+          {/* History */}
+          {history.length > 0 && (
+            <View style={styles.section}>
+              <View style={styles.sectionHeader}>
+                <History size={20} color="#45B7D1" />
+                <Text style={styles.sectionTitle}>History</Text>
+              </View>
+              {history.map(batch => {
+                const canUndo = batch.operation !== 'undo' && batch.source === 'user' && !batch.revertedBy;
+                return (
+                  <View key={batch.batchId} style={styles.historyItem}>
+                    <View style={styles.historyContent}>
+                      <Text style={[styles.historyTitle, batch.revertedBy && styles.historyReverted]}>
+                        {batch.description}
+                      </Text>
+                      <Text style={styles.historyDate}>
+                        {formatInteractionDate(batch.createdAt)}
+                        {batch.revertedBy ? ' · undone' : ''}
+                      </Text>
+                    </View>
+                    {canUndo && (
+                      <TouchableOpacity style={styles.undoButton} onPress={() => handleUndo(batch)}>
+                        <Undo2 size={16} color="#45B7D1" />
+                      </TouchableOpacity>
+                    )}
+                  </View>
+                );
+              })}
+            </View>
+          )}
+
           <View style={{ height: 100 }} />
         </ScrollView>
       </KeyboardAvoidingView>
@@ -478,6 +643,30 @@ const styles = StyleSheet.create({
     fontWeight: '600' as const,
     color: '#27AE60',
   },
+  scoreValueRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  scoreBreakdown: {
+    marginTop: 12,
+  },
+  trendRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  trendText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+  },
+  scoreBreakdownTitle: {
+    fontSize: 14,
+    fontWeight: '600' as const,
+    color: '#2C3E50',
+    marginBottom: 8,
+  },
   section: {
     paddingHorizontal: 20,
     marginBottom: 24,
@@ -564,6 +753,33 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#95A5A6',
   },
+  historyItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 12,
+    borderRadius: 8,
+    marginBottom: 8,
+  },
+  historyContent: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+    color: '#2C3E50',
+    marginBottom: 2,
+  },
+  historyReverted: {
+    color: '#95A5A6',
+    textDecorationLine: 'line-through',
+  },
+  historyDate: {
+    fontSize: 12,
+    color: '#95A5A6',
+  },
+  undoButton: {
+    padding: 8,
+  },
   notesInput: {
     backgroundColor: 'white',
     padding: 12,
@@ -610,4 +826,31 @@ const styles = StyleSheet.create({
     color: '#95A5A6',
     fontStyle: 'italic',
   },
+  cadenceText: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    marginBottom: 12,
+  },
+  cadenceOptions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  cadenceChip: {
+    backgroundColor: '#F0F3F7',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+  },
+  cadenceChipSelected: {
+    backgroundColor: '#45B7D1',
+  },
+  cadenceChipText: {
+    fontSize: 14,
+    color: '#2C3E50',
+  },
+  cadenceChipTextSelected: {
+    color: 'white',
+    fontWeight: '600' as const,
+  },
 });
\ No newline at end of file
@@ -0,0 +1,3 @@
+import { DuplicatesScreen } from '@/screens/DuplicatesScreen';
+
+export default DuplicatesScreen;
\ No newline at end of file
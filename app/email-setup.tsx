@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -9,15 +9,14 @@ import {
   Switch,
   Alert,
   SafeAreaView,
-  Platform,
   ActivityIndicator,
 } from 'react-native';
 import { router } from 'expo-router';
-import * as SecureStore from 'expo-secure-store';
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import { Mail, Server, Lock, HelpCircle, X } from 'lucide-react-native';
+import { Mail, Server, Lock, HelpCircle, X, Trash2 } from 'lucide-react-native';
 import { useOnboarding } from '@/contexts/OnboardingContext';
 import { imapService } from '../services/ImapService';
+import { emailAccountRegistry, EmailAccount } from '../services/EmailAccountRegistry';
+import { EmailSyncPersistence } from '../services/EmailSyncPersistence';
 
 interface EmailProvider {
   name: string;
@@ -55,8 +54,45 @@ export default function EmailAccountSetupScreen() {
   const [isTesting, setIsTesting] = useState<boolean>(false);
   const [lastValidatedConfig, setLastValidatedConfig] = useState<ImapAccountConfig | null>(null);
   const [connectionStatus, setConnectionStatus] = useState<{ type: 'success' | 'error'; message: string } | null>(null);
+  const [accounts, setAccounts] = useState<EmailAccount[]>([]);
   const { setEmailMethod, setStepInProgress, setStepError } = useOnboarding();
 
+  const loadAccounts = useCallback(async () => {
+    try {
+      setAccounts(await emailAccountRegistry.listAccounts());
+    } catch (error) {
+      console.error('Failed to load email accounts:', error);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadAccounts();
+  }, [loadAccounts]);
+
+  const handleToggleAccount = async (account: EmailAccount, enabled: boolean) => {
+    setAccounts(current => current.map(item => (item.id === account.id ? { ...item, enabled } : item)));
+    await emailAccountRegistry.setEnabled(account.id, enabled);
+    await loadAccounts();
+  };
+
+  const handleRemoveAccount = (account: EmailAccount) => {
+    Alert.alert(
+      'Remove Account',
+      `Stop syncing ${account.email} and delete its saved credentials from this device?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            await emailAccountRegistry.removeAccount(account.id);
+            await loadAccounts();
+          },
+        },
+      ]
+    );
+  };
+
   const resetValidation = () => {
     setLastValidatedConfig(null);
     setConnectionStatus(null);
@@ -139,18 +175,14 @@ export default function EmailAccountSetupScreen() {
 
     let encounteredError = false;
     try {
-      const emailConfig = {
+      const account = await emailAccountRegistry.addImapAccount({
         ...lastValidatedConfig,
         createdAt: new Date().toISOString(),
-      };
+      });
+      await loadAccounts();
 
-      if (Platform.OS !== 'web') {
-        await SecureStore.setItemAsync('email_config', JSON.stringify(emailConfig));
-      } else {
-        await AsyncStorage.setItem('email_config', JSON.stringify(emailConfig));
-      }
-
-      const syncResult = await imapService.syncMailbox();
+      const syncResult = await imapService.syncMailbox({ accountId: account.id });
+      await emailAccountRegistry.recordSyncResult(account.id, syncResult);
       if (!syncResult.success) {
         const errorMessage = syncResult.error ?? 'Failed to run the initial mailbox sync. Please try again.';
         encounteredError = true;
@@ -160,6 +192,19 @@ export default function EmailAccountSetupScreen() {
         return;
       }
 
+      // Store what the first sync found before its cursors move past it
+      const persisted = await EmailSyncPersistence.getInstance().persist({
+        threads: syncResult.threads ?? [],
+        messages: syncResult.messages ?? [],
+        interactions: syncResult.interactions ?? [],
+      });
+      // Anything that failed to save is fetched again by the next sync
+      if (persisted.failed === 0) {
+        await imapService.commitSyncState(syncResult);
+      } else {
+        console.warn(`Initial sync left ${persisted.failed} items unsaved; keeping the sync position`);
+      }
+
       await setEmailMethod('imap');
       setConnectionStatus({ type: 'success', message: 'Initial sync completed successfully.' });
 
@@ -204,7 +249,46 @@ export default function EmailAccountSetupScreen() {
       </View>
 
       <ScrollView style={styles.content} showsVerticalScrollIndicator={false}>
-        <Text style={styles.sectionTitle}>Choose Email Provider</Text>
+        {accounts.length > 0 && (
+          <>
+            <Text style={styles.sectionTitle}>Connected Accounts</Text>
+            <View style={styles.accountsContainer}>
+              {accounts.map(account => (
+                <View key={account.id} style={styles.accountRow}>
+                  <View style={styles.accountInfo}>
+                    <Text style={styles.accountEmail}>{account.email}</Text>
+                    <Text style={styles.accountMeta}>
+                      {account.type === 'gmail' ? 'Gmail (OAuth)' : account.provider || 'IMAP'}
+                      {account.lastSyncError
+                        ? ' · Sync error'
+                        : account.lastSyncedAt
+                          ? ` · Synced ${new Date(account.lastSyncedAt).toLocaleDateString()}`
+                          : ''}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={account.enabled}
+                    onValueChange={value => handleToggleAccount(account, value)}
+                    trackColor={{ false: '#E5E5E7', true: '#007AFF' }}
+                    thumbColor={account.enabled ? '#FFFFFF' : '#F4F3F4'}
+                  />
+                  {account.type === 'imap' && (
+                    <TouchableOpacity onPress={() => handleRemoveAccount(account)} style={styles.removeButton}>
+                      <Trash2 size={18} color="#FF3B30" />
+                    </TouchableOpacity>
+                  )}
+                </View>
+              ))}
+            </View>
+            {accounts.some(account => account.type === 'gmail') && (
+              <Text style={styles.accountsNote}>
+                One Google account syncs at a time. Signing in to Gmail with another account replaces it.
+              </Text>
+            )}
+          </>
+        )}
+
+        <Text style={styles.sectionTitle}>{accounts.length > 0 ? 'Add Another Account' : 'Choose Email Provider'}</Text>
         <View style={styles.providersContainer}>
           {EMAIL_PROVIDERS.map((provider) => (
             <TouchableOpacity
@@ -410,6 +494,42 @@ const styles = StyleSheet.create({
     marginTop: 24,
     marginBottom: 16,
   },
+  accountsContainer: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    overflow: 'hidden',
+  },
+  accountRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+    gap: 12,
+  },
+  accountInfo: {
+    flex: 1,
+  },
+  accountEmail: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#000000',
+  },
+  accountMeta: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 2,
+  },
+  accountsNote: {
+    fontSize: 13,
+    color: '#666666',
+    marginTop: 8,
+    marginHorizontal: 4,
+  },
+  removeButton: {
+    padding: 4,
+  },
   providersContainer: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -0,0 +1,3 @@
+import { PlaceDetailScreen } from '@/screens/PlaceDetailScreen';
+
+export default PlaceDetailScreen;
@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, FlatList } from 'react-native';
+import { X, Check, Search } from 'lucide-react-native';
+import { Person } from '@/models/Person';
+import { theme } from '@/constants/theme';
+
+interface LogVisitModalProps {
+  visible: boolean;
+  placeName: string;
+  people: Person[];
+  suggestedPersonIds?: string[]; // Shown first, e.g. people already met at this place
+  onClose: () => void;
+  onSave: (personIds: string[], notes?: string) => Promise<void>;
+}
+
+export const LogVisitModal: React.FC<LogVisitModalProps> = ({
+  visible,
+  placeName,
+  people,
+  suggestedPersonIds = [],
+  onClose,
+  onSave,
+}) => {
+  const [query, setQuery] = useState('');
+  const [notes, setNotes] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setQuery('');
+      setNotes('');
+      setSelectedIds(new Set());
+    }
+  }, [visible]);
+
+  const filteredPeople = useMemo(() => {
+    const needle = query.trim().toLowerCase();
+    const rank = new Map(suggestedPersonIds.map((id, index) => [id, index]));
+    return people
+      .filter(person => !needle || `${person.firstName} ${person.lastName}`.toLowerCase().includes(needle))
+      .sort((a, b) => {
+        const rankA = rank.get(a.id) ?? Number.MAX_SAFE_INTEGER;
+        const rankB = rank.get(b.id) ?? Number.MAX_SAFE_INTEGER;
+        if (rankA !== rankB) return rankA - rankB;
+        return `${a.firstName} ${a.lastName}`.localeCompare(`${b.firstName} ${b.lastName}`);
+      });
+  }, [people, query, suggestedPersonIds]);
+
+  const togglePerson = (personId: string) => {
+    setSelectedIds(current => {
+      const next = new Set(current);
+      if (next.has(personId)) {
+        next.delete(personId);
+      } else {
+        next.add(personId);
+      }
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    if (selectedIds.size === 0 || isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSave(Array.from(selectedIds), notes.trim() || undefined);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>Visit to {placeName}</Text>
+          <TouchableOpacity onPress={handleSave} disabled={selectedIds.size === 0 || isSaving}>
+            <Text style={[styles.saveButton, selectedIds.size === 0 && styles.saveButtonDisabled]}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.searchRow}>
+          <Search size={16} color={theme.colors.textLight} />
+          <TextInput
+            style={styles.searchInput}
+            value={query}
+            onChangeText={setQuery}
+            placeholder="Who were you with?"
+            placeholderTextColor={theme.colors.textLight}
+            autoCorrect={false}
+          />
+        </View>
+
+        <FlatList
+          data={filteredPeople}
+          keyExtractor={person => person.id}
+          keyboardShouldPersistTaps="handled"
+          renderItem={({ item }) => {
+            const isSelected = selectedIds.has(item.id);
+            return (
+              <TouchableOpacity style={styles.personRow} onPress={() => togglePerson(item.id)}>
+                <Text style={styles.personName}>{item.firstName} {item.lastName}</Text>
+                <View style={[styles.checkbox, isSelected && styles.checkboxSelected]}>
+                  {isSelected && <Check size={14} color={theme.colors.surface} />}
+                </View>
+              </TouchableOpacity>
+            );
+          }}
+        />
+
+        <TextInput
+          style={styles.notesInput}
+          value={notes}
+          onChangeText={setNotes}
+          placeholder="Notes (optional)"
+          placeholderTextColor={theme.colors.textLight}
+          multiline
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    ...theme.typography.headline,
+    color: theme.colors.text,
+    flex: 1,
+    textAlign: 'center',
+    marginHorizontal: theme.spacing.md,
+  },
+  saveButton: {
+    ...theme.typography.headline,
+    color: theme.colors.primary,
+  },
+  saveButtonDisabled: {
+    color: theme.colors.textLight,
+  },
+  searchRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.surface,
+    margin: theme.spacing.md,
+    paddingHorizontal: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+  },
+  searchInput: {
+    flex: 1,
+    paddingVertical: theme.spacing.sm + 4,
+    marginLeft: theme.spacing.sm,
+    color: theme.colors.text,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  personName: {
+    ...theme.typography.body,
+    color: theme.colors.text,
+  },
+  checkbox: {
+    width: 22,
+    height: 22,
+    borderRadius: 11,
+    borderWidth: 2,
+    borderColor: theme.colors.border,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  checkboxSelected: {
+    borderColor: theme.colors.primary,
+    backgroundColor: theme.colors.primary,
+  },
+  notesInput: {
+    backgroundColor: theme.colors.surface,
+    margin: theme.spacing.md,
+    padding: theme.spacing.md,
+    borderRadius: theme.borderRadius.md,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    color: theme.colors.text,
+  },
+});
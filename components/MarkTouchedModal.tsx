@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal } from 'react-native';
+import { X, MessageCircle, Phone, Mail, Video, Coffee, Check } from 'lucide-react-native';
+import { CHANNEL_OPTIONS } from '@/models/Annotation';
+import { theme } from '@/constants/theme';
+
+interface MarkTouchedModalProps {
+  visible: boolean;
+  personName: string;
+  preferredChannel?: string; // Listed first and checked
+  onClose: () => void;
+  onSelect: (channel: string) => Promise<void>;
+}
+
+const CHANNEL_ICONS: Record<string, typeof MessageCircle> = {
+  MessageCircle,
+  Phone,
+  Mail,
+  Video,
+  Coffee,
+};
+
+export const MarkTouchedModal: React.FC<MarkTouchedModalProps> = ({
+  visible,
+  personName,
+  preferredChannel,
+  onClose,
+  onSelect,
+}) => {
+  const [isSaving, setIsSaving] = useState(false);
+
+  const channels = [...CHANNEL_OPTIONS].sort((a, b) =>
+    Number(b.value === preferredChannel) - Number(a.value === preferredChannel)
+  );
+
+  const handleSelect = async (channel: string) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSelect(channel);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>How did you reach {personName}?</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        {channels.map(option => {
+          const Icon = CHANNEL_ICONS[option.icon] ?? MessageCircle;
+          return (
+            <TouchableOpacity
+              key={option.value}
+              style={styles.channelRow}
+              onPress={() => handleSelect(option.value)}
+              disabled={isSaving}
+            >
+              <Icon size={20} color={theme.colors.primary} />
+              <Text style={styles.channelLabel}>{option.label}</Text>
+              {option.value === preferredChannel && <Check size={18} color={theme.colors.success} />}
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    ...theme.typography.headline,
+    color: theme.colors.text,
+    flex: 1,
+    textAlign: 'center',
+    marginHorizontal: theme.spacing.md,
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  channelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm + 4,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 6,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  channelLabel: {
+    ...theme.typography.body,
+    color: theme.colors.text,
+    flex: 1,
+  },
+});
@@ -1,7 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
-import { Calendar, Users, Lightbulb, MessageSquare, Clock } from 'lucide-react-native';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, Linking, Alert } from 'react-native';
+import { Calendar, Users, Lightbulb, MessageSquare, Clock, Repeat, Video, Phone } from 'lucide-react-native';
 import { Meeting } from '@/models/Meeting';
+import { MeetingSeriesPosition, describeSeriesPosition } from '@/models/MeetingSeries';
 import { Person } from '@/models/Person';
 import { Interaction } from '@/models/Interaction';
 import { PrepPackResult } from '@/services/AITypes';
@@ -12,6 +13,7 @@ interface MeetingPrepCardProps {
   meeting: Meeting;
   attendees: Person[];
   interactions: Interaction[];
+  seriesPosition?: MeetingSeriesPosition;
   onPress?: () => void;
 }
 
@@ -19,6 +21,7 @@ export const MeetingPrepCard: React.FC<MeetingPrepCardProps> = ({
   meeting,
   attendees,
   interactions,
+  seriesPosition,
   onPress,
 }) => {
   const [prepPacks, setPrepPacks] = useState<Map<string, PrepPackResult>>(new Map());
@@ -64,6 +67,16 @@ export const MeetingPrepCard: React.FC<MeetingPrepCardProps> = ({
     }
   };
 
+  const handleJoin = async () => {
+    if (!meeting.joinUrl) return;
+    try {
+      await Linking.openURL(meeting.joinUrl);
+    } catch (error) {
+      console.error('[MeetingPrepCard] Failed to open join link:', error);
+      Alert.alert('Cannot Join', 'The meeting link could not be opened on this device.');
+    }
+  };
+
   const formatMeetingTime = (date: Date) => {
     const now = new Date();
     const diffHours = Math.abs(date.getTime() - now.getTime()) / (1000 * 60 * 60);
@@ -104,7 +117,23 @@ export const MeetingPrepCard: React.FC<MeetingPrepCardProps> = ({
             <Clock size={14} color={theme.colors.textSecondary} />
             <Text style={styles.timeText}>{formatMeetingTime(meeting.date)}</Text>
           </View>
+          {seriesPosition && (
+            <View style={styles.seriesContainer}>
+              <Repeat size={14} color={theme.colors.textSecondary} />
+              <Text style={styles.timeText}>{describeSeriesPosition(seriesPosition)}</Text>
+            </View>
+          )}
         </View>
+        {meeting.joinUrl && (
+          <TouchableOpacity style={styles.joinButton} onPress={handleJoin}>
+            {meeting.type === 'phone' ? (
+              <Phone size={14} color={theme.colors.surface} />
+            ) : (
+              <Video size={14} color={theme.colors.surface} />
+            )}
+            <Text style={styles.joinText}>{meeting.type === 'phone' ? 'Call' : 'Join'}</Text>
+          </TouchableOpacity>
+        )}
       </View>
 
       {attendees.length > 0 && (
@@ -214,6 +243,26 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  joinButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: theme.spacing.xs,
+    marginLeft: theme.spacing.sm,
+  },
+  joinText: {
+    ...theme.typography.caption,
+    color: theme.colors.surface,
+    fontWeight: '600',
+    marginLeft: theme.spacing.xs,
+  },
+  seriesContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginTop: theme.spacing.xs,
+  },
   timeText: {
     ...theme.typography.caption,
     color: theme.colors.textSecondary,
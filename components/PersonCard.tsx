@@ -1,20 +1,24 @@
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { View, Text, StyleSheet, Image, TouchableOpacity, Animated } from 'react-native';
 import Svg, { Circle } from 'react-native-svg';
 import { Person } from '@/models/Person';
 import { PersonScore } from '@/models/PersonScore';
+import { ScoreBreakdownView } from '@/components/ScoreBreakdownView';
+import { Sparkline } from '@/components/Sparkline';
 import { theme } from '@/constants/theme';
 
 interface PersonCardProps {
   person: Person;
   score?: PersonScore;
+  scoreTrend?: number[]; // Recent daily scores, oldest first
   onPress?: () => void;
 }
 
-export const PersonCard: React.FC<PersonCardProps> = ({ person, score, onPress }) => {
+export const PersonCard: React.FC<PersonCardProps> = ({ person, score, scoreTrend, onPress }) => {
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const slideAnim = useRef(new Animated.Value(30)).current;
+  const [showScoreBreakdown, setShowScoreBreakdown] = useState(false);
 
   useEffect(() => {
     Animated.parallel([
@@ -145,8 +149,16 @@ export const PersonCard: React.FC<PersonCardProps> = ({ person, score, onPress }
               {person.firstName} {person.lastName}
             </Text>
             {score && (
-              <View style={[styles.scoreBadge, { opacity: score.relationshipScore / 100 }]}>
-                <Text style={styles.scoreText}>{score.relationshipScore}</Text>
+              <View style={styles.scoreRow}>
+                {scoreTrend && <Sparkline values={scoreTrend} width={48} height={20} />}
+                <TouchableOpacity
+                  onPress={() => setShowScoreBreakdown(!showScoreBreakdown)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <View style={[styles.scoreBadge, { opacity: score.relationshipScore / 100 }]}>
+                    <Text style={styles.scoreText}>{score.relationshipScore}</Text>
+                  </View>
+                </TouchableOpacity>
               </View>
             )}
           </View>
@@ -162,6 +174,12 @@ export const PersonCard: React.FC<PersonCardProps> = ({ person, score, onPress }
         </View>
       </View>
       
+      {score && showScoreBreakdown && (
+        <View style={styles.scoreBreakdown}>
+          <ScoreBreakdownView score={score} compact />
+        </View>
+      )}
+
       {person.tags.length > 0 && (
         <View style={styles.tags}>
           {person.tags.slice(0, 3).map((tag, index) => (
@@ -255,6 +273,11 @@ const styles = StyleSheet.create({
     ...theme.typography.caption,
     color: theme.colors.textLight,
   },
+  scoreRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
   scoreBadge: {
     backgroundColor: theme.colors.accent,
     width: 32,
@@ -268,6 +291,12 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: 'bold' as const,
   },
+  scoreBreakdown: {
+    marginTop: 12,
+    paddingTop: 12,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
   tags: {
     flexDirection: 'row',
     marginTop: 12,
@@ -0,0 +1,230 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, Alert, ActivityIndicator } from 'react-native';
+import * as Location from 'expo-location';
+import { X, Crosshair, RefreshCw, MapPin } from 'lucide-react-native';
+import { Place, hasCoordinates } from '@/models/Place';
+import { PlaceGeocodingService } from '@/services/PlaceGeocodingService';
+
+interface PlacePinEditorProps {
+  place: Place | null;
+  onClose: () => void;
+  onSaved: (place: Place) => void;
+}
+
+const STATUS_LABELS: Record<NonNullable<Place['geocodeStatus']>, string> = {
+  pending: 'Waiting for lookup',
+  resolved: 'Found by address lookup',
+  failed: 'Address lookup failed',
+  manual: 'Pinned by you',
+};
+
+export const PlacePinEditor: React.FC<PlacePinEditorProps> = ({ place, onClose, onSaved }) => {
+  const [latitude, setLatitude] = useState('');
+  const [longitude, setLongitude] = useState('');
+  const [busyAction, setBusyAction] = useState<'locate' | 'retry' | 'save' | null>(null);
+
+  useEffect(() => {
+    if (place && hasCoordinates(place)) {
+      setLatitude(place.latitude.toFixed(6));
+      setLongitude(place.longitude.toFixed(6));
+    } else {
+      setLatitude('');
+      setLongitude('');
+    }
+  }, [place]);
+
+  const service = PlaceGeocodingService.getInstance();
+
+  const handleUseCurrentLocation = async () => {
+    setBusyAction('locate');
+    try {
+      const { status } = await Location.requestForegroundPermissionsAsync();
+      if (status !== 'granted') {
+        Alert.alert('Permission Required', 'Location permission is needed to pin this place where you are.');
+        return;
+      }
+      const position = await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      setLatitude(position.coords.latitude.toFixed(6));
+      setLongitude(position.coords.longitude.toFixed(6));
+    } catch (error) {
+      console.error('[PlacePinEditor] Failed to read current location:', error);
+      Alert.alert('Location Unavailable', 'Could not determine your current location.');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleRetryLookup = async () => {
+    if (!place) return;
+    setBusyAction('retry');
+    try {
+      const { place: updated, found } = await service.retryPlace(place.id);
+      if (updated && found) {
+        onSaved(updated);
+      } else {
+        Alert.alert('Not Found', 'The address could not be matched. Enter the coordinates or use your current location.');
+      }
+    } catch (error) {
+      console.error('[PlacePinEditor] Address lookup failed:', error);
+      Alert.alert('Lookup Failed', error instanceof Error ? error.message : 'Could not look up the address');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!place) return;
+    setBusyAction('save');
+    try {
+      const updated = await service.setManualPin(place.id, parseFloat(latitude), parseFloat(longitude));
+      if (updated) {
+        onSaved(updated);
+      }
+    } catch (error) {
+      Alert.alert('Invalid Pin', error instanceof Error ? error.message : 'Could not save the pin');
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  return (
+    <Modal visible={!!place} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color="#2C3E50" />
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>Adjust Pin</Text>
+          <TouchableOpacity onPress={handleSave} disabled={busyAction !== null}>
+            <Text style={styles.saveButton}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        {place && (
+          <View style={styles.modalContent}>
+            <View style={styles.placeRow}>
+              <MapPin size={20} color="#45B7D1" />
+              <View style={styles.placeInfo}>
+                <Text style={styles.placeName}>{place.name}</Text>
+                {place.address && <Text style={styles.placeAddress}>{place.address}</Text>}
+                <Text style={styles.statusText}>{STATUS_LABELS[place.geocodeStatus || 'pending']}</Text>
+              </View>
+            </View>
+
+            <Text style={styles.inputLabel}>Latitude</Text>
+            <TextInput
+              style={styles.textInput}
+              value={latitude}
+              onChangeText={setLatitude}
+              keyboardType="numbers-and-punctuation"
+              placeholder="e.g. 37.774900"
+            />
+            <Text style={styles.inputLabel}>Longitude</Text>
+            <TextInput
+              style={styles.textInput}
+              value={longitude}
+              onChangeText={setLongitude}
+              keyboardType="numbers-and-punctuation"
+              placeholder="e.g. -122.419400"
+            />
+
+            <TouchableOpacity style={styles.actionButton} onPress={handleUseCurrentLocation} disabled={busyAction !== null}>
+              {busyAction === 'locate' ? <ActivityIndicator size="small" color="#45B7D1" /> : <Crosshair size={18} color="#45B7D1" />}
+              <Text style={styles.actionText}>Use my current location</Text>
+            </TouchableOpacity>
+            {/* Manual pins are never replaced by the geocoder */}
+            {place.geocodeStatus !== 'manual' && (
+              <TouchableOpacity style={styles.actionButton} onPress={handleRetryLookup} disabled={busyAction !== null}>
+                {busyAction === 'retry' ? <ActivityIndicator size="small" color="#45B7D1" /> : <RefreshCw size={18} color="#45B7D1" />}
+                <Text style={styles.actionText}>Retry address lookup</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F3F7',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#2C3E50',
+  },
+  saveButton: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#45B7D1',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 16,
+  },
+  placeRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 16,
+  },
+  placeInfo: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  placeName: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#2C3E50',
+  },
+  placeAddress: {
+    fontSize: 14,
+    color: '#7F8C8D',
+    marginTop: 2,
+  },
+  statusText: {
+    fontSize: 12,
+    color: '#95A5A6',
+    marginTop: 4,
+  },
+  inputLabel: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: '#7F8C8D',
+    marginBottom: 6,
+  },
+  textInput: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    fontSize: 16,
+    marginBottom: 12,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginTop: 8,
+  },
+  actionText: {
+    fontSize: 15,
+    color: '#2C3E50',
+    marginLeft: 12,
+  },
+});
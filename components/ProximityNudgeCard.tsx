@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { MapPin, Navigation, X } from 'lucide-react-native';
+import { ProximityNudge } from '@/services/ProximityNudgeService';
+import { theme } from '@/constants/theme';
+
+interface ProximityNudgeCardProps {
+  nudge: ProximityNudge;
+  onPress?: () => void;
+  onDismiss?: (nudgeId: string) => void;
+}
+
+export const ProximityNudgeCard: React.FC<ProximityNudgeCardProps> = ({
+  nudge,
+  onPress,
+  onDismiss,
+}) => {
+  const Icon = nudge.kind === 'place' ? MapPin : Navigation;
+
+  return (
+    <TouchableOpacity style={styles.container} onPress={onPress} activeOpacity={0.7}>
+      <View style={styles.iconContainer}>
+        <Icon size={18} color={theme.colors.surface} />
+      </View>
+      <View style={styles.contentContainer}>
+        <Text style={styles.title}>{nudge.title}</Text>
+        <Text style={styles.message}>{nudge.message}</Text>
+      </View>
+      {onDismiss && (
+        <TouchableOpacity
+          onPress={() => onDismiss(nudge.id)}
+          hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
+        >
+          <X size={16} color={theme.colors.textSecondary} />
+        </TouchableOpacity>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginHorizontal: theme.spacing.lg,
+    marginVertical: theme.spacing.sm,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+  },
+  iconContainer: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    backgroundColor: theme.colors.primary,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: theme.spacing.sm,
+  },
+  contentContainer: {
+    flex: 1,
+    marginRight: theme.spacing.sm,
+  },
+  title: {
+    ...theme.typography.headline,
+    color: theme.colors.text,
+    marginBottom: theme.spacing.xs,
+  },
+  message: {
+    ...theme.typography.subheadline,
+    color: theme.colors.textSecondary,
+  },
+});
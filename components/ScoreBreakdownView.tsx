@@ -0,0 +1,153 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { PersonScore, ScoreFactor } from '@/models/PersonScore';
+import { TIER_OPTIONS } from '@/models/Annotation';
+import { theme } from '@/constants/theme';
+
+interface ScoreBreakdownViewProps {
+  score: PersonScore;
+  compact?: boolean; // Only what moved the score, for cards
+}
+
+export const ScoreBreakdownView: React.FC<ScoreBreakdownViewProps> = ({ score, compact = false }) => {
+  const breakdown = score.breakdown;
+
+  if (!breakdown) {
+    return (
+      <Text style={styles.emptyText}>Details appear after the next score update.</Text>
+    );
+  }
+
+  const points = breakdown.points.filter(item => item.points > 0);
+  const subtotal = points.reduce((sum, item) => sum + item.points, 0);
+  const factors = compact
+    ? breakdown.factors.filter(factor => factor.multiplier !== 1)
+    : breakdown.factors;
+
+  const formatMultiplier = (factor: ScoreFactor) => `×${factor.multiplier.toFixed(2)}`;
+  const multiplierColor = (factor: ScoreFactor) => {
+    if (factor.multiplier > 1) return theme.colors.success;
+    if (factor.multiplier < 1) return theme.colors.error;
+    return theme.colors.textLight;
+  };
+
+  const profileLabel = breakdown.profile
+    ? TIER_OPTIONS.find(option => option.value === breakdown.profile?.tier)?.label ?? 'Default'
+    : null;
+
+  const formatDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  return (
+    <View style={styles.container}>
+      {!compact && (
+        <>
+          {points.length > 0 ? points.map(item => (
+            <View key={item.key} style={styles.row}>
+              <Text style={styles.rowLabel}>{item.label}</Text>
+              <Text style={styles.rowValue}>+{item.points.toFixed(1)}</Text>
+            </View>
+          )) : (
+            <Text style={styles.emptyText}>No interactions in the last 90 days</Text>
+          )}
+          <View style={[styles.row, styles.subtotalRow]}>
+            <Text style={styles.subtotalLabel}>Points</Text>
+            <Text style={styles.subtotalLabel}>{subtotal.toFixed(1)}</Text>
+          </View>
+        </>
+      )}
+
+      {factors.map(factor => (
+        <View key={factor.key} style={styles.factorRow}>
+          <View style={styles.factorInfo}>
+            <Text style={styles.rowLabel}>{factor.label}</Text>
+            <Text style={styles.factorDetail}>{factor.detail}</Text>
+          </View>
+          <Text style={[styles.rowValue, { color: multiplierColor(factor) }]}>{formatMultiplier(factor)}</Text>
+        </View>
+      ))}
+
+      {breakdown.uncappedScore > 100 && (
+        <Text style={styles.factorDetail}>Capped at 100 from {breakdown.uncappedScore}</Text>
+      )}
+
+      {breakdown.topInteractions.length > 0 && (
+        <View style={styles.topSection}>
+          <Text style={styles.topTitle}>Counted most</Text>
+          {breakdown.topInteractions.slice(0, compact ? 1 : undefined).map(item => (
+            <View key={item.interactionId} style={styles.row}>
+              <Text style={styles.rowLabel} numberOfLines={1}>
+                {item.label} · {formatDate(item.date)}
+              </Text>
+              <Text style={styles.rowValue}>+{item.points.toFixed(1)}</Text>
+            </View>
+          ))}
+        </View>
+      )}
+
+      {!compact && profileLabel && (
+        <Text style={styles.factorDetail}>
+          Scored with the {profileLabel} profile (version {breakdown.profile?.version})
+        </Text>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: theme.spacing.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: theme.spacing.sm,
+  },
+  rowLabel: {
+    ...theme.typography.footnote,
+    color: theme.colors.text,
+    flexShrink: 1,
+  },
+  rowValue: {
+    ...theme.typography.footnote,
+    color: theme.colors.textSecondary,
+    fontWeight: '600',
+  },
+  subtotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+    paddingTop: theme.spacing.xs,
+    marginBottom: theme.spacing.xs,
+  },
+  subtotalLabel: {
+    ...theme.typography.footnote,
+    color: theme.colors.text,
+    fontWeight: '600',
+  },
+  factorRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: theme.spacing.sm,
+  },
+  factorInfo: {
+    flex: 1,
+  },
+  factorDetail: {
+    ...theme.typography.caption,
+    color: theme.colors.textSecondary,
+  },
+  topSection: {
+    marginTop: theme.spacing.xs,
+    gap: theme.spacing.xs,
+  },
+  topTitle: {
+    ...theme.typography.caption,
+    color: theme.colors.textLight,
+    textTransform: 'uppercase',
+  },
+  emptyText: {
+    ...theme.typography.footnote,
+    color: theme.colors.textLight,
+  },
+});
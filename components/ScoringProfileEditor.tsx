@@ -0,0 +1,273 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, Alert, ScrollView } from 'react-native';
+import { X, RotateCcw } from 'lucide-react-native';
+import { Interaction } from '@/models/Interaction';
+import { ScoringProfile } from '@/models/ScoringProfile';
+
+interface ScoringProfileEditorProps {
+  visible: boolean;
+  tierLabel: string;
+  profile: ScoringProfile | null;
+  onClose: () => void;
+  onSave: (profile: ScoringProfile) => Promise<void>;
+  onReset: () => Promise<void>;
+}
+
+const WEIGHT_FIELDS: { type: Interaction['type']; label: string }[] = [
+  { type: 'meeting', label: 'Meeting' },
+  { type: 'call', label: 'Call' },
+  { type: 'email', label: 'Email' },
+  { type: 'message', label: 'Message' },
+  { type: 'social', label: 'Social' },
+  { type: 'other', label: 'Other' },
+];
+
+type WeightInputs = Record<Interaction['type'], string>;
+
+export const ScoringProfileEditor: React.FC<ScoringProfileEditorProps> = ({
+  visible,
+  tierLabel,
+  profile,
+  onClose,
+  onSave,
+  onReset,
+}) => {
+  const [weights, setWeights] = useState<WeightInputs>({ meeting: '', call: '', email: '', message: '', social: '', other: '' });
+  const [decayRate, setDecayRate] = useState('');
+  const [thresholds, setThresholds] = useState<{ days: string; multiplier: string }[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!profile) return;
+    setWeights(Object.fromEntries(
+      WEIGHT_FIELDS.map(field => [field.type, String(profile.interactionWeights[field.type] ?? 1)])
+    ) as WeightInputs);
+    setDecayRate(String(profile.decayRate));
+    setThresholds(profile.recencyThresholds.map(threshold => ({
+      days: String(threshold.days),
+      multiplier: String(threshold.multiplier),
+    })));
+  }, [profile, visible]);
+
+  const parseProfile = (): ScoringProfile | null => {
+    const interactionWeights = {} as ScoringProfile['interactionWeights'];
+    for (const field of WEIGHT_FIELDS) {
+      const value = parseFloat(weights[field.type]);
+      if (!Number.isFinite(value) || value < 0 || value > 10) {
+        Alert.alert('Invalid Weight', `${field.label} weight must be between 0 and 10.`);
+        return null;
+      }
+      interactionWeights[field.type] = value;
+    }
+
+    const decay = parseFloat(decayRate);
+    if (!Number.isFinite(decay) || decay <= 0 || decay > 1) {
+      Alert.alert('Invalid Decay Rate', 'Decay rate must be greater than 0 and at most 1 per day.');
+      return null;
+    }
+
+    const recencyThresholds = [];
+    for (const threshold of thresholds) {
+      const days = parseInt(threshold.days, 10);
+      const multiplier = parseFloat(threshold.multiplier);
+      if (!Number.isFinite(days) || days < 1 || !Number.isFinite(multiplier) || multiplier < 0 || multiplier > 1) {
+        Alert.alert('Invalid Recency Step', 'Each step needs at least 1 day and a multiplier between 0 and 1.');
+        return null;
+      }
+      recencyThresholds.push({ days, multiplier });
+    }
+
+    return {
+      interactionWeights,
+      decayRate: decay,
+      recencyThresholds: recencyThresholds.sort((a, b) => a.days - b.days),
+    };
+  };
+
+  const handleSave = async () => {
+    const parsed = parseProfile();
+    if (!parsed || isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSave(parsed);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    Alert.alert(
+      'Restore Defaults',
+      `Use the built-in scoring for ${tierLabel}?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Restore', style: 'destructive', onPress: onReset },
+      ]
+    );
+  };
+
+  const updateThreshold = (index: number, key: 'days' | 'multiplier', value: string) => {
+    setThresholds(current => current.map((threshold, i) => (i === index ? { ...threshold, [key]: value } : threshold)));
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <View style={styles.modalHeader}>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color="#2C3E50" />
+          </TouchableOpacity>
+          <Text style={styles.modalTitle}>{tierLabel} Scoring</Text>
+          <TouchableOpacity onPress={handleSave} disabled={isSaving}>
+            <Text style={styles.saveButton}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView style={styles.modalContent} keyboardShouldPersistTaps="handled">
+          <Text style={styles.groupTitle}>Interaction weights</Text>
+          <Text style={styles.groupHint}>How much one interaction of each kind adds to connectivity.</Text>
+          <View style={styles.card}>
+            {WEIGHT_FIELDS.map(field => (
+              <View key={field.type} style={styles.fieldRow}>
+                <Text style={styles.fieldLabel}>{field.label}</Text>
+                <TextInput
+                  style={styles.input}
+                  value={weights[field.type]}
+                  onChangeText={value => setWeights(current => ({ ...current, [field.type]: value }))}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.groupTitle}>Decay rate</Text>
+          <Text style={styles.groupHint}>How fast an interaction's value fades. At 0.1 it halves in about a week.</Text>
+          <View style={styles.card}>
+            <View style={styles.fieldRow}>
+              <Text style={styles.fieldLabel}>Per day</Text>
+              <TextInput
+                style={styles.input}
+                value={decayRate}
+                onChangeText={setDecayRate}
+                keyboardType="decimal-pad"
+              />
+            </View>
+          </View>
+
+          <Text style={styles.groupTitle}>Recency</Text>
+          <Text style={styles.groupHint}>After this many days without contact, multiply the score by this much.</Text>
+          <View style={styles.card}>
+            {thresholds.map((threshold, index) => (
+              <View key={index} style={styles.fieldRow}>
+                <Text style={styles.fieldLabel}>After</Text>
+                <TextInput
+                  style={styles.input}
+                  value={threshold.days}
+                  onChangeText={value => updateThreshold(index, 'days', value)}
+                  keyboardType="number-pad"
+                />
+                <Text style={styles.fieldLabel}>days ×</Text>
+                <TextInput
+                  style={styles.input}
+                  value={threshold.multiplier}
+                  onChangeText={value => updateThreshold(index, 'multiplier', value)}
+                  keyboardType="decimal-pad"
+                />
+              </View>
+            ))}
+          </View>
+
+          <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+            <RotateCcw size={18} color="#E74C3C" />
+            <Text style={styles.resetText}>Restore defaults</Text>
+          </TouchableOpacity>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: '#F8F9FA',
+  },
+  modalHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: 16,
+    backgroundColor: 'white',
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F3F7',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: '600' as const,
+    color: '#2C3E50',
+  },
+  saveButton: {
+    fontSize: 16,
+    fontWeight: '600' as const,
+    color: '#45B7D1',
+  },
+  modalContent: {
+    flex: 1,
+    padding: 16,
+  },
+  groupTitle: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: '#7F8C8D',
+    textTransform: 'uppercase',
+    marginTop: 8,
+  },
+  groupHint: {
+    fontSize: 13,
+    color: '#95A5A6',
+    marginTop: 4,
+    marginBottom: 8,
+  },
+  card: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    marginBottom: 16,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    gap: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F0F3F7',
+  },
+  fieldLabel: {
+    flex: 1,
+    fontSize: 15,
+    color: '#2C3E50',
+  },
+  input: {
+    width: 72,
+    backgroundColor: '#F0F3F7',
+    borderRadius: 8,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    fontSize: 15,
+    color: '#2C3E50',
+    textAlign: 'right',
+  },
+  resetButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    padding: 14,
+    marginBottom: 32,
+  },
+  resetText: {
+    fontSize: 15,
+    fontWeight: '600' as const,
+    color: '#E74C3C',
+  },
+});
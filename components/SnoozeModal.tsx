@@ -0,0 +1,162 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, TextInput, Modal, Alert } from 'react-native';
+import { X, ChevronRight } from 'lucide-react-native';
+import { SNOOZE_OPTIONS, MAX_SNOOZE_DAYS } from '@/models/Snooze';
+import { theme } from '@/constants/theme';
+
+interface SnoozeModalProps {
+  visible: boolean;
+  personName: string;
+  onClose: () => void;
+  onSnooze: (until: Date) => Promise<void>;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const SnoozeModal: React.FC<SnoozeModalProps> = ({
+  visible,
+  personName,
+  onClose,
+  onSnooze,
+}) => {
+  const [customDays, setCustomDays] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (visible) setCustomDays('');
+  }, [visible]);
+
+  const untilFor = (days: number) => new Date(Date.now() + days * DAY_MS);
+  const formatDate = (date: Date) => date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+
+  const snoozeFor = async (days: number) => {
+    if (isSaving) return;
+    setIsSaving(true);
+    try {
+      await onSnooze(untilFor(days));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleCustom = () => {
+    const days = parseInt(customDays, 10);
+    if (!Number.isFinite(days) || days < 1 || days > MAX_SNOOZE_DAYS) {
+      Alert.alert('Invalid Snooze', `Snooze for 1 to ${MAX_SNOOZE_DAYS} days.`);
+      return;
+    }
+    snoozeFor(days);
+  };
+
+  return (
+    <Modal visible={visible} animationType="slide" presentationStyle="pageSheet" onRequestClose={onClose}>
+      <View style={styles.container}>
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <X size={24} color={theme.colors.text} />
+          </TouchableOpacity>
+          <Text style={styles.title} numberOfLines={1}>Snooze {personName}</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <Text style={styles.hint}>Hidden from Recents, Today and reach-out reminders until then.</Text>
+
+        {SNOOZE_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.days}
+            style={styles.optionRow}
+            onPress={() => snoozeFor(option.days)}
+            disabled={isSaving}
+          >
+            <Text style={styles.optionLabel}>{option.label}</Text>
+            <Text style={styles.optionDetail}>Until {formatDate(untilFor(option.days))}</Text>
+            <ChevronRight size={18} color={theme.colors.textLight} />
+          </TouchableOpacity>
+        ))}
+
+        <View style={styles.optionRow}>
+          <Text style={styles.optionLabel}>Custom</Text>
+          <TextInput
+            style={styles.daysInput}
+            value={customDays}
+            onChangeText={setCustomDays}
+            placeholder="Days"
+            placeholderTextColor={theme.colors.textLight}
+            keyboardType="number-pad"
+            returnKeyType="done"
+            onSubmitEditing={handleCustom}
+          />
+          <TouchableOpacity onPress={handleCustom} disabled={!customDays || isSaving}>
+            <Text style={[styles.snoozeButton, !customDays && styles.snoozeButtonDisabled]}>Snooze</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    padding: theme.spacing.md,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  title: {
+    ...theme.typography.headline,
+    color: theme.colors.text,
+    flex: 1,
+    textAlign: 'center',
+    marginHorizontal: theme.spacing.md,
+  },
+  headerSpacer: {
+    width: 24,
+  },
+  hint: {
+    ...theme.typography.footnote,
+    color: theme.colors.textSecondary,
+    margin: theme.spacing.md,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: theme.spacing.sm,
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm + 4,
+    backgroundColor: theme.colors.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  optionLabel: {
+    ...theme.typography.body,
+    color: theme.colors.text,
+    flex: 1,
+  },
+  optionDetail: {
+    ...theme.typography.footnote,
+    color: theme.colors.textSecondary,
+  },
+  daysInput: {
+    width: 72,
+    backgroundColor: theme.colors.background,
+    borderRadius: theme.borderRadius.sm,
+    paddingHorizontal: theme.spacing.sm,
+    paddingVertical: 6,
+    color: theme.colors.text,
+    textAlign: 'right',
+  },
+  snoozeButton: {
+    ...theme.typography.headline,
+    color: theme.colors.primary,
+  },
+  snoozeButtonDisabled: {
+    color: theme.colors.textLight,
+  },
+});
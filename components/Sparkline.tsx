@@ -0,0 +1,61 @@
+import React from 'react';
+import Svg, { Circle, Polyline } from 'react-native-svg';
+import { theme } from '@/constants/theme';
+
+interface SparklineProps {
+  values: number[];
+  width?: number;
+  height?: number;
+  color?: string; // Defaults to green when rising, red when falling
+  min?: number; // Fixed scale, e.g. 0-100 for scores; defaults to the data range
+  max?: number;
+}
+
+// Changes smaller than this read as flat rather than warming or cooling
+const FLAT_THRESHOLD = 2;
+
+export function getTrendColor(values: number[]): string {
+  if (values.length < 2) return theme.colors.textLight;
+  const change = values[values.length - 1] - values[0];
+  if (change >= FLAT_THRESHOLD) return theme.colors.success;
+  if (change <= -FLAT_THRESHOLD) return theme.colors.error;
+  return theme.colors.textLight;
+}
+
+export const Sparkline: React.FC<SparklineProps> = ({
+  values,
+  width = 60,
+  height = 20,
+  color,
+  min,
+  max,
+}) => {
+  if (values.length < 2) return null;
+
+  const low = min ?? Math.min(...values);
+  const high = max ?? Math.max(...values);
+  const range = high - low || 1;
+  const padding = 2;
+  const stepX = (width - padding * 2) / (values.length - 1);
+
+  const coordinates = values.map((value, index) => ({
+    x: padding + index * stepX,
+    y: padding + (height - padding * 2) * (1 - (value - low) / range),
+  }));
+  const last = coordinates[coordinates.length - 1];
+  const stroke = color ?? getTrendColor(values);
+
+  return (
+    <Svg width={width} height={height}>
+      <Polyline
+        points={coordinates.map(point => `${point.x},${point.y}`).join(' ')}
+        fill="none"
+        stroke={stroke}
+        strokeWidth={1.5}
+        strokeLinejoin="round"
+        strokeLinecap="round"
+      />
+      <Circle cx={last.x} cy={last.y} r={2} fill={stroke} />
+    </Svg>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useMemo, useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import {
   View,
   Text,
@@ -7,14 +7,30 @@ import {
   SafeAreaView,
   ActivityIndicator,
   Platform,
+  Switch,
+  ScrollView,
 } from 'react-native';
 import { Calendar, CheckCircle, XCircle, AlertCircle, Smartphone, Globe } from 'lucide-react-native';
 import { useOnboarding } from '@/contexts/OnboardingContext';
+import { CalendarListener } from '@/services/CalendarListener';
+import { CalendarOption } from '@/services/CalendarIngest';
+import { PersonDAO } from '@/database/PersonDAO';
+import { MeetingDAO } from '@/database/MeetingDAO';
+import { PlaceDAO } from '@/database/PlaceDAO';
+import { InteractionDAO } from '@/database/InteractionDAO';
+
+const getCalendarListener = () => CalendarListener.getInstance(
+  new PersonDAO(),
+  new MeetingDAO(),
+  new PlaceDAO(),
+  new InteractionDAO()
+);
 
 export function CalendarPermissionScreen() {
-  const { requestCalendarPermission, steps, completeStep } = useOnboarding();
+  const { requestCalendarPermission, steps, completeStep, syncPreferences } = useOnboarding();
   const [isRequesting, setIsRequesting] = useState(false);
   const [selectedSource, setSelectedSource] = useState<'eventkit' | 'google' | null>(null);
+  const [calendars, setCalendars] = useState<CalendarOption[]>([]);
 
   const calendarOptions = useMemo(() => ([
     {
@@ -41,6 +57,25 @@ export function CalendarPermissionScreen() {
   const isCompleted = currentStep?.completed || false;
   const hasError = !!currentStep?.error;
 
+  useEffect(() => {
+    if (!isCompleted || !syncPreferences.calendarEnabled || Platform.OS === 'web') return;
+    getCalendarListener()
+      .listCalendars()
+      .then(setCalendars)
+      .catch(error => console.warn('[Onboarding] Failed to list calendars:', error));
+  }, [isCompleted, syncPreferences.calendarEnabled]);
+
+  const handleToggleCalendar = async (calendarId: string, included: boolean) => {
+    setCalendars(current => current.map(calendar => (
+      calendar.id === calendarId ? { ...calendar, isIncluded: included } : calendar
+    )));
+    try {
+      await getCalendarListener().setCalendarIncluded(calendarId, included);
+    } catch (error) {
+      console.warn('[Onboarding] Failed to update calendar selection:', error);
+    }
+  };
+
   const handleSelectSource = async (source: 'eventkit' | 'google') => {
     if (Platform.OS === 'web' && source === 'eventkit') {
       return;
@@ -146,6 +181,32 @@ export function CalendarPermissionScreen() {
           </View>
         )}
 
+        {isCompleted && calendars.length > 0 && (
+          <View style={styles.calendarList}>
+            <Text style={styles.explanationTitle}>Calendars to import</Text>
+            <Text style={styles.explanationText}>
+              Holiday, birthday and subscribed calendars start switched off. You can change this later in Settings.
+            </Text>
+            <ScrollView style={styles.calendarScroll}>
+              {calendars.map(calendar => (
+                <View key={calendar.id} style={styles.calendarRow}>
+                  <View style={[styles.calendarDot, { backgroundColor: calendar.color || '#007AFF' }]} />
+                  <View style={styles.calendarInfo}>
+                    <Text style={styles.calendarTitle}>{calendar.title}</Text>
+                    {calendar.sourceName && (
+                      <Text style={styles.calendarSource}>{calendar.sourceName}</Text>
+                    )}
+                  </View>
+                  <Switch
+                    value={calendar.isIncluded}
+                    onValueChange={(value) => handleToggleCalendar(calendar.id, value)}
+                  />
+                </View>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+
         <View style={styles.explanation}>
           <Text style={styles.explanationTitle}>Meeting intelligence</Text>
           <Text style={styles.explanationText}>
@@ -308,6 +369,38 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     letterSpacing: 0.4,
   },
+  calendarList: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 20,
+    marginBottom: 24,
+  },
+  calendarScroll: {
+    maxHeight: 220,
+  },
+  calendarRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+  },
+  calendarDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+    marginRight: 12,
+  },
+  calendarInfo: {
+    flex: 1,
+  },
+  calendarTitle: {
+    fontSize: 15,
+    color: '#1A1A1A',
+  },
+  calendarSource: {
+    fontSize: 12,
+    color: '#999',
+    marginTop: 2,
+  },
   explanation: {
     backgroundColor: '#FFFFFF',
     borderRadius: 12,
@@ -1,5 +1,6 @@
 import { BaseDAO } from './BaseDAO';
 import { Annotation } from '../models/Annotation';
+import { ChangeLogDAO, ChangeMeta, RowScope } from './ChangeLogDAO';
 
 interface AnnotationRow {
   id: string;
@@ -13,6 +14,8 @@ interface AnnotationRow {
 }
 
 export class AnnotationDAO extends BaseDAO<Annotation> {
+  private changeLog = new ChangeLogDAO();
+
   constructor() {
     super('annotations');
   }
@@ -70,23 +73,26 @@ export class AnnotationDAO extends BaseDAO<Annotation> {
       throw new Error('Database not available');
     }
 
+    const db = this.db;
     const now = this.getNow();
     const id = this.generateId();
     
-    await this.db.runAsync(
-      `INSERT INTO ${this.tableName} (id, entityType, entityId, type, content, metadata, createdAt, updatedAt) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        id,
-        annotation.entityType,
-        annotation.entityId,
-        annotation.type,
-        annotation.content,
-        this.stringifyJsonField(annotation.metadata),
-        now,
-        now
-      ]
-    );
+    await this.changeLog.track(this.changeMeta('create', annotation), this.changeScopes(id), async () => {
+      await db.runAsync(
+        `INSERT INTO ${this.tableName} (id, entityType, entityId, type, content, metadata, createdAt, updatedAt) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id,
+          annotation.entityType,
+          annotation.entityId,
+          annotation.type,
+          annotation.content,
+          this.stringifyJsonField(annotation.metadata),
+          now,
+          now
+        ]
+      );
+    });
 
     return {
       ...annotation,
@@ -102,38 +108,65 @@ export class AnnotationDAO extends BaseDAO<Annotation> {
     const existing = await this.findById(id);
     if (!existing) return null;
 
+    const db = this.db;
     const now = this.getNow();
     
-    await this.db.runAsync(
-      `UPDATE ${this.tableName} 
-       SET entityType = ?, entityId = ?, type = ?, content = ?, metadata = ?, updatedAt = ?
-       WHERE id = ?`,
-      [
-        updates.entityType ?? existing.entityType,
-        updates.entityId ?? existing.entityId,
-        updates.type ?? existing.type,
-        updates.content ?? existing.content,
-        this.stringifyJsonField(updates.metadata ?? existing.metadata),
-        now,
-        id
-      ]
-    );
+    await this.changeLog.track(this.changeMeta('update', existing), this.changeScopes(id), async () => {
+      await db.runAsync(
+        `UPDATE ${this.tableName} 
+         SET entityType = ?, entityId = ?, type = ?, content = ?, metadata = ?, updatedAt = ?
+         WHERE id = ?`,
+        [
+          updates.entityType ?? existing.entityType,
+          updates.entityId ?? existing.entityId,
+          updates.type ?? existing.type,
+          updates.content ?? existing.content,
+          this.stringifyJsonField(updates.metadata ?? existing.metadata),
+          now,
+          id
+        ]
+      );
+    });
 
     return await this.findById(id);
   }
 
   async delete(id: string): Promise<boolean> {
     if (!this.db || this.isWebPlatform) return false;
+    const db = this.db;
 
     try {
-      await this.db.runAsync(
-        `DELETE FROM ${this.tableName} WHERE id = ?`,
-        [id]
-      );
+      const existing = await this.findById(id);
+      const meta = existing
+        ? this.changeMeta('delete', existing)
+        : { operation: 'delete' as const, description: 'Deleted annotation' };
+
+      await this.changeLog.track(meta, this.changeScopes(id), async () => {
+        await db.runAsync(
+          `DELETE FROM ${this.tableName} WHERE id = ?`,
+          [id]
+        );
+      });
       return true;
     } catch (error) {
       console.error('Failed to delete annotation:', error);
       return false;
     }
   }
+
+  private changeMeta(
+    operation: ChangeMeta['operation'],
+    annotation: Pick<Annotation, 'entityType' | 'entityId' | 'type'>
+  ): ChangeMeta {
+    const verb = operation === 'create' ? 'Added' : operation === 'delete' ? 'Removed' : 'Edited';
+    return {
+      operation,
+      description: `${verb} ${annotation.type.replace(/_/g, ' ')}`,
+      personId: annotation.entityType === 'person' ? annotation.entityId : undefined,
+    };
+  }
+
+  private changeScopes(id: string): RowScope[] {
+    return [{ table: 'annotations', where: 'id = ?', params: [id] }];
+  }
 }
\ No newline at end of file
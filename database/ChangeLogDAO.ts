@@ -0,0 +1,297 @@
+import { BaseDAO } from './BaseDAO';
+import { ChangeBatch, ChangeEntry, ChangeOperation, ChangeRow, ChangeSource } from '../models/ChangeLog';
+
+interface ChangeLogDB {
+  id: string;
+  batchId: string;
+  operation: string;
+  description: string;
+  personId: string | null;
+  tableName: string;
+  rowKey: string;
+  beforeData: string | null;
+  afterData: string | null;
+  revertsBatchId: string | null;
+  source: string;
+  createdAt: string;
+}
+
+interface ChangeBatchDB {
+  batchId: string;
+  operation: string;
+  description: string;
+  personId: string | null;
+  revertsBatchId: string | null;
+  source: string;
+  createdAt: string;
+  changeCount: number;
+  revertedBy: string | null;
+}
+
+/**
+ * A set of rows to snapshot before and after a mutation
+ */
+export interface RowScope {
+  table: string;
+  where: string;
+  params: (string | number | null)[];
+}
+
+export interface ChangeMeta {
+  operation: ChangeOperation;
+  description: string;
+  personId?: string;
+  revertsBatchId?: string;
+  source?: ChangeSource; // Defaults to 'user'
+}
+
+/**
+ * Handed to a tracked mutation; pass it to tracked calls made inside so they
+ * fold into the same batch instead of starting their own
+ */
+export interface ChangeContext {
+  readonly meta: ChangeMeta;
+}
+
+/**
+ * Accepted by tracked DAO methods
+ */
+export interface ChangeOptions {
+  source?: ChangeSource;
+  context?: ChangeContext; // From an enclosing tracked mutation
+}
+
+// Primary key columns of every table the change log can snapshot and restore
+export const CHANGE_LOG_KEY_COLUMNS: Record<string, string[]> = {
+  persons: ['id'],
+  person_identifiers: ['id'],
+  interactions: ['id'],
+  annotations: ['id'],
+  tasks: ['id'],
+  messages: ['id'],
+  person_scores: ['id'],
+  person_score_snapshots: ['personId', 'day'],
+  thread_participants: ['threadId', 'personId'],
+  meeting_attendees: ['meetingId', 'personId'],
+  snoozes: ['id'],
+};
+
+/**
+ * Append-only log of row snapshots taken around destructive edits.
+ *
+ * Rows are never updated or deleted; undoing a batch appends a new batch that
+ * points back at it through revertsBatchId.
+ */
+export class ChangeLogDAO extends BaseDAO<ChangeLogDB> {
+  constructor() {
+    super('change_log');
+  }
+
+  static rowKey(table: string, row: ChangeRow): string {
+    const keyColumns = CHANGE_LOG_KEY_COLUMNS[table];
+    if (!keyColumns) {
+      throw new Error(`Change log does not track table ${table}`);
+    }
+    return JSON.stringify(keyColumns.map(column => row[column] ?? null));
+  }
+
+  /**
+   * Run a mutation and record how the scoped rows changed as one batch.
+   *
+   * With a parent context (e.g. PersonDAO.update inside a merge) the mutation
+   * just runs; the parent's scopes already cover its rows.
+   */
+  async track<R>(
+    meta: ChangeMeta,
+    scopes: RowScope[],
+    mutation: (context: ChangeContext) => Promise<R>,
+    parent?: ChangeContext
+  ): Promise<R> {
+    if (parent) {
+      return await mutation(parent);
+    }
+
+    const context: ChangeContext = { meta };
+    if (!this.isAvailable()) {
+      return await mutation(context);
+    }
+
+    const before = await this.captureScopes(scopes);
+    const result = await mutation(context);
+
+    try {
+      const after = await this.captureScopes(scopes);
+      await this.record(meta, this.diff(before, after));
+    } catch (error) {
+      console.error('[ChangeLog] Failed to record change:', meta.description, error);
+    }
+
+    return result;
+  }
+
+  /**
+   * Append one batch; returns its ID, or null when nothing changed
+   */
+  async record(meta: ChangeMeta, changes: Omit<ChangeEntry, 'id' | 'batchId' | 'createdAt'>[]): Promise<string | null> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform || changes.length === 0) return null;
+
+    const batchId = this.generateId();
+    const now = this.getNow();
+
+    for (const change of changes) {
+      await db.runAsync(
+        `INSERT INTO change_log (id, batchId, operation, description, personId, tableName, rowKey, beforeData, afterData, revertsBatchId, source, createdAt)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          this.generateId(),
+          batchId,
+          meta.operation,
+          meta.description,
+          meta.personId || null,
+          change.table,
+          change.rowKey,
+          change.before ? JSON.stringify(change.before) : null,
+          change.after ? JSON.stringify(change.after) : null,
+          meta.revertsBatchId || null,
+          meta.source ?? 'user',
+          now
+        ]
+      );
+    }
+
+    return batchId;
+  }
+
+  async getEntries(batchId: string): Promise<ChangeEntry[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const rows = await db.getAllAsync<ChangeLogDB>(
+      `SELECT * FROM change_log WHERE batchId = ? ORDER BY rowid`,
+      [batchId]
+    );
+    return (rows || []).map(row => this.dbToEntry(row));
+  }
+
+  async getBatch(batchId: string): Promise<ChangeBatch | null> {
+    const batches = await this.queryBatches(`WHERE c.batchId = ?`, [batchId], 1);
+    return batches[0] ?? null;
+  }
+
+  async getBatchesForPerson(personId: string, limit: number = 50): Promise<ChangeBatch[]> {
+    return this.queryBatches(`WHERE c.personId = ?`, [personId], limit);
+  }
+
+  /**
+   * Most recent user batches that can still be undone, newest first
+   */
+  async getUndoableBatches(limit: number): Promise<ChangeBatch[]> {
+    return this.queryBatches(
+      `WHERE c.operation != 'undo' AND c.source = 'user' AND NOT EXISTS (SELECT 1 FROM change_log u WHERE u.revertsBatchId = c.batchId)`,
+      [],
+      limit
+    );
+  }
+
+  /**
+   * Whether any user batch after `batchId` touched the given row and is still in effect.
+   * System batches can't be undone, and restore leaves the columns they changed alone.
+   */
+  async hasLaterChange(batchId: string, table: string, rowKey: string): Promise<boolean> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return false;
+    const result = await db.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) as count FROM change_log c
+       WHERE c.tableName = ? AND c.rowKey = ?
+         AND c.rowid > (SELECT MAX(rowid) FROM change_log WHERE batchId = ?)
+         AND c.operation != 'undo' AND c.source = 'user'
+         AND NOT EXISTS (SELECT 1 FROM change_log u WHERE u.revertsBatchId = c.batchId)`,
+      [table, rowKey, batchId]
+    );
+    return (result?.count || 0) > 0;
+  }
+
+  async captureScopes(scopes: RowScope[]): Promise<Map<string, { table: string; row: ChangeRow }>> {
+    const db = this.ensureDatabase();
+    const captured = new Map<string, { table: string; row: ChangeRow }>();
+    if (!db || this.isWebPlatform) return captured;
+
+    for (const scope of scopes) {
+      const rows = await db.getAllAsync<ChangeRow>(
+        `SELECT * FROM ${scope.table} WHERE ${scope.where}`,
+        scope.params
+      );
+      for (const row of rows || []) {
+        captured.set(`${scope.table}:${ChangeLogDAO.rowKey(scope.table, row)}`, { table: scope.table, row });
+      }
+    }
+
+    return captured;
+  }
+
+  private diff(
+    before: Map<string, { table: string; row: ChangeRow }>,
+    after: Map<string, { table: string; row: ChangeRow }>
+  ): Omit<ChangeEntry, 'id' | 'batchId' | 'createdAt'>[] {
+    const changes: Omit<ChangeEntry, 'id' | 'batchId' | 'createdAt'>[] = [];
+    const keys = new Set([...before.keys(), ...after.keys()]);
+
+    for (const key of keys) {
+      const previous = before.get(key);
+      const next = after.get(key);
+      if (previous && next && JSON.stringify(previous.row) === JSON.stringify(next.row)) {
+        continue;
+      }
+
+      const table = (previous ?? next)!.table;
+      changes.push({
+        table,
+        rowKey: ChangeLogDAO.rowKey(table, (previous ?? next)!.row),
+        before: previous?.row ?? null,
+        after: next?.row ?? null,
+      });
+    }
+
+    return changes;
+  }
+
+  private async queryBatches(where: string, params: (string | number)[], limit: number): Promise<ChangeBatch[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const rows = await db.getAllAsync<ChangeBatchDB>(
+      `SELECT c.batchId, c.operation, c.description, c.personId, c.revertsBatchId, c.source, MIN(c.createdAt) as createdAt,
+              COUNT(*) as changeCount,
+              (SELECT u.batchId FROM change_log u WHERE u.revertsBatchId = c.batchId LIMIT 1) as revertedBy
+       FROM change_log c
+       ${where}
+       GROUP BY c.batchId
+       ORDER BY MAX(c.rowid) DESC
+       LIMIT ?`,
+      [...params, limit]
+    );
+
+    return (rows || []).map(row => ({
+      batchId: row.batchId,
+      operation: row.operation as ChangeOperation,
+      description: row.description,
+      personId: row.personId || undefined,
+      revertsBatchId: row.revertsBatchId || undefined,
+      revertedBy: row.revertedBy || undefined,
+      source: row.source as ChangeSource,
+      changeCount: row.changeCount,
+      createdAt: new Date(row.createdAt),
+    }));
+  }
+
+  private dbToEntry(row: ChangeLogDB): ChangeEntry {
+    return {
+      id: row.id,
+      batchId: row.batchId,
+      table: row.tableName,
+      rowKey: row.rowKey,
+      before: this.parseJsonField<ChangeRow>(row.beforeData),
+      after: this.parseJsonField<ChangeRow>(row.afterData),
+      createdAt: new Date(row.createdAt),
+    };
+  }
+}
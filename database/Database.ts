@@ -2,13 +2,211 @@ import { Platform } from 'react-native';
 import * as SQLite from 'expo-sqlite';
 import * as Crypto from 'expo-crypto';
 import * as SecureStore from 'expo-secure-store';
+import { normalizeIdentifier } from '../models/PersonIdentifier';
+
+const PERSON_IDENTIFIERS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS person_identifiers (
+    id TEXT PRIMARY KEY,
+    personId TEXT NOT NULL,
+    type TEXT NOT NULL,
+    value TEXT NOT NULL,
+    label TEXT,
+    isPrimary INTEGER DEFAULT 0,
+    createdAt TEXT NOT NULL,
+    updatedAt TEXT NOT NULL,
+    UNIQUE (personId, type, value),
+    FOREIGN KEY (personId) REFERENCES persons(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_person_identifiers_value ON person_identifiers(type, value);
+  CREATE INDEX IF NOT EXISTS idx_person_identifiers_person ON person_identifiers(personId);
+`;
+
+// Copies persons.email into person_identifiers as primary entries; phones are
+// backfilled in JS so they share normalizeIdentifier's rule
+const BACKFILL_PERSON_EMAIL_IDENTIFIERS = `
+  INSERT OR IGNORE INTO person_identifiers (id, personId, type, value, label, isPrimary, createdAt, updatedAt)
+  SELECT 'pid_email_' || id, id, 'email', LOWER(TRIM(email)), NULL, 1, createdAt, updatedAt
+  FROM persons WHERE email IS NOT NULL AND TRIM(email) != '';
+`;
+
+// Append-only; before/after hold JSON snapshots of the affected row
+const CHANGE_LOG_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS change_log (
+    id TEXT PRIMARY KEY,
+    batchId TEXT NOT NULL,
+    operation TEXT NOT NULL,
+    description TEXT NOT NULL,
+    personId TEXT,
+    tableName TEXT NOT NULL,
+    rowKey TEXT NOT NULL,
+    beforeData TEXT,
+    afterData TEXT,
+    revertsBatchId TEXT,
+    source TEXT NOT NULL DEFAULT 'user',
+    createdAt TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_change_log_batch ON change_log(batchId);
+  CREATE INDEX IF NOT EXISTS idx_change_log_person ON change_log(personId);
+  CREATE INDEX IF NOT EXISTS idx_change_log_row ON change_log(tableName, rowKey);
+  CREATE INDEX IF NOT EXISTS idx_change_log_reverts ON change_log(revertsBatchId);
+`;
+
+// One row per recurring calendar event; meetings point at it through seriesId
+const MEETING_SERIES_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS meeting_series (
+    id TEXT PRIMARY KEY,
+    calendarEventId TEXT NOT NULL UNIQUE,
+    calendarId TEXT,
+    title TEXT NOT NULL,
+    recurrenceRule TEXT,
+    frequency TEXT NOT NULL DEFAULT 'unknown',
+    interval INTEGER NOT NULL DEFAULT 1,
+    createdAt TEXT NOT NULL,
+    updatedAt TEXT NOT NULL
+  );
+`;
+
+// Normalized names of places merged away, so later imports resolve to the place they were merged into
+const PLACE_ALIASES_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS place_aliases (
+    normalizedName TEXT PRIMARY KEY,
+    placeId TEXT NOT NULL,
+    createdAt TEXT NOT NULL,
+    FOREIGN KEY (placeId) REFERENCES places(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_place_aliases_place ON place_aliases(placeId);
+`;
+
+// One row per person per day, so score trends survive person_scores being overwritten
+const PERSON_SCORE_SNAPSHOTS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS person_score_snapshots (
+    personId TEXT NOT NULL,
+    day TEXT NOT NULL,
+    relationshipScore INTEGER NOT NULL,
+    interactionFrequency REAL,
+    connectivity REAL,
+    reciprocity REAL,
+    metrics TEXT,
+    createdAt TEXT NOT NULL,
+    PRIMARY KEY (personId, day),
+    FOREIGN KEY (personId) REFERENCES persons(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_person_score_snapshots_day ON person_score_snapshots(day);
+`;
+
+// People whose score inputs changed since ScoreJob last recomputed them. Triggers
+// rather than DAO calls, so merges, imports and change-log undos are caught too.
+// markedAt uses the same ISO format as toISOString() so the two compare as strings.
+const SCORE_DIRTY_PERSONS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS score_dirty_persons (
+    personId TEXT PRIMARY KEY,
+    markedAt TEXT NOT NULL
+  );
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_interaction_insert AFTER INSERT ON interactions
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt) VALUES (NEW.personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_interaction_update AFTER UPDATE ON interactions
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt) VALUES (OLD.personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt) VALUES (NEW.personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_interaction_delete AFTER DELETE ON interactions
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt) VALUES (OLD.personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_message_insert AFTER INSERT ON messages
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt)
+    SELECT personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now') FROM thread_participants WHERE threadId = NEW.threadId;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_message_update AFTER UPDATE ON messages
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt)
+    SELECT personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now') FROM thread_participants WHERE threadId IN (OLD.threadId, NEW.threadId);
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_message_delete AFTER DELETE ON messages
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt)
+    SELECT personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now') FROM thread_participants WHERE threadId = OLD.threadId;
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_participant_insert AFTER INSERT ON thread_participants
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt) VALUES (NEW.personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_participant_delete AFTER DELETE ON thread_participants
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt) VALUES (OLD.personId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_annotation_insert AFTER INSERT ON annotations
+  WHEN NEW.entityType = 'person'
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt) VALUES (NEW.entityId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_annotation_update AFTER UPDATE ON annotations
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt)
+    SELECT OLD.entityId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE OLD.entityType = 'person';
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt)
+    SELECT NEW.entityId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now') WHERE NEW.entityType = 'person';
+  END;
+
+  CREATE TRIGGER IF NOT EXISTS trg_score_dirty_annotation_delete AFTER DELETE ON annotations
+  WHEN OLD.entityType = 'person'
+  BEGIN
+    INSERT OR REPLACE INTO score_dirty_persons (personId, markedAt) VALUES (OLD.entityId, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'));
+  END;
+`;
+
+// One snooze per person; expired rows are ignored until pruned
+const SNOOZES_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS snoozes (
+    id TEXT PRIMARY KEY,
+    personId TEXT NOT NULL UNIQUE,
+    until TEXT NOT NULL,
+    createdAt TEXT NOT NULL,
+    FOREIGN KEY (personId) REFERENCES persons(id)
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_snoozes_until ON snoozes(until);
+`;
+
+// Email interactions whose address matched nobody yet; relinked once a person has that address
+const PENDING_EMAIL_INTERACTIONS_SCHEMA = `
+  CREATE TABLE IF NOT EXISTS pending_email_interactions (
+    id TEXT PRIMARY KEY,
+    address TEXT NOT NULL,
+    type TEXT NOT NULL,
+    date TEXT NOT NULL,
+    notes TEXT,
+    threadId TEXT,
+    sourceAccountId TEXT,
+    createdAt TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS idx_pending_email_interactions_address ON pending_email_interactions(address);
+`;
 
 export class Database {
   private static instance: Database;
   private db: SQLite.SQLiteDatabase | null = null;
   private isWebPlatform = Platform.OS === 'web';
   private encryptionKey: string | null = null;
-  private readonly CURRENT_VERSION = 3;
+  private readonly CURRENT_VERSION = 23;
 
   private constructor() {}
 
@@ -193,6 +391,483 @@ export class Database {
       }
     }
 
+    if (currentVersion < 4) {
+      console.log('Running migration 3 -> 4: Adding sourceAccountId to interactions');
+      try {
+        const tableExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='interactions'"
+        );
+
+        if (tableExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(interactions)"
+          );
+          const hasSourceAccountId = tableInfo.some((col: any) => col.name === 'sourceAccountId');
+
+          if (!hasSourceAccountId) {
+            await this.db.execAsync(`
+              ALTER TABLE interactions ADD COLUMN sourceAccountId TEXT;
+            `);
+            console.log('Successfully added sourceAccountId column');
+          }
+        }
+      } catch (error) {
+        console.error('Migration 3 -> 4 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 5) {
+      console.log('Running migration 4 -> 5: Adding isFromMe to messages');
+      try {
+        const tableExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='messages'"
+        );
+
+        if (tableExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(messages)"
+          );
+          const hasIsFromMe = tableInfo.some((col: any) => col.name === 'isFromMe');
+
+          if (!hasIsFromMe) {
+            await this.db.execAsync(`
+              ALTER TABLE messages ADD COLUMN isFromMe INTEGER DEFAULT 0;
+            `);
+            console.log('Successfully added isFromMe column');
+          }
+        }
+      } catch (error) {
+        console.error('Migration 4 -> 5 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 6) {
+      console.log('Running migration 5 -> 6: Adding person_identifiers table');
+      try {
+        await this.db.execAsync(PERSON_IDENTIFIERS_SCHEMA);
+
+        const tableExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='persons'"
+        );
+
+        if (tableExists) {
+          // Existing single email/phone columns become each person's primary identifiers
+          await this.backfillPersonIdentifiers();
+          console.log('Successfully backfilled person identifiers');
+        }
+      } catch (error) {
+        console.error('Migration 5 -> 6 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 7) {
+      console.log('Running migration 6 -> 7: Adding change_log table');
+      try {
+        await this.db.execAsync(CHANGE_LOG_SCHEMA);
+      } catch (error) {
+        console.error('Migration 6 -> 7 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 8) {
+      console.log('Running migration 7 -> 8: Adding calendar event identity to meetings');
+      try {
+        const meetingsExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='meetings'"
+        );
+
+        if (meetingsExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(meetings)"
+          );
+          const columns = new Set(tableInfo.map((col: any) => col.name));
+
+          if (!columns.has('calendarEventId')) {
+            await this.db.execAsync(`ALTER TABLE meetings ADD COLUMN calendarEventId TEXT;`);
+          }
+          if (!columns.has('calendarId')) {
+            await this.db.execAsync(`ALTER TABLE meetings ADD COLUMN calendarId TEXT;`);
+          }
+          if (!columns.has('instanceStartDate')) {
+            await this.db.execAsync(`ALTER TABLE meetings ADD COLUMN instanceStartDate TEXT;`);
+          }
+          if (!columns.has('status')) {
+            await this.db.execAsync(`ALTER TABLE meetings ADD COLUMN status TEXT DEFAULT 'confirmed';`);
+          }
+        }
+
+        const interactionsExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='interactions'"
+        );
+
+        if (interactionsExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(interactions)"
+          );
+          const hasMeetingId = tableInfo.some((col: any) => col.name === 'meetingId');
+
+          if (!hasMeetingId) {
+            await this.db.execAsync(`ALTER TABLE interactions ADD COLUMN meetingId TEXT;`);
+
+            // Calendar interactions were keyed meeting_<meetingId>_<personId> before the column existed
+            await this.db.execAsync(`
+              UPDATE interactions SET meetingId = (
+                SELECT ma.meetingId FROM meeting_attendees ma
+                WHERE interactions.id = 'meeting_' || ma.meetingId || '_' || ma.personId
+              )
+              WHERE meetingId IS NULL AND type = 'meeting' AND id LIKE 'meeting_%';
+            `);
+          }
+        }
+
+        console.log('Successfully added calendar event columns');
+      } catch (error) {
+        console.error('Migration 7 -> 8 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 9) {
+      console.log('Running migration 8 -> 9: Adding meeting_series table');
+      try {
+        await this.db.execAsync(MEETING_SERIES_SCHEMA);
+
+        const meetingsExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='meetings'"
+        );
+
+        if (meetingsExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(meetings)"
+          );
+          const hasSeriesId = tableInfo.some((col: any) => col.name === 'seriesId');
+
+          if (!hasSeriesId) {
+            await this.db.execAsync(`ALTER TABLE meetings ADD COLUMN seriesId TEXT;`);
+          }
+
+          // Occurrences already carry an instance date; the rule itself is filled in on the next calendar sync
+          await this.db.execAsync(`
+            INSERT OR IGNORE INTO meeting_series (id, calendarEventId, calendarId, title, recurrenceRule, frequency, interval, createdAt, updatedAt)
+            SELECT 'series_' || calendarEventId, calendarEventId, MAX(calendarId), MAX(title), NULL, 'unknown', 1, MIN(createdAt), MAX(updatedAt)
+            FROM meetings
+            WHERE calendarEventId IS NOT NULL AND instanceStartDate IS NOT NULL
+            GROUP BY calendarEventId;
+
+            UPDATE meetings SET seriesId = 'series_' || calendarEventId
+            WHERE seriesId IS NULL AND calendarEventId IS NOT NULL AND instanceStartDate IS NOT NULL;
+          `);
+        }
+      } catch (error) {
+        console.error('Migration 8 -> 9 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 10) {
+      console.log('Running migration 9 -> 10: Adding meeting type and join URL');
+      try {
+        const meetingsExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='meetings'"
+        );
+
+        if (meetingsExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(meetings)"
+          );
+          const columns = new Set(tableInfo.map((col: any) => col.name));
+
+          if (!columns.has('type')) {
+            await this.db.execAsync(`ALTER TABLE meetings ADD COLUMN type TEXT DEFAULT 'in-person';`);
+          }
+          if (!columns.has('joinUrl')) {
+            await this.db.execAsync(`ALTER TABLE meetings ADD COLUMN joinUrl TEXT;`);
+          }
+        }
+      } catch (error) {
+        console.error('Migration 9 -> 10 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 11) {
+      console.log('Running migration 10 -> 11: Adding geocoding state to places');
+      try {
+        const placesExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='places'"
+        );
+
+        if (placesExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(places)"
+          );
+          const columns = new Set(tableInfo.map((col: any) => col.name));
+
+          if (!columns.has('geocodeStatus')) {
+            await this.db.execAsync(`ALTER TABLE places ADD COLUMN geocodeStatus TEXT;`);
+          }
+          if (!columns.has('geocodeAttempts')) {
+            await this.db.execAsync(`ALTER TABLE places ADD COLUMN geocodeAttempts INTEGER DEFAULT 0;`);
+          }
+          if (!columns.has('geocodeNextAttemptAt')) {
+            await this.db.execAsync(`ALTER TABLE places ADD COLUMN geocodeNextAttemptAt TEXT;`);
+          }
+        }
+      } catch (error) {
+        console.error('Migration 10 -> 11 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 12) {
+      console.log('Running migration 11 -> 12: Adding place_aliases table');
+      try {
+        await this.db.execAsync(PLACE_ALIASES_SCHEMA);
+        await this.db.execAsync(`
+          CREATE INDEX IF NOT EXISTS idx_interactions_place ON interactions(placeId);
+          CREATE INDEX IF NOT EXISTS idx_meeting_places_place ON meeting_places(placeId);
+        `);
+      } catch (error) {
+        console.error('Migration 11 -> 12 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 13) {
+      console.log('Running migration 12 -> 13: Adding notes to places');
+      try {
+        const placesExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='places'"
+        );
+
+        if (placesExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(places)"
+          );
+          const hasNotes = tableInfo.some((col: any) => col.name === 'notes');
+
+          if (!hasNotes) {
+            await this.db.execAsync(`ALTER TABLE places ADD COLUMN notes TEXT;`);
+          }
+        }
+      } catch (error) {
+        console.error('Migration 12 -> 13 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 14) {
+      console.log('Running migration 13 -> 14: Adding message signals to person_scores');
+      try {
+        const tableInfo = await this.db.getAllAsync(
+          "PRAGMA table_info(person_scores)"
+        );
+        const columns = new Set(tableInfo.map((col: any) => col.name));
+
+        if (!columns.has('inboundMessages')) {
+          await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN inboundMessages INTEGER DEFAULT 0;`);
+        }
+        if (!columns.has('outboundMessages')) {
+          await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN outboundMessages INTEGER DEFAULT 0;`);
+        }
+        if (!columns.has('reciprocity')) {
+          await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN reciprocity REAL;`);
+        }
+        if (!columns.has('initiationRate')) {
+          await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN initiationRate REAL;`);
+        }
+        if (!columns.has('myReplyTime')) {
+          await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN myReplyTime REAL;`);
+        }
+        if (!columns.has('theirReplyTime')) {
+          await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN theirReplyTime REAL;`);
+        }
+      } catch (error) {
+        console.error('Migration 13 -> 14 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 15) {
+      console.log('Running migration 14 -> 15: Adding score breakdown to person_scores');
+      try {
+        const tableInfo = await this.db.getAllAsync(
+          "PRAGMA table_info(person_scores)"
+        );
+        const hasBreakdown = tableInfo.some((col: any) => col.name === 'breakdown');
+
+        if (!hasBreakdown) {
+          await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN breakdown TEXT;`);
+        }
+      } catch (error) {
+        console.error('Migration 14 -> 15 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 16) {
+      console.log('Running migration 15 -> 16: Adding scoring profile version to person_scores');
+      try {
+        const tableInfo = await this.db.getAllAsync(
+          "PRAGMA table_info(person_scores)"
+        );
+        const hasProfileVersion = tableInfo.some((col: any) => col.name === 'profileVersion');
+
+        if (!hasProfileVersion) {
+          await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN profileVersion INTEGER;`);
+        }
+      } catch (error) {
+        console.error('Migration 15 -> 16 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 17) {
+      console.log('Running migration 16 -> 17: Adding person_score_snapshots table');
+      try {
+        await this.db.execAsync(PERSON_SCORE_SNAPSHOTS_SCHEMA);
+      } catch (error) {
+        console.error('Migration 16 -> 17 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 18) {
+      console.log('Running migration 17 -> 18: Adding incremental scoring state');
+      try {
+        const scoresExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='person_scores'"
+        );
+
+        // Fresh installs get all of this from createTables
+        if (scoresExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(person_scores)"
+          );
+          const columns = new Set(tableInfo.map((col: any) => col.name));
+
+          if (!columns.has('connectivity')) {
+            await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN connectivity REAL;`);
+          }
+          if (!columns.has('scoreBase')) {
+            await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN scoreBase REAL;`);
+          }
+          if (!columns.has('scoreMultiplier')) {
+            await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN scoreMultiplier REAL;`);
+          }
+          if (!columns.has('profileTier')) {
+            await this.db.execAsync(`ALTER TABLE person_scores ADD COLUMN profileTier TEXT;`);
+          }
+
+          await this.db.execAsync(SCORE_DIRTY_PERSONS_SCHEMA);
+        }
+      } catch (error) {
+        console.error('Migration 17 -> 18 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 19) {
+      console.log('Running migration 18 -> 19: Adding cadence to persons');
+      try {
+        const personsExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='persons'"
+        );
+
+        if (personsExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(persons)"
+          );
+          const hasCadence = tableInfo.some((col: any) => col.name === 'cadence');
+
+          if (!hasCadence) {
+            await this.db.execAsync(`ALTER TABLE persons ADD COLUMN cadence INTEGER;`);
+          }
+        }
+      } catch (error) {
+        console.error('Migration 18 -> 19 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 20) {
+      console.log('Running migration 19 -> 20: Adding snoozes table');
+      try {
+        await this.db.execAsync(SNOOZES_SCHEMA);
+      } catch (error) {
+        console.error('Migration 19 -> 20 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 21) {
+      console.log('Running migration 20 -> 21: Renormalizing phone identifiers');
+      try {
+        const identifiersExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='person_identifiers'"
+        );
+
+        // The version 6 backfill only stripped spaces, dashes, dots and parentheses; lookups keep digits and + alone
+        if (identifiersExists) {
+          const phones = await this.db.getAllAsync<{ id: string; value: string }>(
+            "SELECT id, value FROM person_identifiers WHERE type = 'phone'"
+          );
+          for (const phone of phones) {
+            const value = normalizeIdentifier('phone', phone.value);
+            if (value === phone.value) continue;
+
+            const updated = value
+              ? await this.db.runAsync(`UPDATE OR IGNORE person_identifiers SET value = ? WHERE id = ?`, [value, phone.id])
+              : null;
+            // Empty, or the person already has the normalized number
+            if (!updated || updated.changes === 0) {
+              await this.db.runAsync(`DELETE FROM person_identifiers WHERE id = ?`, [phone.id]);
+            }
+          }
+        }
+      } catch (error) {
+        console.error('Migration 20 -> 21 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 22) {
+      console.log('Running migration 21 -> 22: Adding source to change_log');
+      try {
+        const changeLogExists = await this.db.getFirstAsync(
+          "SELECT name FROM sqlite_master WHERE type='table' AND name='change_log'"
+        );
+
+        if (changeLogExists) {
+          const tableInfo = await this.db.getAllAsync(
+            "PRAGMA table_info(change_log)"
+          );
+          const hasSource = tableInfo.some((col: any) => col.name === 'source');
+
+          if (!hasSource) {
+            await this.db.execAsync(`ALTER TABLE change_log ADD COLUMN source TEXT NOT NULL DEFAULT 'user';`);
+          }
+        }
+      } catch (error) {
+        console.error('Migration 21 -> 22 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
+    if (currentVersion < 23) {
+      console.log('Running migration 22 -> 23: Adding pending_email_interactions table');
+      try {
+        await this.db.execAsync(PENDING_EMAIL_INTERACTIONS_SCHEMA);
+      } catch (error) {
+        console.error('Migration 22 -> 23 failed:', error);
+        // Don't throw - let the app continue with potential issues
+      }
+    }
+
     // Update version
     if (currentVersion < this.CURRENT_VERSION) {
       await this.db.execAsync(`PRAGMA user_version = ${this.CURRENT_VERSION}`);
@@ -218,6 +893,7 @@ export class Database {
         notes TEXT,
         companyId TEXT,
         lastInteraction TEXT,
+        cadence INTEGER,
         createdAt TEXT NOT NULL,
         updatedAt TEXT NOT NULL
       );
@@ -237,6 +913,13 @@ export class Database {
         date TEXT NOT NULL,
         location TEXT,
         notes TEXT,
+        calendarEventId TEXT,
+        calendarId TEXT,
+        instanceStartDate TEXT,
+        status TEXT DEFAULT 'confirmed',
+        seriesId TEXT,
+        type TEXT DEFAULT 'in-person',
+        joinUrl TEXT,
         createdAt TEXT NOT NULL,
         updatedAt TEXT NOT NULL
       );
@@ -271,6 +954,7 @@ export class Database {
         senderId TEXT NOT NULL,
         content TEXT NOT NULL,
         sentAt TEXT NOT NULL,
+        isFromMe INTEGER DEFAULT 0,
         createdAt TEXT NOT NULL,
         updatedAt TEXT NOT NULL,
         FOREIGN KEY (threadId) REFERENCES threads(id),
@@ -299,6 +983,10 @@ export class Database {
         latitude REAL,
         longitude REAL,
         category TEXT,
+        notes TEXT,
+        geocodeStatus TEXT,
+        geocodeAttempts INTEGER DEFAULT 0,
+        geocodeNextAttemptAt TEXT,
         createdAt TEXT NOT NULL,
         updatedAt TEXT NOT NULL
       );
@@ -310,6 +998,8 @@ export class Database {
         date TEXT NOT NULL,
         notes TEXT,
         placeId TEXT,
+        sourceAccountId TEXT,
+        meetingId TEXT,
         createdAt TEXT NOT NULL,
         updatedAt TEXT NOT NULL,
         FOREIGN KEY (personId) REFERENCES persons(id),
@@ -324,6 +1014,18 @@ export class Database {
         lastInteractionDaysAgo INTEGER NOT NULL,
         totalInteractions INTEGER NOT NULL,
         averageResponseTime REAL,
+        inboundMessages INTEGER DEFAULT 0,
+        outboundMessages INTEGER DEFAULT 0,
+        reciprocity REAL,
+        initiationRate REAL,
+        myReplyTime REAL,
+        theirReplyTime REAL,
+        breakdown TEXT,
+        profileVersion INTEGER,
+        connectivity REAL,
+        scoreBase REAL,
+        scoreMultiplier REAL,
+        profileTier TEXT,
         calculatedAt TEXT NOT NULL,
         FOREIGN KEY (personId) REFERENCES persons(id)
       );
@@ -347,9 +1049,33 @@ export class Database {
         FOREIGN KEY (placeId) REFERENCES places(id)
       );
 
+      ${PERSON_IDENTIFIERS_SCHEMA}
+
+      ${CHANGE_LOG_SCHEMA}
+
+      ${MEETING_SERIES_SCHEMA}
+
+      ${PLACE_ALIASES_SCHEMA}
+
+      ${PERSON_SCORE_SNAPSHOTS_SCHEMA}
+
+      ${SCORE_DIRTY_PERSONS_SCHEMA}
+
+      ${SNOOZES_SCHEMA}
+
+      ${PENDING_EMAIL_INTERACTIONS_SCHEMA}
+
       CREATE INDEX IF NOT EXISTS idx_persons_company ON persons(companyId);
       CREATE INDEX IF NOT EXISTS idx_interactions_person ON interactions(personId);
       CREATE INDEX IF NOT EXISTS idx_interactions_date ON interactions(date);
+      CREATE INDEX IF NOT EXISTS idx_interactions_source_account ON interactions(sourceAccountId);
+      CREATE INDEX IF NOT EXISTS idx_interactions_meeting ON interactions(meetingId);
+      CREATE INDEX IF NOT EXISTS idx_interactions_place ON interactions(placeId);
+      CREATE INDEX IF NOT EXISTS idx_meeting_places_place ON meeting_places(placeId);
+      CREATE INDEX IF NOT EXISTS idx_meetings_calendar_event ON meetings(calendarEventId, instanceStartDate);
+      CREATE INDEX IF NOT EXISTS idx_meetings_date ON meetings(date);
+      CREATE INDEX IF NOT EXISTS idx_meetings_series ON meetings(seriesId);
+      CREATE INDEX IF NOT EXISTS idx_messages_thread ON messages(threadId);
       CREATE INDEX IF NOT EXISTS idx_tasks_person ON tasks(personId);
       CREATE INDEX IF NOT EXISTS idx_tasks_due ON tasks(dueDate);
       CREATE INDEX IF NOT EXISTS idx_person_scores_person ON person_scores(personId);
@@ -415,6 +1141,30 @@ export class Database {
       ('m1', 'p2'),
       ('m2', 'p3');
     `);
+
+    await this.backfillPersonIdentifiers();
+  }
+
+  /**
+   * Copy persons.email / persons.phone into person_identifiers as primary entries
+   */
+  private async backfillPersonIdentifiers(): Promise<void> {
+    if (!this.db) return;
+
+    await this.db.execAsync(BACKFILL_PERSON_EMAIL_IDENTIFIERS);
+
+    const people = await this.db.getAllAsync<{ id: string; phone: string; createdAt: string; updatedAt: string }>(
+      `SELECT id, phone, createdAt, updatedAt FROM persons WHERE phone IS NOT NULL AND TRIM(phone) != ''`
+    );
+    for (const person of people) {
+      const value = normalizeIdentifier('phone', person.phone);
+      if (!value) continue;
+      await this.db.runAsync(
+        `INSERT OR IGNORE INTO person_identifiers (id, personId, type, value, label, isPrimary, createdAt, updatedAt)
+         VALUES (?, ?, 'phone', ?, NULL, 1, ?, ?)`,
+        [`pid_phone_${person.id}`, person.id, value, person.createdAt, person.updatedAt]
+      );
+    }
   }
 
   async close(): Promise<void> {
@@ -1,5 +1,7 @@
 import { BaseDAO } from './BaseDAO';
 import { Interaction } from '../models/Interaction';
+import { CHANNEL_INTERACTION_TYPES } from '../models/Annotation';
+import { ChangeLogDAO, ChangeOptions } from './ChangeLogDAO';
 
 interface InteractionDB {
   id: string;
@@ -8,11 +10,15 @@ interface InteractionDB {
   date: string;
   notes: string | null;
   placeId: string | null;
+  sourceAccountId: string | null;
+  meetingId: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
 export class InteractionDAO extends BaseDAO<InteractionDB> {
+  private changeLog = new ChangeLogDAO();
+
   constructor() {
     super('interactions');
   }
@@ -25,12 +31,14 @@ export class InteractionDAO extends BaseDAO<InteractionDB> {
       date: new Date(db.date),
       notes: db.notes || undefined,
       placeId: db.placeId || undefined,
+      sourceAccountId: db.sourceAccountId || undefined,
+      meetingId: db.meetingId || undefined,
       createdAt: new Date(db.createdAt),
       updatedAt: new Date(db.updatedAt),
     };
   }
 
-  async create(interaction: Omit<Interaction, 'id' | 'createdAt' | 'updatedAt'>): Promise<Interaction> {
+  async create(interaction: Omit<Interaction, 'id' | 'createdAt' | 'updatedAt'>, options: ChangeOptions = {}): Promise<Interaction> {
     const db = this.ensureDatabase();
     if (!db || this.isWebPlatform) {
       throw new Error('Database not available');
@@ -38,24 +46,63 @@ export class InteractionDAO extends BaseDAO<InteractionDB> {
     const id = this.generateId();
     const now = this.getNow();
     
-    await db.runAsync(
-      `INSERT INTO interactions (id, personId, type, date, notes, placeId, createdAt, updatedAt) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+    await this.changeLog.track(
+      { operation: 'create', description: `Logged ${interaction.type}`, personId: interaction.personId, source: options.source },
+      [{ table: 'interactions', where: 'id = ?', params: [id] }],
+      async () => {
+        await db.runAsync(
+          `INSERT INTO interactions (id, personId, type, date, notes, placeId, sourceAccountId, meetingId, createdAt, updatedAt) 
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+          [
+            id,
+            interaction.personId,
+            interaction.type,
+            interaction.date.toISOString(),
+            interaction.notes || null,
+            interaction.placeId || null,
+            interaction.sourceAccountId || null,
+            interaction.meetingId || null,
+            now,
+            now
+          ]
+        );
+      },
+      options.context
+    );
+
+    const created = await this.getInteractionById(id);
+    if (!created) throw new Error('Failed to create interaction');
+    return created;
+  }
+
+  /**
+   * Insert an interaction under a caller-supplied stable ID; returns false if it already exists
+   */
+  async upsert(interaction: Omit<Interaction, 'createdAt' | 'updatedAt'>): Promise<boolean> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) {
+      throw new Error('Database not available');
+    }
+    const now = this.getNow();
+
+    const result = await db.runAsync(
+      `INSERT OR IGNORE INTO interactions (id, personId, type, date, notes, placeId, sourceAccountId, meetingId, createdAt, updatedAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
-        id,
+        interaction.id,
         interaction.personId,
         interaction.type,
         interaction.date.toISOString(),
         interaction.notes || null,
         interaction.placeId || null,
+        interaction.sourceAccountId || null,
+        interaction.meetingId || null,
         now,
         now
       ]
     );
 
-    const created = await this.getInteractionById(id);
-    if (!created) throw new Error('Failed to create interaction');
-    return created;
+    return result.changes > 0;
   }
 
   async getInteractionById(id: string): Promise<Interaction | null> {
@@ -68,6 +115,17 @@ export class InteractionDAO extends BaseDAO<InteractionDB> {
     return result ? this.dbToInteraction(result) : null;
   }
 
+  async deleteById(id: string): Promise<boolean> {
+    const existing = await this.getInteractionById(id);
+    if (!existing) return false;
+
+    return this.changeLog.track(
+      { operation: 'delete', description: `Deleted ${existing.type}`, personId: existing.personId },
+      [{ table: 'interactions', where: 'id = ?', params: [id] }],
+      () => super.deleteById(id)
+    );
+  }
+
   async getByPerson(personId: string, limit?: number): Promise<Interaction[]> {
     const db = this.ensureDatabase();
     if (!db || this.isWebPlatform) return [];
@@ -81,6 +139,55 @@ export class InteractionDAO extends BaseDAO<InteractionDB> {
     return (results || []).map(r => this.dbToInteraction(r));
   }
 
+  async getByMeeting(meetingId: string): Promise<Interaction[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const results = await db.getAllAsync<InteractionDB>(
+      `SELECT * FROM interactions WHERE meetingId = ? ORDER BY date DESC`,
+      [meetingId]
+    );
+    return (results || []).map(r => this.dbToInteraction(r));
+  }
+
+  /**
+   * Move interactions derived from a meeting to its new start time
+   */
+  async updateDateForMeeting(meetingId: string, date: Date): Promise<number> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return 0;
+    const result = await db.runAsync(
+      `UPDATE interactions SET date = ?, updatedAt = ? WHERE meetingId = ?`,
+      [date.toISOString(), this.getNow(), meetingId]
+    );
+    return result.changes;
+  }
+
+  /**
+   * Remove interactions derived from a meeting, e.g. after its calendar event was deleted
+   */
+  async deleteByMeeting(meetingId: string): Promise<number> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return 0;
+    const result = await db.runAsync(
+      `DELETE FROM interactions WHERE meetingId = ?`,
+      [meetingId]
+    );
+    return result.changes;
+  }
+
+  /**
+   * Remove one attendee's interaction derived from a meeting
+   */
+  async deleteByMeetingAndPerson(meetingId: string, personId: string): Promise<number> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return 0;
+    const result = await db.runAsync(
+      `DELETE FROM interactions WHERE meetingId = ? AND personId = ?`,
+      [meetingId, personId]
+    );
+    return result.changes;
+  }
+
   async getByPlace(placeId: string): Promise<Interaction[]> {
     const db = this.ensureDatabase();
     if (!db || this.isWebPlatform) return [];
@@ -91,6 +198,19 @@ export class InteractionDAO extends BaseDAO<InteractionDB> {
     return (results || []).map(r => this.dbToInteraction(r));
   }
 
+  async getBySourceAccount(sourceAccountId: string, limit?: number): Promise<Interaction[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const query = limit
+      ? `SELECT * FROM interactions WHERE sourceAccountId = ? ORDER BY date DESC LIMIT ?`
+      : `SELECT * FROM interactions WHERE sourceAccountId = ? ORDER BY date DESC`;
+
+    const params = limit ? [sourceAccountId, limit] : [sourceAccountId];
+
+    const results = await db.getAllAsync<InteractionDB>(query, params);
+    return (results || []).map(r => this.dbToInteraction(r));
+  }
+
   async getRecent(limit: number = 20): Promise<Interaction[]> {
     const db = this.ensureDatabase();
     if (!db || this.isWebPlatform) return [];
@@ -101,10 +221,25 @@ export class InteractionDAO extends BaseDAO<InteractionDB> {
     return (results || []).map(r => this.dbToInteraction(r));
   }
 
-  async markPersonTouched(personId: string, type: Interaction['type'] = 'message', notes?: string): Promise<Interaction> {
+  /**
+   * Most recent interaction date per person
+   */
+  async getLastDatesByPerson(): Promise<Map<string, Date>> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return new Map();
+    const results = await db.getAllAsync<{ personId: string; lastDate: string }>(
+      `SELECT personId, MAX(date) as lastDate FROM interactions GROUP BY personId`
+    );
+    return new Map((results || []).map(r => [r.personId, new Date(r.lastDate)]));
+  }
+
+  /**
+   * Log a manual touch; channel is one of CHANNEL_OPTIONS
+   */
+  async markPersonTouched(personId: string, channel: string = 'text', notes?: string): Promise<Interaction> {
     const interaction = await this.create({
       personId,
-      type,
+      type: CHANNEL_INTERACTION_TYPES[channel] ?? 'other',
       date: new Date(),
       notes
     });
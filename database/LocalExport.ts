@@ -272,7 +272,8 @@ export class LocalExport {
           notes: person.notes,
           companyId: person.companyId,
           lastInteraction: person.lastInteraction ? new Date(person.lastInteraction) : undefined,
-        });
+          cadence: person.cadence,
+        }, { source: 'system' });
       }
       
       console.log('[LocalExport] Importing places to local database...');
@@ -294,7 +295,7 @@ export class LocalExport {
           date: new Date(interaction.date),
           notes: interaction.notes,
           placeId: interaction.placeId,
-        });
+        }, { source: 'system' });
       }
       
       console.log('[LocalExport] Importing tasks to local database...');
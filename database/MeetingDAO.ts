@@ -7,6 +7,13 @@ interface MeetingRow {
   date: string;
   location: string | null;
   notes: string | null;
+  calendarEventId: string | null;
+  calendarId: string | null;
+  instanceStartDate: string | null;
+  status: string | null;
+  seriesId: string | null;
+  type: string | null;
+  joinUrl: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -25,7 +32,13 @@ export class MeetingDAO extends BaseDAO<Meeting> {
       placeId: undefined,
       duration: undefined,
       notes: row.notes || undefined,
-      type: 'in-person' as const,
+      type: (row.type === 'video' || row.type === 'phone') ? row.type : 'in-person',
+      joinUrl: row.joinUrl || undefined,
+      calendarEventId: row.calendarEventId || undefined,
+      calendarId: row.calendarId || undefined,
+      instanceStartDate: row.instanceStartDate ? new Date(row.instanceStartDate) : undefined,
+      status: row.status === 'cancelled' ? 'cancelled' : 'confirmed',
+      seriesId: row.seriesId || undefined,
       createdAt: new Date(row.createdAt),
       updatedAt: new Date(row.updatedAt),
     };
@@ -52,7 +65,7 @@ export class MeetingDAO extends BaseDAO<Meeting> {
     if (!this.db || this.isWebPlatform) return [];
     const now = new Date().toISOString();
     const rows = await this.db.getAllAsync<MeetingRow>(
-      `SELECT * FROM ${this.tableName} WHERE date >= ? ORDER BY date ASC`,
+      `SELECT * FROM ${this.tableName} WHERE date >= ? AND IFNULL(status, 'confirmed') != 'cancelled' ORDER BY date ASC`,
       [now]
     );
     return rows.map(row => this.mapRowToMeeting(row));
@@ -67,6 +80,117 @@ export class MeetingDAO extends BaseDAO<Meeting> {
     return rows.map(row => this.mapRowToMeeting(row));
   }
 
+  /**
+   * Meeting ingested from a calendar event; recurring occurrences are told apart by instance date
+   */
+  async findByCalendarEvent(calendarEventId: string, instanceStartDate?: Date): Promise<Meeting | null> {
+    if (!this.db || this.isWebPlatform) return null;
+    const row = await this.db.getFirstAsync<MeetingRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE calendarEventId = ? AND IFNULL(instanceStartDate, '') = ?
+       LIMIT 1`,
+      [calendarEventId, instanceStartDate ? instanceStartDate.toISOString() : '']
+    );
+    return row ? this.mapRowToMeeting(row) : null;
+  }
+
+  /**
+   * Meetings linked to a place, newest first; cancelled meetings are left out
+   */
+  async findByPlace(placeId: string): Promise<Meeting[]> {
+    if (!this.db || this.isWebPlatform) return [];
+    const rows = await this.db.getAllAsync<MeetingRow>(
+      `SELECT m.* FROM ${this.tableName} m
+       JOIN meeting_places mp ON mp.meetingId = m.id
+       WHERE mp.placeId = ? AND IFNULL(m.status, 'confirmed') != 'cancelled'
+       ORDER BY m.date DESC`,
+      [placeId]
+    );
+    return rows.map(row => this.mapRowToMeeting(row));
+  }
+
+  /**
+   * Meeting created before event IDs were stored, matched by title and start time
+   */
+  async findUnlinkedByTitleAndDate(title: string, date: Date, toleranceMs: number = 60000): Promise<Meeting | null> {
+    if (!this.db || this.isWebPlatform) return null;
+    const row = await this.db.getFirstAsync<MeetingRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE calendarEventId IS NULL AND title = ? AND date BETWEEN ? AND ?
+       LIMIT 1`,
+      [title, new Date(date.getTime() - toleranceMs).toISOString(), new Date(date.getTime() + toleranceMs).toISOString()]
+    );
+    return row ? this.mapRowToMeeting(row) : null;
+  }
+
+  /**
+   * Calendar-sourced meetings that are still active within a date range
+   */
+  async findCalendarMeetingsInRange(startDate: Date, endDate: Date): Promise<Meeting[]> {
+    if (!this.db || this.isWebPlatform) return [];
+    const rows = await this.db.getAllAsync<MeetingRow>(
+      `SELECT * FROM ${this.tableName}
+       WHERE calendarEventId IS NOT NULL AND date BETWEEN ? AND ?
+         AND IFNULL(status, 'confirmed') != 'cancelled'
+       ORDER BY date ASC`,
+      [startDate.toISOString(), endDate.toISOString()]
+    );
+    return rows.map(row => this.mapRowToMeeting(row));
+  }
+
+  /**
+   * IDs of meetings that belong to a recurring series, for weighting routine meetings in scoring
+   */
+  async findRecurringMeetingIds(): Promise<Set<string>> {
+    if (!this.db || this.isWebPlatform) return new Set();
+    const rows = await this.db.getAllAsync<{ id: string }>(
+      `SELECT id FROM ${this.tableName} WHERE seriesId IS NOT NULL`
+    );
+    return new Set(rows.map(row => row.id));
+  }
+
+  async setStatus(id: string, status: NonNullable<Meeting['status']>): Promise<boolean> {
+    if (!this.db || this.isWebPlatform) return false;
+    const result = await this.db.runAsync(
+      `UPDATE ${this.tableName} SET status = ?, updatedAt = ? WHERE id = ?`,
+      [status, this.getNow(), id]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete every meeting imported from a calendar, with its attendees, places and derived interactions
+   */
+  async deleteByCalendar(calendarId: string): Promise<number> {
+    const db = this.db;
+    if (!db || this.isWebPlatform) return 0;
+
+    let deleted = 0;
+    await db.withTransactionAsync(async () => {
+      const scope = `SELECT id FROM ${this.tableName} WHERE calendarId = ?`;
+      const touched = await db.getAllAsync<{ personId: string; date: string }>(
+        `SELECT DISTINCT personId, date FROM interactions WHERE meetingId IN (${scope})`,
+        [calendarId]
+      );
+      await db.runAsync(`DELETE FROM interactions WHERE meetingId IN (${scope})`, [calendarId]);
+      // People whose latest interaction was one of these meetings fall back to what remains
+      const now = this.getNow();
+      for (const { personId, date } of touched) {
+        await db.runAsync(
+          `UPDATE persons SET lastInteraction = (SELECT MAX(date) FROM interactions WHERE personId = ?), updatedAt = ?
+           WHERE id = ? AND lastInteraction = ?`,
+          [personId, now, personId, date]
+        );
+      }
+      await db.runAsync(`DELETE FROM meeting_attendees WHERE meetingId IN (${scope})`, [calendarId]);
+      await db.runAsync(`DELETE FROM meeting_places WHERE meetingId IN (${scope})`, [calendarId]);
+      const result = await db.runAsync(`DELETE FROM ${this.tableName} WHERE calendarId = ?`, [calendarId]);
+      await db.runAsync(`DELETE FROM meeting_series WHERE calendarId = ?`, [calendarId]);
+      deleted = result.changes;
+    });
+    return deleted;
+  }
+
   async create(meeting: Omit<Meeting, 'id' | 'createdAt' | 'updatedAt'>): Promise<Meeting> {
     if (!this.db || this.isWebPlatform) {
       throw new Error('Database not available');
@@ -76,14 +200,21 @@ export class MeetingDAO extends BaseDAO<Meeting> {
     const id = this.generateId();
     
     await this.db.runAsync(
-      `INSERT INTO ${this.tableName} (id, title, date, location, notes, createdAt, updatedAt) 
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO ${this.tableName} (id, title, date, location, notes, calendarEventId, calendarId, instanceStartDate, status, seriesId, type, joinUrl, createdAt, updatedAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         meeting.title,
         meeting.date.toISOString(),
         null,
         meeting.notes || null,
+        meeting.calendarEventId || null,
+        meeting.calendarId || null,
+        meeting.instanceStartDate ? meeting.instanceStartDate.toISOString() : null,
+        meeting.status || 'confirmed',
+        meeting.seriesId || null,
+        meeting.type,
+        meeting.joinUrl || null,
         now,
         now
       ]
@@ -107,13 +238,20 @@ export class MeetingDAO extends BaseDAO<Meeting> {
     
     await this.db.runAsync(
       `UPDATE ${this.tableName} 
-       SET title = ?, date = ?, location = ?, notes = ?, updatedAt = ?
+       SET title = ?, date = ?, location = ?, notes = ?, calendarEventId = ?, calendarId = ?, instanceStartDate = ?, status = ?, seriesId = ?, type = ?, joinUrl = ?, updatedAt = ?
        WHERE id = ?`,
       [
         updates.title ?? existing.title,
         (updates.date ?? existing.date).toISOString(),
         null,
         updates.notes ?? existing.notes ?? null,
+        updates.calendarEventId ?? existing.calendarEventId ?? null,
+        updates.calendarId ?? existing.calendarId ?? null,
+        (updates.instanceStartDate ?? existing.instanceStartDate)?.toISOString() ?? null,
+        updates.status ?? existing.status ?? 'confirmed',
+        updates.seriesId ?? existing.seriesId ?? null,
+        updates.type ?? existing.type,
+        'joinUrl' in updates ? updates.joinUrl ?? null : existing.joinUrl ?? null,
         now,
         id
       ]
@@ -0,0 +1,109 @@
+import { BaseDAO } from './BaseDAO';
+import { Meeting } from '../models/Meeting';
+import { MeetingSeries, MeetingSeriesPosition, RecurrenceFrequency } from '../models/MeetingSeries';
+
+interface MeetingSeriesDB {
+  id: string;
+  calendarEventId: string;
+  calendarId: string | null;
+  title: string;
+  recurrenceRule: string | null;
+  frequency: string;
+  interval: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class MeetingSeriesDAO extends BaseDAO<MeetingSeriesDB> {
+  constructor() {
+    super('meeting_series');
+  }
+
+  private dbToSeries(db: MeetingSeriesDB): MeetingSeries {
+    return {
+      id: db.id,
+      calendarEventId: db.calendarEventId,
+      calendarId: db.calendarId || undefined,
+      title: db.title,
+      recurrenceRule: db.recurrenceRule || undefined,
+      frequency: db.frequency as RecurrenceFrequency,
+      interval: db.interval || 1,
+      createdAt: new Date(db.createdAt),
+      updatedAt: new Date(db.updatedAt),
+    };
+  }
+
+  async getSeriesById(id: string): Promise<MeetingSeries | null> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return null;
+    const result = await db.getFirstAsync<MeetingSeriesDB>(
+      `SELECT * FROM meeting_series WHERE id = ?`,
+      [id]
+    );
+    return result ? this.dbToSeries(result) : null;
+  }
+
+  /**
+   * Create or refresh the series for a recurring calendar event.
+   * IDs derive from the event ID so every occurrence resolves to the same row.
+   */
+  async upsert(series: Omit<MeetingSeries, 'id' | 'createdAt' | 'updatedAt'>): Promise<MeetingSeries | null> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return null;
+    const now = this.getNow();
+
+    await db.runAsync(
+      `INSERT INTO meeting_series (id, calendarEventId, calendarId, title, recurrenceRule, frequency, interval, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+       ON CONFLICT(calendarEventId) DO UPDATE SET
+         calendarId = excluded.calendarId,
+         title = excluded.title,
+         recurrenceRule = COALESCE(excluded.recurrenceRule, meeting_series.recurrenceRule),
+         frequency = CASE WHEN excluded.frequency = 'unknown' THEN meeting_series.frequency ELSE excluded.frequency END,
+         interval = excluded.interval,
+         updatedAt = excluded.updatedAt`,
+      [
+        `series_${series.calendarEventId}`,
+        series.calendarEventId,
+        series.calendarId || null,
+        series.title,
+        series.recurrenceRule || null,
+        series.frequency,
+        series.interval,
+        now,
+        now
+      ]
+    );
+
+    const result = await db.getFirstAsync<MeetingSeriesDB>(
+      `SELECT * FROM meeting_series WHERE calendarEventId = ?`,
+      [series.calendarEventId]
+    );
+    return result ? this.dbToSeries(result) : null;
+  }
+
+  /**
+   * Where a meeting falls among the series' non-cancelled occurrences
+   */
+  async getPosition(meeting: Meeting): Promise<MeetingSeriesPosition | null> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform || !meeting.seriesId) return null;
+    const result = await db.getFirstAsync<{ occurrence: number; frequency: string; interval: number }>(
+      `SELECT
+         (SELECT COUNT(*) FROM meetings m
+          WHERE m.seriesId = s.id AND m.date <= ? AND IFNULL(m.status, 'confirmed') != 'cancelled') as occurrence,
+         s.frequency, s.interval
+       FROM meeting_series s
+       WHERE s.id = ?`,
+      [meeting.date.toISOString(), meeting.seriesId]
+    );
+    if (!result || result.occurrence === 0) return null;
+
+    return {
+      seriesId: meeting.seriesId,
+      occurrence: result.occurrence,
+      frequency: result.frequency as RecurrenceFrequency,
+      interval: result.interval || 1,
+    };
+  }
+}
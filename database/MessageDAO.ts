@@ -7,6 +7,7 @@ interface MessageRow {
   senderId: string;
   content: string;
   sentAt: string;
+  isFromMe: number | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -23,7 +24,7 @@ export class MessageDAO extends BaseDAO<Message> {
       senderId: row.senderId,
       content: row.content,
       sentAt: new Date(row.sentAt),
-      isFromMe: false,
+      isFromMe: row.isFromMe === 1,
       createdAt: new Date(row.createdAt),
       updatedAt: new Date(row.updatedAt),
     };
@@ -75,14 +76,15 @@ export class MessageDAO extends BaseDAO<Message> {
     const encryptedContent = await this.encryptSensitiveData(message.content);
     
     await this.db.runAsync(
-      `INSERT INTO ${this.tableName} (id, threadId, senderId, content, sentAt, createdAt, updatedAt) 
-       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO ${this.tableName} (id, threadId, senderId, content, sentAt, isFromMe, createdAt, updatedAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         message.threadId,
         message.senderId,
         encryptedContent,
         message.sentAt.toISOString(),
+        message.isFromMe ? 1 : 0,
         now,
         now
       ]
@@ -96,6 +98,47 @@ export class MessageDAO extends BaseDAO<Message> {
     };
   }
 
+  /**
+   * Insert a message under its provider ID; returns false if it was already stored
+   */
+  async upsert(message: Omit<Message, 'createdAt' | 'updatedAt'>): Promise<boolean> {
+    if (!this.db || this.isWebPlatform) {
+      throw new Error('Database not available');
+    }
+
+    const now = this.getNow();
+    const encryptedContent = await this.encryptSensitiveData(message.content);
+
+    const result = await this.db.runAsync(
+      `INSERT OR IGNORE INTO ${this.tableName} (id, threadId, senderId, content, sentAt, isFromMe, createdAt, updatedAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        message.id,
+        message.threadId,
+        message.senderId,
+        encryptedContent,
+        message.sentAt.toISOString(),
+        message.isFromMe ? 1 : 0,
+        now,
+        now
+      ]
+    );
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Point messages stored under a sender's raw address at the person who now has that address
+   */
+  async relinkSender(address: string, personId: string): Promise<number> {
+    if (!this.db || this.isWebPlatform) return 0;
+    const result = await this.db.runAsync(
+      `UPDATE ${this.tableName} SET senderId = ?, updatedAt = ? WHERE LOWER(senderId) = ? AND isFromMe = 0`,
+      [personId, this.getNow(), address]
+    );
+    return result.changes;
+  }
+
   async update(id: string, updates: Partial<Omit<Message, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Message | null> {
     if (!this.db || this.isWebPlatform) return null;
 
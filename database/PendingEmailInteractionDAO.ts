@@ -0,0 +1,92 @@
+import { BaseDAO } from './BaseDAO';
+import { PendingEmailInteraction } from '../models/Interaction';
+
+interface PendingEmailInteractionDB {
+  id: string;
+  address: string;
+  type: string;
+  date: string;
+  notes: string | null;
+  threadId: string | null;
+  sourceAccountId: string | null;
+  createdAt: string;
+}
+
+export class PendingEmailInteractionDAO extends BaseDAO<PendingEmailInteractionDB> {
+  constructor() {
+    super('pending_email_interactions');
+  }
+
+  private dbToPending(db: PendingEmailInteractionDB): PendingEmailInteraction {
+    return {
+      id: db.id,
+      address: db.address,
+      type: db.type as PendingEmailInteraction['type'],
+      date: new Date(db.date),
+      notes: db.notes || undefined,
+      threadId: db.threadId || undefined,
+      sourceAccountId: db.sourceAccountId || undefined,
+    };
+  }
+
+  /**
+   * Hold an interaction for an address nobody has yet; re-synced mail keeps its first copy
+   */
+  async save(pending: PendingEmailInteraction): Promise<boolean> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) {
+      throw new Error('Database not available');
+    }
+    const result = await db.runAsync(
+      `INSERT OR IGNORE INTO pending_email_interactions (id, address, type, date, notes, threadId, sourceAccountId, createdAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        pending.id,
+        pending.address,
+        pending.type,
+        pending.date.toISOString(),
+        pending.notes || null,
+        pending.threadId || null,
+        pending.sourceAccountId || null,
+        this.getNow(),
+      ]
+    );
+    return result.changes > 0;
+  }
+
+  /**
+   * Held addresses that now belong to someone, through any of their email addresses
+   */
+  async getMatchedAddresses(): Promise<{ address: string; personId: string }[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const results = await db.getAllAsync<{ address: string; personId: string | null }>(
+      `SELECT address, COALESCE(
+         (SELECT personId FROM person_identifiers
+          WHERE type = 'email' AND value = pending.address
+          ORDER BY isPrimary DESC, createdAt LIMIT 1),
+         (SELECT id FROM persons WHERE LOWER(email) = pending.address LIMIT 1)
+       ) AS personId
+       FROM (SELECT DISTINCT address FROM pending_email_interactions) pending`
+    );
+    return (results || [])
+      .filter((row): row is { address: string; personId: string } => !!row.personId);
+  }
+
+  async getByAddress(address: string): Promise<PendingEmailInteraction[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const results = await db.getAllAsync<PendingEmailInteractionDB>(
+      `SELECT * FROM pending_email_interactions WHERE address = ? ORDER BY date`,
+      [address]
+    );
+    return (results || []).map(row => this.dbToPending(row));
+  }
+
+  async deleteByAddress(address: string): Promise<number> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return 0;
+    const result = await db.runAsync(`DELETE FROM pending_email_interactions WHERE address = ?`, [address]);
+    return result.changes;
+  }
+}
@@ -1,5 +1,8 @@
 import { BaseDAO } from './BaseDAO';
+import { PersonIdentifierDAO } from './PersonIdentifierDAO';
+import { ChangeLogDAO, ChangeOptions, RowScope } from './ChangeLogDAO';
 import { Person } from '../models/Person';
+import { PersonIdentifier } from '../models/PersonIdentifier';
 
 interface PersonDB {
   id: string;
@@ -15,11 +18,15 @@ interface PersonDB {
   notes: string | null;
   companyId: string | null;
   lastInteraction: string | null;
+  cadence: number | null;
   createdAt: string;
   updatedAt: string;
 }
 
 export class PersonDAO extends BaseDAO<PersonDB> {
+  private identifierDAO = new PersonIdentifierDAO();
+  private changeLog = new ChangeLogDAO();
+
   constructor() {
     super('persons');
   }
@@ -52,6 +59,7 @@ export class PersonDAO extends BaseDAO<PersonDB> {
       notes: db.notes || undefined,
       companyId: db.companyId || undefined,
       lastInteraction: db.lastInteraction ? new Date(db.lastInteraction) : undefined,
+      cadence: db.cadence ?? undefined,
       createdAt: new Date(db.createdAt),
       updatedAt: new Date(db.updatedAt),
     };
@@ -72,11 +80,13 @@ export class PersonDAO extends BaseDAO<PersonDB> {
     if (person.notes !== undefined) db.notes = person.notes || null;
     if (person.companyId !== undefined) db.companyId = person.companyId || null;
     if (person.lastInteraction !== undefined) db.lastInteraction = person.lastInteraction ? person.lastInteraction.toISOString() : null;
+    // An explicit undefined clears the cadence back to the tier default
+    if ('cadence' in person) db.cadence = person.cadence || null;
     
     return db;
   }
 
-  async create(person: Omit<Person, 'id' | 'createdAt' | 'updatedAt'>): Promise<Person> {
+  async create(person: Omit<Person, 'id' | 'createdAt' | 'updatedAt'>, options: ChangeOptions = {}): Promise<Person> {
     const db = this.ensureDatabase();
     if (!db || this.isWebPlatform) {
       throw new Error('Database not available');
@@ -84,35 +94,46 @@ export class PersonDAO extends BaseDAO<PersonDB> {
     const id = this.generateId();
     const now = this.getNow();
     const dbPerson = this.personToDb(person);
-    
-    await db.runAsync(
-      `INSERT INTO persons (id, firstName, lastName, nickname, email, phone, avatar, birthday, relationship, tags, notes, companyId, lastInteraction, createdAt, updatedAt) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
-      [
-        id, 
-        dbPerson.firstName || '', 
-        dbPerson.lastName || '', 
-        dbPerson.nickname || null,
-        dbPerson.email || null, 
-        dbPerson.phone || null, 
-        dbPerson.avatar || null, 
-        dbPerson.birthday || null, 
-        dbPerson.relationship || 'acquaintance',
-        dbPerson.tags || '[]',
-        dbPerson.notes || null, 
-        dbPerson.companyId || null,
-        dbPerson.lastInteraction || null,
-        now, 
-        now
-      ]
-    );
+    const description = `Created ${`${person.firstName} ${person.lastName}`.trim()}`;
+
+    const meta = { operation: 'create' as const, description, personId: id, source: options.source };
+    await this.changeLog.track(meta, this.changeScopes(id), async () => {
+      await db.runAsync(
+        `INSERT INTO persons (id, firstName, lastName, nickname, email, phone, avatar, birthday, relationship, tags, notes, companyId, lastInteraction, cadence, createdAt, updatedAt) 
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          id, 
+          dbPerson.firstName || '', 
+          dbPerson.lastName || '', 
+          dbPerson.nickname || null,
+          dbPerson.email || null, 
+          dbPerson.phone || null, 
+          dbPerson.avatar || null, 
+          dbPerson.birthday || null, 
+          dbPerson.relationship || 'acquaintance',
+          dbPerson.tags || '[]',
+          dbPerson.notes || null, 
+          dbPerson.companyId || null,
+          dbPerson.lastInteraction || null,
+          dbPerson.cadence || null,
+          now, 
+          now
+        ]
+      );
+
+      await this.syncPrimaryIdentifiers(id, person);
+    }, options.context);
 
     const created = await this.getPersonById(id);
     if (!created) throw new Error('Failed to create person');
     return created;
   }
 
-  async update(id: string, person: Partial<Omit<Person, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Person | null> {
+  async update(
+    id: string,
+    person: Partial<Omit<Person, 'id' | 'createdAt' | 'updatedAt'>>,
+    options: ChangeOptions = {}
+  ): Promise<Person | null> {
     const db = this.ensureDatabase();
     if (!db || this.isWebPlatform) return null;
     const dbPerson = this.personToDb(person);
@@ -135,10 +156,17 @@ export class PersonDAO extends BaseDAO<PersonDB> {
     values.push(this.getNow());
     values.push(id);
 
-    await db.runAsync(
-      `UPDATE persons SET ${fields.join(', ')} WHERE id = ?`,
-      values
-    );
+    const description = `Edited ${Object.keys(dbPerson).join(', ')}`;
+
+    const meta = { operation: 'update' as const, description, personId: id, source: options.source };
+    await this.changeLog.track(meta, this.changeScopes(id), async () => {
+      await db.runAsync(
+        `UPDATE persons SET ${fields.join(', ')} WHERE id = ?`,
+        values
+      );
+
+      await this.syncPrimaryIdentifiers(id, person);
+    }, options.context);
 
     return this.getPersonById(id);
   }
@@ -211,16 +239,104 @@ export class PersonDAO extends BaseDAO<PersonDB> {
     return (results || []).map(r => this.dbToPerson(r));
   }
 
+  /**
+   * Find a person by any of their email addresses, not just the primary one
+   */
   async findByEmail(email: string): Promise<Person | null> {
     const db = this.ensureDatabase();
     if (!db || this.isWebPlatform) return null;
+
+    const personId = await this.identifierDAO.findPersonId('email', email);
+    if (personId) {
+      return this.getPersonById(personId);
+    }
+
     const result = await db.getFirstAsync<PersonDB>(
-      `SELECT * FROM persons WHERE email = ?`,
-      [email]
+      `SELECT * FROM persons WHERE LOWER(email) = ?`,
+      [PersonIdentifierDAO.normalize('email', email)]
     );
     return result ? this.dbToPerson(result) : null;
   }
 
+  /**
+   * Find a person by any of their phone numbers
+   */
+  async findByPhone(phone: string): Promise<Person | null> {
+    const personId = await this.identifierDAO.findPersonId('phone', phone);
+    return personId ? this.getPersonById(personId) : null;
+  }
+
+  async getIdentifiers(personId: string, type?: PersonIdentifier['type']): Promise<PersonIdentifier[]> {
+    return this.identifierDAO.getByPerson(personId, type);
+  }
+
+  async addIdentifier(
+    personId: string,
+    type: PersonIdentifier['type'],
+    value: string,
+    options: { label?: string; isPrimary?: boolean } = {}
+  ): Promise<boolean> {
+    return this.identifierDAO.add(personId, type, value, options);
+  }
+
+  async deleteById(id: string, options: ChangeOptions = {}): Promise<boolean> {
+    const existing = await this.getPersonById(id);
+    const description = `Deleted ${existing ? `${existing.firstName} ${existing.lastName}`.trim() : 'contact'}`;
+
+    const meta = { operation: 'delete' as const, description, personId: id, source: options.source };
+    return this.changeLog.track(meta, this.changeScopes(id), async () => {
+      await this.identifierDAO.deleteByPerson(id);
+      return super.deleteById(id);
+    }, options.context);
+  }
+
+  private changeScopes(id: string): RowScope[] {
+    return [
+      { table: 'persons', where: 'id = ?', params: [id] },
+      { table: 'person_identifiers', where: 'personId = ?', params: [id] },
+    ];
+  }
+
+  /**
+   * Keep the email/phone columns mirrored as the primary identifiers
+   */
+  private async syncPrimaryIdentifiers(id: string, person: Partial<Person>): Promise<void> {
+    if (person.email) {
+      await this.identifierDAO.add(id, 'email', person.email, { isPrimary: true });
+    }
+    if (person.phone) {
+      await this.identifierDAO.add(id, 'phone', person.phone, { isPrimary: true });
+    }
+  }
+
+  /**
+   * Move lastInteraction forward to the given date (never backwards)
+   */
+  async touchLastInteraction(id: string, date: Date): Promise<void> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return;
+    const iso = date.toISOString();
+    await db.runAsync(
+      `UPDATE persons SET lastInteraction = ?, updatedAt = ?
+       WHERE id = ? AND (lastInteraction IS NULL OR lastInteraction < ?)`,
+      [iso, this.getNow(), id, iso]
+    );
+  }
+
+  /**
+   * Reverse touchLastInteraction after the interaction dated `date` was removed,
+   * falling back to the person's latest remaining interaction
+   */
+  async untouchLastInteraction(id: string, date: Date): Promise<void> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return;
+    await db.runAsync(
+      `UPDATE persons SET lastInteraction = (SELECT MAX(date) FROM interactions WHERE personId = ?), updatedAt = ?
+       WHERE id = ? AND lastInteraction = ?`,
+      [id, this.getNow(), id, date.toISOString()]
+    );
+  }
+
   async getAll(): Promise<Person[]> {
     return this.getAllPersons();
   }
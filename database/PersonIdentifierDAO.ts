@@ -0,0 +1,162 @@
+import { BaseDAO } from './BaseDAO';
+import { PersonIdentifier, normalizeIdentifier } from '../models/PersonIdentifier';
+
+interface PersonIdentifierDB {
+  id: string;
+  personId: string;
+  type: string;
+  value: string;
+  label: string | null;
+  isPrimary: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export type PersonIdentifierType = PersonIdentifier['type'];
+
+export class PersonIdentifierDAO extends BaseDAO<PersonIdentifierDB> {
+  constructor() {
+    super('person_identifiers');
+  }
+
+  /**
+   * Normalize an identifier so lookups match regardless of formatting
+   */
+  static normalize(type: PersonIdentifierType, value: string): string {
+    return normalizeIdentifier(type, value);
+  }
+
+  private dbToIdentifier(db: PersonIdentifierDB): PersonIdentifier {
+    return {
+      id: db.id,
+      personId: db.personId,
+      type: db.type as PersonIdentifierType,
+      value: db.value,
+      label: db.label || undefined,
+      isPrimary: db.isPrimary === 1,
+      createdAt: new Date(db.createdAt),
+      updatedAt: new Date(db.updatedAt),
+    };
+  }
+
+  async getByPerson(personId: string, type?: PersonIdentifierType): Promise<PersonIdentifier[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const results = type
+      ? await db.getAllAsync<PersonIdentifierDB>(
+          `SELECT * FROM person_identifiers WHERE personId = ? AND type = ? ORDER BY isPrimary DESC, createdAt`,
+          [personId, type]
+        )
+      : await db.getAllAsync<PersonIdentifierDB>(
+          `SELECT * FROM person_identifiers WHERE personId = ? ORDER BY type, isPrimary DESC, createdAt`,
+          [personId]
+        );
+    return (results || []).map(r => this.dbToIdentifier(r));
+  }
+
+  async getAllByType(type: PersonIdentifierType): Promise<PersonIdentifier[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const results = await db.getAllAsync<PersonIdentifierDB>(
+      `SELECT * FROM person_identifiers WHERE type = ? ORDER BY isPrimary DESC, createdAt`,
+      [type]
+    );
+    return (results || []).map(r => this.dbToIdentifier(r));
+  }
+
+  /**
+   * Person owning the identifier; primary identifiers win when several people share a value
+   */
+  async findPersonId(type: PersonIdentifierType, value: string): Promise<string | null> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return null;
+    const normalized = PersonIdentifierDAO.normalize(type, value);
+    if (!normalized) return null;
+    const result = await db.getFirstAsync<{ personId: string }>(
+      `SELECT personId FROM person_identifiers
+       WHERE type = ? AND value = ?
+       ORDER BY isPrimary DESC, createdAt
+       LIMIT 1`,
+      [type, normalized]
+    );
+    return result?.personId ?? null;
+  }
+
+  /**
+   * Attach an identifier to a person; returns false if the person already has it
+   */
+  async add(
+    personId: string,
+    type: PersonIdentifierType,
+    value: string,
+    options: { label?: string; isPrimary?: boolean } = {}
+  ): Promise<boolean> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return false;
+    const normalized = PersonIdentifierDAO.normalize(type, value);
+    if (!normalized) return false;
+    const now = this.getNow();
+
+    if (options.isPrimary) {
+      await db.runAsync(
+        `UPDATE person_identifiers SET isPrimary = 0, updatedAt = ? WHERE personId = ? AND type = ?`,
+        [now, personId, type]
+      );
+    }
+
+    const result = await db.runAsync(
+      `INSERT OR IGNORE INTO person_identifiers (id, personId, type, value, label, isPrimary, createdAt, updatedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        this.generateId(),
+        personId,
+        type,
+        normalized,
+        options.label || null,
+        options.isPrimary ? 1 : 0,
+        now,
+        now
+      ]
+    );
+
+    if (result.changes === 0 && options.isPrimary) {
+      await this.markPrimary(personId, type, normalized);
+    }
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Make an existing identifier the person's primary one of its type
+   */
+  async markPrimary(personId: string, type: PersonIdentifierType, value: string): Promise<void> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return;
+    const normalized = PersonIdentifierDAO.normalize(type, value);
+    await db.runAsync(
+      `UPDATE person_identifiers SET isPrimary = CASE WHEN value = ? THEN 1 ELSE 0 END, updatedAt = ?
+       WHERE personId = ? AND type = ?`,
+      [normalized, this.getNow(), personId, type]
+    );
+  }
+
+  async remove(personId: string, type: PersonIdentifierType, value: string): Promise<boolean> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return false;
+    const result = await db.runAsync(
+      `DELETE FROM person_identifiers WHERE personId = ? AND type = ? AND value = ?`,
+      [personId, type, PersonIdentifierDAO.normalize(type, value)]
+    );
+    return result.changes > 0;
+  }
+
+  async deleteByPerson(personId: string): Promise<number> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return 0;
+    const result = await db.runAsync(
+      `DELETE FROM person_identifiers WHERE personId = ?`,
+      [personId]
+    );
+    return result.changes;
+  }
+}
@@ -1,5 +1,13 @@
 import { BaseDAO } from './BaseDAO';
-import { PersonScore } from '../models/PersonScore';
+import {
+  PersonScore,
+  PersonScoreSnapshot,
+  ScoreBreakdown,
+  ScoreMetrics,
+  ScoreSnapshotRetention,
+  DEFAULT_SNAPSHOT_RETENTION,
+} from '../models/PersonScore';
+import { toDayKey } from '../lib/utils';
 
 interface PersonScoreRow {
   id: string;
@@ -9,9 +17,52 @@ interface PersonScoreRow {
   lastInteractionDaysAgo: number;
   totalInteractions: number;
   averageResponseTime: number | null;
+  inboundMessages: number | null;
+  outboundMessages: number | null;
+  reciprocity: number | null;
+  initiationRate: number | null;
+  myReplyTime: number | null;
+  theirReplyTime: number | null;
+  breakdown: string | null;
+  profileVersion: number | null;
+  connectivity: number | null;
+  scoreBase: number | null;
+  scoreMultiplier: number | null;
+  profileTier: string | null;
   calculatedAt: string;
 }
 
+interface PersonScoreSnapshotRow {
+  personId: string;
+  day: string;
+  relationshipScore: number;
+  interactionFrequency: number | null;
+  connectivity: number | null;
+  reciprocity: number | null;
+  metrics: string | null;
+}
+
+export interface DailyScoreAverage {
+  day: string;
+  averageScore: number;
+  people: number;
+}
+
+export interface LastTouchChange {
+  personId: string;
+  profileTier: string | null;
+  previousDays: number; // lastInteractionDaysAgo as stored
+  daysAgo: number; // As of now
+}
+
+export interface ScoreDecayOptions {
+  since: Date; // When the rows to decay were last computed
+  now: Date;
+  decayFactors: Record<string, number>; // Connectivity multiplier per profile tier for the elapsed time
+  fallbackFactor: number; // For rows without a known tier
+  connectivityPoints: number; // Score points per unit of connectivity
+}
+
 export class PersonScoreDAO extends BaseDAO<PersonScore> {
   constructor() {
     super('person_scores');
@@ -26,10 +77,31 @@ export class PersonScoreDAO extends BaseDAO<PersonScore> {
       lastInteractionDaysAgo: row.lastInteractionDaysAgo,
       totalInteractions: row.totalInteractions,
       averageResponseTime: row.averageResponseTime || undefined,
+      inboundMessages: row.inboundMessages ?? undefined,
+      outboundMessages: row.outboundMessages ?? undefined,
+      reciprocity: row.reciprocity ?? undefined,
+      initiationRate: row.initiationRate ?? undefined,
+      myReplyTime: row.myReplyTime ?? undefined,
+      theirReplyTime: row.theirReplyTime ?? undefined,
+      breakdown: this.parseBreakdown(row.breakdown),
+      profileVersion: row.profileVersion ?? undefined,
+      connectivity: row.connectivity ?? undefined,
+      scoreBase: row.scoreBase ?? undefined,
+      scoreMultiplier: row.scoreMultiplier ?? undefined,
+      profileTier: row.profileTier ?? undefined,
       calculatedAt: new Date(row.calculatedAt),
     };
   }
 
+  private parseBreakdown(raw: string | null): ScoreBreakdown | undefined {
+    const breakdown = this.parseJsonField<ScoreBreakdown>(raw);
+    if (!breakdown) return undefined;
+    return {
+      ...breakdown,
+      topInteractions: (breakdown.topInteractions ?? []).map(item => ({ ...item, date: new Date(item.date) })),
+    };
+  }
+
   async findAll(): Promise<PersonScore[]> {
     const db = this.ensureDatabase();
     if (!db || this.isWebPlatform) return [];
@@ -75,12 +147,12 @@ export class PersonScoreDAO extends BaseDAO<PersonScore> {
       throw new Error('Database not available');
     }
 
-    const now = this.getNow();
+    const calculatedAt = personScore.calculatedAt.toISOString();
     const id = this.generateId();
     
     await db.runAsync(
-      `INSERT INTO ${this.tableName} (id, personId, relationshipScore, interactionFrequency, lastInteractionDaysAgo, totalInteractions, averageResponseTime, calculatedAt) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO ${this.tableName} (id, personId, relationshipScore, interactionFrequency, lastInteractionDaysAgo, totalInteractions, averageResponseTime, inboundMessages, outboundMessages, reciprocity, initiationRate, myReplyTime, theirReplyTime, breakdown, profileVersion, connectivity, scoreBase, scoreMultiplier, profileTier, calculatedAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         personScore.personId,
@@ -89,14 +161,26 @@ export class PersonScoreDAO extends BaseDAO<PersonScore> {
         personScore.lastInteractionDaysAgo,
         personScore.totalInteractions,
         personScore.averageResponseTime || null,
-        now
+        personScore.inboundMessages ?? 0,
+        personScore.outboundMessages ?? 0,
+        personScore.reciprocity ?? null,
+        personScore.initiationRate ?? null,
+        personScore.myReplyTime ?? null,
+        personScore.theirReplyTime ?? null,
+        personScore.breakdown ? this.stringifyJsonField(personScore.breakdown) : null,
+        personScore.profileVersion ?? null,
+        personScore.connectivity ?? null,
+        personScore.scoreBase ?? null,
+        personScore.scoreMultiplier ?? null,
+        personScore.profileTier ?? null,
+        calculatedAt
       ]
     );
 
     return {
       ...personScore,
       id,
-      calculatedAt: new Date(now),
+      calculatedAt: new Date(calculatedAt),
     };
   }
 
@@ -107,11 +191,15 @@ export class PersonScoreDAO extends BaseDAO<PersonScore> {
     const existing = await this.findById(id);
     if (!existing) return null;
 
-    const now = this.getNow();
+    const calculatedAt = updates.calculatedAt ? updates.calculatedAt.toISOString() : this.getNow();
+    const breakdown = updates.breakdown ?? existing.breakdown;
     
+    // Message signals can legitimately become unknown again, so an explicit undefined clears them
     await db.runAsync(
       `UPDATE ${this.tableName} 
-       SET personId = ?, relationshipScore = ?, interactionFrequency = ?, lastInteractionDaysAgo = ?, totalInteractions = ?, averageResponseTime = ?, calculatedAt = ?
+       SET personId = ?, relationshipScore = ?, interactionFrequency = ?, lastInteractionDaysAgo = ?, totalInteractions = ?, averageResponseTime = ?,
+           inboundMessages = ?, outboundMessages = ?, reciprocity = ?, initiationRate = ?, myReplyTime = ?, theirReplyTime = ?, breakdown = ?, profileVersion = ?,
+           connectivity = ?, scoreBase = ?, scoreMultiplier = ?, profileTier = ?, calculatedAt = ?
        WHERE id = ?`,
       [
         updates.personId ?? existing.personId,
@@ -120,7 +208,19 @@ export class PersonScoreDAO extends BaseDAO<PersonScore> {
         updates.lastInteractionDaysAgo ?? existing.lastInteractionDaysAgo,
         updates.totalInteractions ?? existing.totalInteractions,
         updates.averageResponseTime ?? existing.averageResponseTime ?? null,
-        now,
+        updates.inboundMessages ?? existing.inboundMessages ?? 0,
+        updates.outboundMessages ?? existing.outboundMessages ?? 0,
+        ('reciprocity' in updates ? updates.reciprocity : existing.reciprocity) ?? null,
+        ('initiationRate' in updates ? updates.initiationRate : existing.initiationRate) ?? null,
+        ('myReplyTime' in updates ? updates.myReplyTime : existing.myReplyTime) ?? null,
+        ('theirReplyTime' in updates ? updates.theirReplyTime : existing.theirReplyTime) ?? null,
+        breakdown ? this.stringifyJsonField(breakdown) : null,
+        updates.profileVersion ?? existing.profileVersion ?? null,
+        updates.connectivity ?? existing.connectivity ?? null,
+        updates.scoreBase ?? existing.scoreBase ?? null,
+        updates.scoreMultiplier ?? existing.scoreMultiplier ?? null,
+        updates.profileTier ?? existing.profileTier ?? null,
+        calculatedAt,
         id
       ]
     );
@@ -175,4 +275,220 @@ export class PersonScoreDAO extends BaseDAO<PersonScore> {
 
     return personScore;
   }
+
+  /**
+   * Store today's score for everyone; a later run on the same day replaces it
+   */
+  async recordSnapshots(date: Date = new Date()): Promise<void> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return;
+
+    await db.runAsync(
+      `INSERT OR REPLACE INTO person_score_snapshots (personId, day, relationshipScore, interactionFrequency, connectivity, reciprocity, metrics, createdAt)
+       SELECT personId, ?, relationshipScore, interactionFrequency, connectivity, reciprocity, json_extract(breakdown, '$.metrics'), ?
+       FROM ${this.tableName}`,
+      [toDayKey(date), this.getNow()]
+    );
+  }
+
+  /**
+   * People whose stored score can't simply be decayed: marked dirty by the
+   * change triggers, never scored, scored with another profile version or
+   * before the last run, or with an interaction or message that left the
+   * scoring window since they were scored
+   */
+  async findStalePersonIds(lastRunAt: Date, profileVersion: number, windowStart: Date, windowDays: number): Promise<Set<string>> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return new Set();
+
+    const scoredWindowStart = `strftime('%Y-%m-%dT%H:%M:%fZ', s.calculatedAt, '-${windowDays} days')`;
+    const rows = await db.getAllAsync<{ personId: string }>(
+      `SELECT personId FROM score_dirty_persons
+       UNION
+       SELECT p.id FROM persons p LEFT JOIN ${this.tableName} s ON s.personId = p.id WHERE s.id IS NULL
+       UNION
+       SELECT s.personId FROM ${this.tableName} s JOIN persons p ON p.id = s.personId
+       WHERE s.profileVersion IS NOT ? OR s.calculatedAt != ?
+         OR s.connectivity IS NULL OR s.scoreBase IS NULL OR s.scoreMultiplier IS NULL
+       UNION
+       SELECT i.personId FROM interactions i JOIN ${this.tableName} s ON s.personId = i.personId
+       WHERE i.date < ? AND i.date >= ${scoredWindowStart}
+       UNION
+       SELECT tp.personId FROM messages m
+       JOIN thread_participants tp ON tp.threadId = m.threadId
+       JOIN ${this.tableName} s ON s.personId = tp.personId
+       WHERE m.sentAt < ? AND m.sentAt >= ${scoredWindowStart}`,
+      [profileVersion, lastRunAt.toISOString(), windowStart.toISOString(), windowStart.toISOString()]
+    );
+    return new Set(rows.map(row => row.personId));
+  }
+
+  /**
+   * Scores whose days since last touch moved on since they were stored
+   */
+  async findLastTouchChanges(now: Date = new Date()): Promise<LastTouchChange[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    return await db.getAllAsync<LastTouchChange>(
+      `SELECT s.personId, s.profileTier, s.lastInteractionDaysAgo as previousDays,
+         COALESCE(CAST(julianday(?) - julianday(MAX(i.date)) AS INTEGER), 999) as daysAgo
+       FROM ${this.tableName} s LEFT JOIN interactions i ON i.personId = s.personId
+       GROUP BY s.personId
+       HAVING daysAgo != previousDays`,
+      [now.toISOString()]
+    );
+  }
+
+  /**
+   * Age every score last computed at since to now in one statement.
+   *
+   * Without new interactions only connectivity and days since last touch move
+   * (ScoreJob recomputes anyone crossing a recency step), so the score is
+   * rebuilt from the stored base points and multiplier. The breakdown follows:
+   * connectivity is always its last points entry and recency its first factor.
+   */
+  async decayScores(options: ScoreDecayOptions): Promise<number> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return 0;
+
+    const { since, now, decayFactors, fallbackFactor, connectivityPoints } = options;
+    const tiers = Object.keys(decayFactors);
+    const factor = tiers.length > 0
+      ? `CASE s.profileTier ${tiers.map(() => 'WHEN ? THEN ?').join(' ')} ELSE ? END`
+      : '?';
+    const factorParams = [...tiers.flatMap(tier => [tier, decayFactors[tier]]), fallbackFactor];
+    const uncappedScore = 'CAST(ROUND((decayed.scoreBase + decayed.connectivityPoints) * decayed.scoreMultiplier) AS INTEGER)';
+
+    const result = await db.runAsync(
+      `UPDATE ${this.tableName}
+       SET connectivity = decayed.connectivity,
+           relationshipScore = MIN(${uncappedScore}, 100),
+           lastInteractionDaysAgo = decayed.daysAgo,
+           breakdown = json_set(breakdown,
+             '$.metrics.connectivity', decayed.connectivity,
+             '$.metrics.days_since_last_touch', decayed.daysAgo,
+             '$.points[#-1].points', decayed.connectivityPoints,
+             '$.uncappedScore', ${uncappedScore},
+             '$.factors[0].detail', CASE
+               WHEN decayed.daysAgo >= 999 THEN 'Never in touch'
+               WHEN decayed.daysAgo = 1 THEN 'Last in touch 1 day ago'
+               ELSE 'Last in touch ' || decayed.daysAgo || ' days ago'
+             END),
+           calculatedAt = ?
+       FROM (
+         SELECT aged.*, ROUND(aged.connectivity * ?, 1) as connectivityPoints
+         FROM (
+           SELECT s.personId, s.scoreBase, s.scoreMultiplier,
+             s.connectivity * ${factor} as connectivity,
+             COALESCE((SELECT CAST(julianday(?) - julianday(MAX(i.date)) AS INTEGER) FROM interactions i WHERE i.personId = s.personId), 999) as daysAgo
+           FROM ${this.tableName} s
+           WHERE s.calculatedAt = ? AND s.connectivity IS NOT NULL AND s.scoreBase IS NOT NULL AND s.scoreMultiplier IS NOT NULL
+         ) aged
+       ) decayed
+       WHERE ${this.tableName}.personId = decayed.personId AND ${this.tableName}.calculatedAt = ?`,
+      [now.toISOString(), connectivityPoints, ...factorParams, now.toISOString(), since.toISOString(), since.toISOString()]
+    );
+    return result.changes;
+  }
+
+  /**
+   * Clear a dirty mark, unless it was set again after the recompute started
+   */
+  async clearDirty(personId: string, startedAt: Date): Promise<void> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return;
+    await db.runAsync(
+      `DELETE FROM score_dirty_persons WHERE personId = ? AND markedAt <= ?`,
+      [personId, startedAt.toISOString()]
+    );
+  }
+
+  async getSnapshots(personId: string, from: Date, to: Date = new Date()): Promise<PersonScoreSnapshot[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const rows = await db.getAllAsync<PersonScoreSnapshotRow>(
+      `SELECT * FROM person_score_snapshots WHERE personId = ? AND day >= ? AND day <= ? ORDER BY day ASC`,
+      [personId, toDayKey(from), toDayKey(to)]
+    );
+    return rows.map(row => this.mapRowToSnapshot(row));
+  }
+
+  /**
+   * Score series per person since a date, without metrics, for list sparklines
+   */
+  async getScoreSeriesSince(from: Date, personIds?: string[]): Promise<Map<string, number[]>> {
+    const series = new Map<string, number[]>();
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return series;
+    if (personIds && personIds.length === 0) return series;
+
+    const personFilter = personIds ? `AND personId IN (${personIds.map(() => '?').join(', ')})` : '';
+    const rows = await db.getAllAsync<{ personId: string; relationshipScore: number }>(
+      `SELECT personId, relationshipScore FROM person_score_snapshots
+       WHERE day >= ? ${personFilter}
+       ORDER BY personId, day ASC`,
+      [toDayKey(from), ...(personIds ?? [])]
+    );
+
+    for (const row of rows) {
+      const values = series.get(row.personId) ?? [];
+      values.push(row.relationshipScore);
+      series.set(row.personId, values);
+    }
+    return series;
+  }
+
+  async getDailyAverages(from: Date): Promise<DailyScoreAverage[]> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return [];
+    const rows = await db.getAllAsync<DailyScoreAverage>(
+      `SELECT day, AVG(relationshipScore) as averageScore, COUNT(*) as people
+       FROM person_score_snapshots WHERE day >= ?
+       GROUP BY day ORDER BY day ASC`,
+      [toDayKey(from)]
+    );
+    return rows;
+  }
+
+  /**
+   * Thin out old snapshots: daily rows while recent, then the last row of each
+   * week, and nothing beyond the weekly window
+   */
+  async pruneSnapshots(retention: ScoreSnapshotRetention = DEFAULT_SNAPSHOT_RETENTION, now: Date = new Date()): Promise<number> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return 0;
+
+    const dayMs = 24 * 60 * 60 * 1000;
+    const dailyCutoff = toDayKey(new Date(now.getTime() - retention.dailyDays * dayMs));
+    const weeklyCutoff = toDayKey(new Date(now.getTime() - retention.weeklyDays * dayMs));
+
+    const expired = await db.runAsync(
+      `DELETE FROM person_score_snapshots WHERE day < ?`,
+      [weeklyCutoff]
+    );
+    const thinned = await db.runAsync(
+      `DELETE FROM person_score_snapshots
+       WHERE day < ?
+         AND day NOT IN (
+           SELECT MAX(s.day) FROM person_score_snapshots s
+           WHERE s.personId = person_score_snapshots.personId AND s.day < ?
+           GROUP BY strftime('%Y-%W', s.day)
+         )`,
+      [dailyCutoff, dailyCutoff]
+    );
+
+    return expired.changes + thinned.changes;
+  }
+
+  private mapRowToSnapshot(row: PersonScoreSnapshotRow): PersonScoreSnapshot {
+    return {
+      personId: row.personId,
+      day: row.day,
+      relationshipScore: row.relationshipScore,
+      interactionFrequency: row.interactionFrequency ?? undefined,
+      connectivity: row.connectivity ?? undefined,
+      reciprocity: row.reciprocity ?? undefined,
+      metrics: this.parseJsonField<ScoreMetrics>(row.metrics) ?? undefined,
+    };
+  }
 }
\ No newline at end of file
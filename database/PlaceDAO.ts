@@ -1,5 +1,6 @@
 import { BaseDAO } from './BaseDAO';
-import { Place, PlaceWithStats, normalizePlaceName } from '../models/Place';
+import { Place, PlaceGeocodeStatus, PlacePersonVisits, PlaceWithStats, hasCoordinates, normalizePlaceName } from '../models/Place';
+import { haversineDistanceMeters } from '../lib/utils';
 
 interface PlaceDB {
   id: string;
@@ -9,10 +10,21 @@ interface PlaceDB {
   latitude: number | null;
   longitude: number | null;
   category: string | null;
+  notes: string | null;
+  geocodeStatus: string | null;
+  geocodeAttempts: number | null;
+  geocodeNextAttemptAt: string | null;
   createdAt: string;
   updatedAt: string;
 }
 
+export interface PlaceMergeResult {
+  canonicalId: string;
+  interactionsMoved: number;
+  meetingsLinked: number;
+  placesRemoved: number;
+}
+
 export class PlaceDAO extends BaseDAO<PlaceDB> {
   constructor() {
     super('places');
@@ -27,6 +39,9 @@ export class PlaceDAO extends BaseDAO<PlaceDB> {
       latitude: db.latitude || 0,
       longitude: db.longitude || 0,
       category: (db.category || 'other') as Place['category'],
+      notes: db.notes || undefined,
+      // Rows from before geocoding was tracked count as resolved if they already have coordinates
+      geocodeStatus: (db.geocodeStatus as PlaceGeocodeStatus) || (db.latitude || db.longitude ? 'resolved' : 'pending'),
       createdAt: new Date(db.createdAt),
       updatedAt: new Date(db.updatedAt),
     };
@@ -41,8 +56,8 @@ export class PlaceDAO extends BaseDAO<PlaceDB> {
     const normalizedName = normalizePlaceName(place.name);
     
     await this.db.runAsync(
-      `INSERT INTO places (id, name, normalizedName, address, latitude, longitude, category, createdAt, updatedAt) 
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      `INSERT INTO places (id, name, normalizedName, address, latitude, longitude, category, notes, geocodeStatus, createdAt, updatedAt) 
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
       [
         id,
         place.name,
@@ -51,6 +66,8 @@ export class PlaceDAO extends BaseDAO<PlaceDB> {
         place.latitude || null,
         place.longitude || null,
         place.category || null,
+        place.notes || null,
+        place.geocodeStatus || (place.latitude || place.longitude ? 'resolved' : 'pending'),
         now,
         now
       ]
@@ -88,6 +105,10 @@ export class PlaceDAO extends BaseDAO<PlaceDB> {
       fields.push('category = ?');
       values.push(place.category || null);
     }
+    if (place.notes !== undefined) {
+      fields.push('notes = ?');
+      values.push(place.notes || null);
+    }
 
     if (fields.length === 0) return this.getPlaceById(id);
 
@@ -170,6 +191,71 @@ export class PlaceDAO extends BaseDAO<PlaceDB> {
     }));
   }
 
+  /**
+   * Places with coordinates within `radiusMeters` of a point, nearest first
+   */
+  async getPlacesNear(latitude: number, longitude: number, radiusMeters: number): Promise<(Place & { distance: number })[]> {
+    if (!this.db || this.isWebPlatform) return [];
+    // Bounding box in SQL, exact distance in JS
+    const latDelta = radiusMeters / 111320;
+    const lngDelta = radiusMeters / (111320 * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+    const results = await this.db.getAllAsync<PlaceDB>(
+      `SELECT * FROM places
+       WHERE latitude BETWEEN ? AND ? AND longitude BETWEEN ? AND ?
+         AND NOT (latitude = 0 AND longitude = 0)`,
+      [latitude - latDelta, latitude + latDelta, longitude - lngDelta, longitude + lngDelta]
+    );
+
+    return (results || [])
+      .map(r => {
+        const place = this.dbToPlace(r);
+        return { ...place, distance: haversineDistanceMeters(latitude, longitude, place.latitude, place.longitude) };
+      })
+      .filter(place => place.distance <= radiusMeters)
+      .sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * People met at any of the given places, most visits first.
+   * Calendar meetings reach a place through meeting_places rather than an interaction's placeId,
+   * so attendees of meetings there that have taken place count once per meeting.
+   */
+  async getPeopleMetAt(placeIds: string[]): Promise<PlacePersonVisits[]> {
+    if (!this.db || this.isWebPlatform || placeIds.length === 0) return [];
+    const placeholders = placeIds.map(() => '?').join(', ');
+    const results = await this.db.getAllAsync<{
+      personId: string;
+      firstName: string;
+      lastName: string;
+      visitCount: number;
+      lastVisit: string;
+    }>(
+      `SELECT v.personId, pr.firstName, pr.lastName, COUNT(*) as visitCount, MAX(v.date) as lastVisit
+       FROM (
+         SELECT i.personId, i.date FROM interactions i
+         WHERE i.placeId IN (${placeholders})
+           AND (i.meetingId IS NULL OR i.meetingId NOT IN (SELECT meetingId FROM meeting_places WHERE placeId IN (${placeholders})))
+         UNION ALL
+         SELECT ma.personId, m.date FROM meeting_attendees ma
+         JOIN meetings m ON m.id = ma.meetingId
+         WHERE m.id IN (SELECT meetingId FROM meeting_places WHERE placeId IN (${placeholders}))
+           AND IFNULL(m.status, 'confirmed') != 'cancelled'
+           AND m.date <= ?
+       ) v
+       JOIN persons pr ON pr.id = v.personId
+       GROUP BY v.personId
+       ORDER BY visitCount DESC, lastVisit DESC`,
+      [...placeIds, ...placeIds, ...placeIds, this.getNow()]
+    );
+
+    return (results || []).map(r => ({
+      personId: r.personId,
+      name: `${r.firstName} ${r.lastName}`.trim(),
+      visitCount: r.visitCount,
+      lastVisit: new Date(r.lastVisit),
+    }));
+  }
+
   async findOrCreateByNormalizedName(name: string, category: Place['category'] = 'other'): Promise<Place> {
     if (!this.db || this.isWebPlatform) {
       throw new Error('Database not available');
@@ -185,6 +271,16 @@ export class PlaceDAO extends BaseDAO<PlaceDB> {
     if (existing) {
       return this.dbToPlace(existing);
     }
+
+    // The name may belong to a place that was merged into another
+    const aliased = await this.db.getFirstAsync<PlaceDB>(
+      `SELECT p.* FROM place_aliases a JOIN places p ON p.id = a.placeId WHERE a.normalizedName = ? LIMIT 1`,
+      [normalizedName]
+    );
+
+    if (aliased) {
+      return this.dbToPlace(aliased);
+    }
     
     return this.create({
       name,
@@ -195,19 +291,162 @@ export class PlaceDAO extends BaseDAO<PlaceDB> {
     });
   }
 
-  async getClusteredPlaces(): Promise<{ [normalizedName: string]: Place[] }> {
-    if (!this.db || this.isWebPlatform) return {};
-    
-    const places = await this.getAllPlaces();
-    const clusters: { [normalizedName: string]: Place[] } = {};
-    
-    places.forEach(place => {
-      if (!clusters[place.normalizedName]) {
-        clusters[place.normalizedName] = [];
+  /**
+   * Places still waiting for coordinates whose retry time has come, oldest first
+   */
+  async getPendingGeocode(limit: number = 20): Promise<(Place & { geocodeAttempts: number })[]> {
+    if (!this.db || this.isWebPlatform) return [];
+    const results = await this.db.getAllAsync<PlaceDB>(
+      `SELECT * FROM places
+       WHERE IFNULL(geocodeStatus, 'pending') = 'pending'
+         AND (latitude IS NULL OR latitude = 0) AND (longitude IS NULL OR longitude = 0)
+         AND (geocodeNextAttemptAt IS NULL OR geocodeNextAttemptAt <= ?)
+       ORDER BY createdAt
+       LIMIT ?`,
+      [this.getNow(), limit]
+    );
+    return (results || []).map(r => ({ ...this.dbToPlace(r), geocodeAttempts: r.geocodeAttempts || 0 }));
+  }
+
+  /**
+   * Store coordinates and mark how they were obtained
+   */
+  async setCoordinates(
+    id: string,
+    latitude: number,
+    longitude: number,
+    status: Extract<PlaceGeocodeStatus, 'resolved' | 'manual'>,
+    address?: string
+  ): Promise<Place | null> {
+    if (!this.db || this.isWebPlatform) return null;
+    await this.db.runAsync(
+      `UPDATE places
+       SET latitude = ?, longitude = ?, address = COALESCE(address, ?), geocodeStatus = ?, geocodeNextAttemptAt = NULL, updatedAt = ?
+       WHERE id = ?`,
+      [latitude, longitude, address || null, status, this.getNow(), id]
+    );
+    return this.getPlaceById(id);
+  }
+
+  /**
+   * Record a failed lookup; the place is retried at nextAttemptAt, or given up on when null
+   */
+  async recordGeocodeFailure(id: string, attempts: number, nextAttemptAt: Date | null): Promise<void> {
+    if (!this.db || this.isWebPlatform) return;
+    await this.db.runAsync(
+      `UPDATE places SET geocodeStatus = ?, geocodeAttempts = ?, geocodeNextAttemptAt = ?, updatedAt = ? WHERE id = ?`,
+      [nextAttemptAt ? 'pending' : 'failed', attempts, nextAttemptAt ? nextAttemptAt.toISOString() : null, this.getNow(), id]
+    );
+  }
+
+  /**
+   * Put a place back in the geocoding queue for an immediate retry
+   */
+  async requeueGeocode(id: string): Promise<void> {
+    if (!this.db || this.isWebPlatform) return;
+    await this.db.runAsync(
+      `UPDATE places SET geocodeStatus = 'pending', geocodeAttempts = 0, geocodeNextAttemptAt = NULL, updatedAt = ? WHERE id = ?`,
+      [this.getNow(), id]
+    );
+  }
+
+  /**
+   * How many interactions and meetings reference each place
+   */
+  async getUsageCounts(): Promise<Map<string, number>> {
+    const counts = new Map<string, number>();
+    if (!this.db || this.isWebPlatform) return counts;
+    const results = await this.db.getAllAsync<{ placeId: string; count: number }>(
+      `SELECT placeId, COUNT(*) as count FROM (
+         SELECT placeId FROM interactions WHERE placeId IS NOT NULL
+         UNION ALL
+         SELECT placeId FROM meeting_places
+       )
+       GROUP BY placeId`
+    );
+    for (const row of results || []) {
+      counts.set(row.placeId, row.count);
+    }
+    return counts;
+  }
+
+  /**
+   * Re-point everything referencing the duplicates at the canonical place, then delete them.
+   * Their names become aliases so later imports of the same location resolve to the canonical place.
+   */
+  async mergePlaces(canonicalId: string, duplicateIds: string[]): Promise<PlaceMergeResult> {
+    const db = this.db;
+    if (!db || this.isWebPlatform) {
+      throw new Error('Database not available');
+    }
+
+    const canonical = await this.getPlaceById(canonicalId);
+    if (!canonical) {
+      throw new Error('Place to keep no longer exists');
+    }
+
+    const duplicates = (await Promise.all(duplicateIds.map(id => this.getPlaceById(id))))
+      .filter((place): place is Place => place !== null);
+    const result: PlaceMergeResult = { canonicalId, interactionsMoved: 0, meetingsLinked: 0, placesRemoved: 0 };
+    if (duplicates.length === 0) return result;
+
+    const ids = duplicates.map(place => place.id);
+    const placeholders = ids.map(() => '?').join(', ');
+    const now = this.getNow();
+    // Fill a missing pin from the best located duplicate; manual pins beat geocoded ones
+    const pinSource = hasCoordinates(canonical)
+      ? null
+      : duplicates.find(place => place.geocodeStatus === 'manual' && hasCoordinates(place))
+        ?? duplicates.find(place => hasCoordinates(place));
+
+    await db.withTransactionAsync(async () => {
+      result.interactionsMoved = (await db.runAsync(
+        `UPDATE interactions SET placeId = ?, updatedAt = ? WHERE placeId IN (${placeholders})`,
+        [canonicalId, now, ...ids]
+      )).changes;
+
+      // meeting_places is keyed on (meetingId, placeId): copy links the canonical place lacks, then drop the rest
+      result.meetingsLinked = (await db.runAsync(
+        `INSERT OR IGNORE INTO meeting_places (meetingId, placeId)
+         SELECT meetingId, ? FROM meeting_places WHERE placeId IN (${placeholders})`,
+        [canonicalId, ...ids]
+      )).changes;
+      await db.runAsync(`DELETE FROM meeting_places WHERE placeId IN (${placeholders})`, ids);
+
+      await db.runAsync(
+        `UPDATE place_aliases SET placeId = ? WHERE placeId IN (${placeholders})`,
+        [canonicalId, ...ids]
+      );
+      for (const duplicate of duplicates) {
+        if (duplicate.normalizedName === canonical.normalizedName) continue;
+        await db.runAsync(
+          `INSERT OR REPLACE INTO place_aliases (normalizedName, placeId, createdAt) VALUES (?, ?, ?)`,
+          [duplicate.normalizedName, canonicalId, now]
+        );
       }
-      clusters[place.normalizedName].push(place);
+
+      await db.runAsync(
+        `UPDATE places
+         SET address = COALESCE(address, ?), latitude = COALESCE(?, latitude), longitude = COALESCE(?, longitude),
+             geocodeStatus = COALESCE(?, geocodeStatus), updatedAt = ?
+         WHERE id = ?`,
+        [
+          duplicates.find(place => place.address)?.address || null,
+          pinSource ? pinSource.latitude : null,
+          pinSource ? pinSource.longitude : null,
+          pinSource ? pinSource.geocodeStatus || 'resolved' : null,
+          now,
+          canonicalId
+        ]
+      );
+
+      result.placesRemoved = (await db.runAsync(
+        `DELETE FROM places WHERE id IN (${placeholders})`,
+        ids
+      )).changes;
     });
-    
-    return clusters;
+
+    return result;
   }
+
 }
\ No newline at end of file
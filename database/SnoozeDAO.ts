@@ -0,0 +1,72 @@
+import { BaseDAO } from './BaseDAO';
+import { Snooze } from '../models/Snooze';
+
+interface SnoozeDB {
+  id: string;
+  personId: string;
+  until: string;
+  createdAt: string;
+}
+
+export class SnoozeDAO extends BaseDAO<SnoozeDB> {
+  constructor() {
+    super('snoozes');
+  }
+
+  private dbToSnooze(db: SnoozeDB): Snooze {
+    return {
+      id: db.id,
+      personId: db.personId,
+      until: new Date(db.until),
+      createdAt: new Date(db.createdAt),
+    };
+  }
+
+  /**
+   * Snooze a person until the given date, replacing any snooze they already have
+   */
+  async snooze(personId: string, until: Date): Promise<Snooze | null> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return null;
+    await db.runAsync(
+      `INSERT INTO snoozes (id, personId, until, createdAt) VALUES (?, ?, ?, ?)
+       ON CONFLICT(personId) DO UPDATE SET until = excluded.until, createdAt = excluded.createdAt`,
+      [this.generateId(), personId, until.toISOString(), this.getNow()]
+    );
+    return this.findActiveByPerson(personId);
+  }
+
+  async unsnooze(personId: string): Promise<boolean> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return false;
+    const result = await db.runAsync(`DELETE FROM snoozes WHERE personId = ?`, [personId]);
+    return result.changes > 0;
+  }
+
+  async findActiveByPerson(personId: string, now: Date = new Date()): Promise<Snooze | null> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return null;
+    const result = await db.getFirstAsync<SnoozeDB>(
+      `SELECT * FROM snoozes WHERE personId = ? AND until > ?`,
+      [personId, now.toISOString()]
+    );
+    return result ? this.dbToSnooze(result) : null;
+  }
+
+  async getActivePersonIds(now: Date = new Date()): Promise<Set<string>> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return new Set();
+    const results = await db.getAllAsync<{ personId: string }>(
+      `SELECT personId FROM snoozes WHERE until > ?`,
+      [now.toISOString()]
+    );
+    return new Set((results || []).map(r => r.personId));
+  }
+
+  async pruneExpired(now: Date = new Date()): Promise<number> {
+    const db = this.ensureDatabase();
+    if (!db || this.isWebPlatform) return 0;
+    const result = await db.runAsync(`DELETE FROM snoozes WHERE until <= ?`, [now.toISOString()]);
+    return result.changes;
+  }
+}
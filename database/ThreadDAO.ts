@@ -83,6 +83,32 @@ export class ThreadDAO extends BaseDAO<Thread> {
     };
   }
 
+  /**
+   * Insert a thread under its provider ID, or move lastMessageAt forward if it exists
+   */
+  async upsert(thread: Pick<Thread, 'id' | 'lastMessageAt'>): Promise<void> {
+    if (!this.db || this.isWebPlatform) {
+      throw new Error('Database not available');
+    }
+
+    const now = this.getNow();
+
+    await this.db.runAsync(
+      `INSERT INTO ${this.tableName} (id, subject, lastMessageAt, createdAt, updatedAt) 
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(id) DO UPDATE SET
+         lastMessageAt = MAX(lastMessageAt, excluded.lastMessageAt),
+         updatedAt = excluded.updatedAt`,
+      [
+        thread.id,
+        'Thread',
+        thread.lastMessageAt.toISOString(),
+        now,
+        now
+      ]
+    );
+  }
+
   async update(id: string, updates: Partial<Omit<Thread, 'id' | 'createdAt' | 'updatedAt'>>): Promise<Thread | null> {
     if (!this.db || this.isWebPlatform) return null;
 
@@ -6,24 +6,59 @@
  * - No external services or cloud processing
  * - Uses local SQLite data for all calculations
  * - Implements exponential decay for connectivity scoring
+ *
+ * Incremental Runs:
+ * - Only people whose inputs changed, or whose score moved in a way decay
+ *   can't express, are recomputed from their interactions and messages
+ * - Everyone else is aged in one SQL pass from the stored connectivity
  */
 
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { PersonDAO } from '@/database/PersonDAO';
 import { InteractionDAO } from '@/database/InteractionDAO';
-import { PersonScoreDAO } from '@/database/PersonScoreDAO';
+import { LastTouchChange, PersonScoreDAO } from '@/database/PersonScoreDAO';
+import { MeetingDAO } from '@/database/MeetingDAO';
+import { MessageDAO } from '@/database/MessageDAO';
+import { ThreadDAO } from '@/database/ThreadDAO';
+import { AnnotationDAO } from '@/database/AnnotationDAO';
+import { ANNOTATION_TYPES } from '@/models/Annotation';
 import { Interaction } from '@/models/Interaction';
+import { Message } from '@/models/Message';
+import { PersonScore, ScoreBreakdown, ScoreFactor, ScoreMetrics, ScorePoints, ScoreTopInteraction } from '@/models/PersonScore';
+import { DEFAULT_SCORING_TIER, DEFAULT_TIER_PROFILES, ScoringConfig, ScoringProfile } from '@/models/ScoringProfile';
 import { Database } from '@/database/Database';
 
-export interface ScoreMetrics {
-  emails_90d: number;
-  meetings_90d: number;
-  notes_90d: number;
-  reply_latency_median: number | null;
-  days_since_last_touch: number;
-  reciprocity: number;
-  connectivity: number;
+interface MessageSignals {
+  inbound: number;
+  outbound: number;
+  myInitiations: number;
+  theirInitiations: number;
+  myReplyHours: number[];
+  theirReplyHours: number[];
 }
 
+// Routine recurring meetings say less about a relationship than a one-off meeting
+export const RECURRING_MEETING_WEIGHT = 0.4;
+
+// A message this long after the previous one starts a new conversation rather than replying
+const CONVERSATION_GAP_MS = 7 * 24 * 60 * 60 * 1000;
+// Below this many messages a single unanswered email would swing reciprocity to zero
+const MIN_MESSAGES_FOR_RECIPROCITY = 3;
+const TOP_INTERACTIONS_IN_BREAKDOWN = 3;
+
+// Base points per interaction in the last 90 days
+const INTERACTION_POINTS = {
+  email: 2,
+  meeting: 5,
+  note: 3, // Messages, calls, social and other
+};
+const CONNECTIVITY_POINTS = 0.5;
+
+const SCORING_CONFIG_KEY = 'scoring_profiles';
+// Every score row is stamped with the run time, so the next run knows what it can decay
+const LAST_RUN_KEY = 'score_job_last_run';
+const SCORING_WINDOW_DAYS = 90;
+
 export class ScoreJob {
   private static instance: ScoreJob;
   private isRunning = false;
@@ -37,6 +72,54 @@ export class ScoreJob {
     return ScoreJob.instance;
   }
 
+  /**
+   * Scoring profiles per tier; tiers the user never edited use the built-in defaults
+   */
+  static async getScoringConfig(): Promise<ScoringConfig> {
+    const defaults: ScoringConfig = { version: 1, updatedAt: new Date(0).toISOString(), profiles: { ...DEFAULT_TIER_PROFILES } };
+    try {
+      const raw = await AsyncStorage.getItem(SCORING_CONFIG_KEY);
+      if (!raw) return defaults;
+      const stored: ScoringConfig = JSON.parse(raw);
+      return { ...stored, profiles: { ...DEFAULT_TIER_PROFILES, ...stored.profiles } };
+    } catch (error) {
+      console.warn('[ScoreJob] Failed to read scoring profiles:', error);
+      return defaults;
+    }
+  }
+
+  /**
+   * Save one tier's profile and bump the config version; pass null to restore the default
+   */
+  static async setScoringProfile(tier: string, profile: ScoringProfile | null): Promise<ScoringConfig> {
+    const current = await ScoreJob.getScoringConfig();
+    const profiles = { ...current.profiles };
+    if (profile) {
+      profiles[tier] = profile;
+    } else {
+      profiles[tier] = DEFAULT_TIER_PROFILES[tier] ?? DEFAULT_TIER_PROFILES[DEFAULT_SCORING_TIER];
+    }
+
+    const config: ScoringConfig = {
+      version: current.version + 1,
+      updatedAt: new Date().toISOString(),
+      profiles,
+    };
+    await AsyncStorage.setItem(SCORING_CONFIG_KEY, JSON.stringify(config));
+    console.log(`[ScoreJob] Scoring profile for ${tier} saved, now version ${config.version}`);
+    return config;
+  }
+
+  private static async getLastRunAt(): Promise<Date | null> {
+    try {
+      const raw = await AsyncStorage.getItem(LAST_RUN_KEY);
+      return raw ? new Date(raw) : null;
+    } catch (error) {
+      console.warn('[ScoreJob] Failed to read last run time:', error);
+      return null;
+    }
+  }
+
   /**
    * Run Score Computation - Device-Only Processing
    * 
@@ -45,11 +128,13 @@ export class ScoreJob {
    * - Uses only local SQLite database
    * - No external API calls or cloud processing
    * - Implements exponential decay algorithm locally
+   *
+   * Recomputes only stale people unless full is set, or on the first run.
    */
-  async run(): Promise<{ success: boolean; scoresComputed: number; error?: string }> {
+  async run(options: { full?: boolean } = {}): Promise<{ success: boolean; scoresComputed: number; scoresDecayed: number; error?: string }> {
     if (this.isRunning) {
       console.log('[ScoreJob] Score computation already in progress, skipping...');
-      return { success: false, scoresComputed: 0, error: 'Score job already running' };
+      return { success: false, scoresComputed: 0, scoresDecayed: 0, error: 'Score job already running' };
     }
 
     console.log('[ScoreJob] Starting device-only score computation...');
@@ -61,7 +146,7 @@ export class ScoreJob {
       
       if (Platform.OS === 'web') {
         console.log('[ScoreJob] Skipping score computation on web platform');
-        return { success: true, scoresComputed: 0, error: 'Skipped on web platform' };
+        return { success: true, scoresComputed: 0, scoresDecayed: 0, error: 'Skipped on web platform' };
       }
       
       const database = Database.getInstance();
@@ -86,28 +171,63 @@ export class ScoreJob {
       // Create DAOs after ensuring database is available
       const personDAO = new PersonDAO();
       const interactionDAO = new InteractionDAO();
-      // const messageDAO = new MessageDAO();
-      // const meetingDAO = new MeetingDAO();
+      const messageDAO = new MessageDAO();
+      const threadDAO = new ThreadDAO();
+      const meetingDAO = new MeetingDAO();
       const personScoreDAO = new PersonScoreDAO();
-
-      // Get all people
-      const people = await personDAO.findAll();
-      console.log(`[ScoreJob] Computing scores for ${people.length} people...`);
+      const recurringMeetingIds = await meetingDAO.findRecurringMeetingIds();
+      const scoringConfig = await ScoreJob.getScoringConfig();
+      const tiers = await this.loadTiers();
 
       let scoresComputed = 0;
       const now = new Date();
-      const ninetyDaysAgo = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
+      const ninetyDaysAgo = new Date(now.getTime() - SCORING_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+      const lastRunAt = options.full ? null : await ScoreJob.getLastRunAt();
+
+      const personIds = lastRunAt
+        ? await this.findPersonIdsToRecompute(personScoreDAO, { lastRunAt, scoringConfig, now, ninetyDaysAgo })
+        : (await personDAO.findAll()).map(person => person.id);
+      console.log(`[ScoreJob] Computing scores for ${personIds.length} people${lastRunAt ? ' with changes' : ''}...`);
+
+      for (const personId of personIds) {
+        const person = await personDAO.findById(personId);
+        if (!person) {
+          // Marked dirty and then deleted
+          await personScoreDAO.clearDirty(personId, now);
+          continue;
+        }
 
-      for (const person of people) {
         try {
-          const metrics = await this.computePersonMetrics(person.id, {
+          const tier = tiers.get(person.id);
+          const profileTier = tier && scoringConfig.profiles[tier] ? tier : DEFAULT_SCORING_TIER;
+          const profile = scoringConfig.profiles[profileTier];
+
+          const { metrics, interactions } = await this.computePersonMetrics(person.id, {
             interactionDAO,
+            messageDAO,
+            threadDAO,
+            recurringMeetingIds,
+            profile,
             now,
             ninetyDaysAgo
           });
 
-          const relationshipScore = this.calculateRelationshipScore(metrics);
+          const { score: relationshipScore, points, factors, uncappedScore, multiplier } = this.calculateRelationshipScore(metrics, profile);
           const interactionFrequency = this.calculateInteractionFrequency(metrics);
+          const breakdown: ScoreBreakdown = {
+            profile: { tier: profileTier, version: scoringConfig.version },
+            metrics,
+            points,
+            factors,
+            uncappedScore,
+            topInteractions: await this.findTopInteractions(interactions, {
+              meetingDAO,
+              recurringMeetingIds,
+              profile,
+              now,
+              ninetyDaysAgo
+            }),
+          };
 
           // Create or update person score
           const existingScore = await personScoreDAO.findByPersonId(person.id);
@@ -117,8 +237,12 @@ export class ScoreJob {
               relationshipScore,
               interactionFrequency,
               lastInteractionDaysAgo: metrics.days_since_last_touch,
-              totalInteractions: metrics.emails_90d + metrics.meetings_90d + metrics.notes_90d,
+              totalInteractions: metrics.emails_90d + metrics.meetings_90d + metrics.recurring_meetings_90d + metrics.notes_90d,
               averageResponseTime: metrics.reply_latency_median || undefined,
+              ...this.messageSignalFields(metrics),
+              ...this.decayFields(metrics, points, multiplier, profileTier),
+              breakdown,
+              profileVersion: scoringConfig.version,
               calculatedAt: now,
             });
           } else {
@@ -127,12 +251,17 @@ export class ScoreJob {
               relationshipScore,
               interactionFrequency,
               lastInteractionDaysAgo: metrics.days_since_last_touch,
-              totalInteractions: metrics.emails_90d + metrics.meetings_90d + metrics.notes_90d,
+              totalInteractions: metrics.emails_90d + metrics.meetings_90d + metrics.recurring_meetings_90d + metrics.notes_90d,
               averageResponseTime: metrics.reply_latency_median || undefined,
+              ...this.messageSignalFields(metrics),
+              ...this.decayFields(metrics, points, multiplier, profileTier),
+              breakdown,
+              profileVersion: scoringConfig.version,
               calculatedAt: now,
             });
           }
 
+          await personScoreDAO.clearDirty(person.id, now);
           scoresComputed++;
           console.log(`[ScoreJob] Computed score for ${person.firstName} ${person.lastName}: ${relationshipScore}`);
         } catch (error) {
@@ -140,13 +269,38 @@ export class ScoreJob {
         }
       }
 
-      console.log(`[ScoreJob] Score computation completed. Computed ${scoresComputed} scores.`);
-      return { success: true, scoresComputed };
+      // Everyone not recomputed still carries the last run's stamp and only needs aging
+      let scoresDecayed = 0;
+      if (lastRunAt) {
+        const decayFactors = this.decayFactors(scoringConfig, now.getTime() - lastRunAt.getTime());
+        scoresDecayed = await personScoreDAO.decayScores({
+          since: lastRunAt,
+          now,
+          decayFactors,
+          fallbackFactor: decayFactors[DEFAULT_SCORING_TIER],
+          connectivityPoints: CONNECTIVITY_POINTS,
+        });
+      }
+      await AsyncStorage.setItem(LAST_RUN_KEY, now.toISOString());
+
+      try {
+        await personScoreDAO.recordSnapshots(now);
+        const pruned = await personScoreDAO.pruneSnapshots();
+        if (pruned > 0) {
+          console.log(`[ScoreJob] Pruned ${pruned} old score snapshots`);
+        }
+      } catch (snapshotError) {
+        console.warn('[ScoreJob] Failed to update score snapshots:', snapshotError);
+      }
+
+      console.log(`[ScoreJob] Score computation completed. Computed ${scoresComputed} scores, decayed ${scoresDecayed}.`);
+      return { success: true, scoresComputed, scoresDecayed };
     } catch (error) {
       console.error('[ScoreJob] Score computation failed:', error);
       return {
         success: false,
         scoresComputed: 0,
+        scoresDecayed: 0,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     } finally {
@@ -161,11 +315,15 @@ export class ScoreJob {
     personId: string,
     daos: {
       interactionDAO: InteractionDAO;
+      messageDAO: MessageDAO;
+      threadDAO: ThreadDAO;
+      recurringMeetingIds: Set<string>;
+      profile: ScoringProfile;
       now: Date;
       ninetyDaysAgo: Date;
     }
-  ): Promise<ScoreMetrics> {
-    const { interactionDAO, now, ninetyDaysAgo } = daos;
+  ): Promise<{ metrics: ScoreMetrics; interactions: Interaction[] }> {
+    const { interactionDAO, messageDAO, threadDAO, recurringMeetingIds, profile, now, ninetyDaysAgo } = daos;
 
     // Get interactions in the last 90 days
     const interactions = await interactionDAO.getByPerson(personId);
@@ -177,7 +335,8 @@ export class ScoreJob {
 
     // Count meetings in last 90 days
     const meetingInteractions = recentInteractions.filter((i: Interaction) => i.type === 'meeting');
-    const meetings_90d = meetingInteractions.length;
+    const recurring_meetings_90d = meetingInteractions.filter((i: Interaction) => this.isRecurringMeeting(i, recurringMeetingIds)).length;
+    const meetings_90d = meetingInteractions.length - recurring_meetings_90d;
 
     // Count notes/calls in last 90 days
     const noteInteractions = recentInteractions.filter((i: Interaction) => 
@@ -192,143 +351,421 @@ export class ScoreJob {
       ? Math.floor((now.getTime() - lastInteraction.date.getTime()) / (24 * 60 * 60 * 1000))
       : 999;
 
-    // Calculate reply latency median (simplified - would need message threading in real app)
-    const reply_latency_median = this.calculateReplyLatency(emailInteractions);
-
-    // Calculate reciprocity (simplified - ratio of sent vs received)
-    const reciprocity = this.calculateReciprocity(recentInteractions);
+    // Who writes, who starts and how fast each side answers, from the actual threads
+    const signals = await this.collectMessageSignals(personId, messageDAO, threadDAO, ninetyDaysAgo);
+    const conversations = signals.myInitiations + signals.theirInitiations;
+    const initiation_rate = conversations > 0 ? signals.myInitiations / conversations : null;
+    const reply_latency_mine_median = this.median(signals.myReplyHours);
+    const reply_latency_theirs_median = this.median(signals.theirReplyHours);
+    const reply_latency_median = this.median([...signals.myReplyHours, ...signals.theirReplyHours]);
+    const reciprocity = this.calculateReciprocity(signals.inbound, signals.outbound, initiation_rate);
 
     // Calculate connectivity with exponential decay
-    const connectivity = this.calculateConnectivity(interactions, now);
+    const connectivity = this.calculateConnectivity(interactions, now, recurringMeetingIds, profile);
 
-    return {
+    const metrics: ScoreMetrics = {
       emails_90d,
       meetings_90d,
+      recurring_meetings_90d,
       notes_90d,
+      inbound_messages_90d: signals.inbound,
+      outbound_messages_90d: signals.outbound,
+      initiation_rate,
       reply_latency_median,
+      reply_latency_mine_median,
+      reply_latency_theirs_median,
       days_since_last_touch,
       reciprocity,
       connectivity
     };
+
+    return { metrics, interactions };
   }
 
   /**
-   * Calculate Reply Latency - Simplified Implementation
+   * Find People to Recompute - Everything Decay Can't Express
+   *
+   * Changed inputs, new people, profile edits and items leaving the 90-day
+   * window come from SQL; crossing a recency step depends on the profile, so
+   * that check runs here on the people whose days since last touch moved.
    */
-  private calculateReplyLatency(emailInteractions: Interaction[]): number | null {
-    if (emailInteractions.length < 2) return null;
-    
-    // Simplified: average time between consecutive email interactions
-    const latencies: number[] = [];
-    for (let i = 1; i < emailInteractions.length; i++) {
-      const timeDiff = emailInteractions[i-1].date.getTime() - emailInteractions[i].date.getTime();
-      const hours = timeDiff / (1000 * 60 * 60);
-      if (hours > 0 && hours < 168) { // Within a week
-        latencies.push(hours);
+  private async findPersonIdsToRecompute(
+    personScoreDAO: PersonScoreDAO,
+    options: { lastRunAt: Date; scoringConfig: ScoringConfig; now: Date; ninetyDaysAgo: Date }
+  ): Promise<string[]> {
+    const { lastRunAt, scoringConfig, now, ninetyDaysAgo } = options;
+    const personIds = await personScoreDAO.findStalePersonIds(
+      lastRunAt,
+      scoringConfig.version,
+      ninetyDaysAgo,
+      SCORING_WINDOW_DAYS
+    );
+
+    const changes = await personScoreDAO.findLastTouchChanges(now);
+    for (const change of changes) {
+      if (this.crossedRecencyStep(change, scoringConfig)) {
+        personIds.add(change.personId);
       }
     }
-    
-    if (latencies.length === 0) return null;
-    
-    latencies.sort((a, b) => a - b);
-    const median = latencies.length % 2 === 0
-      ? (latencies[latencies.length / 2 - 1] + latencies[latencies.length / 2]) / 2
-      : latencies[Math.floor(latencies.length / 2)];
-    
-    return median;
+
+    return [...personIds];
+  }
+
+  private crossedRecencyStep(change: LastTouchChange, scoringConfig: ScoringConfig): boolean {
+    const profile = scoringConfig.profiles[change.profileTier ?? DEFAULT_SCORING_TIER]
+      ?? scoringConfig.profiles[DEFAULT_SCORING_TIER];
+    return profile.recencyThresholds.some(threshold =>
+      (change.previousDays > threshold.days) !== (change.daysAgo > threshold.days)
+    );
   }
 
   /**
-   * Calculate Reciprocity - Interaction Balance
+   * Connectivity multiplier per tier for the time since the last run
    */
-  private calculateReciprocity(interactions: Interaction[]): number {
-    if (interactions.length === 0) return 0;
-    
-    // Simplified: assume 50% reciprocity for now
-    // In real implementation, would track who initiated each interaction
-    return 0.5;
+  private decayFactors(scoringConfig: ScoringConfig, elapsedMs: number): Record<string, number> {
+    const elapsedDays = elapsedMs / (24 * 60 * 60 * 1000);
+    return Object.fromEntries(
+      Object.entries(scoringConfig.profiles).map(([tier, profile]) => [tier, Math.exp(-profile.decayRate * elapsedDays)])
+    );
+  }
+
+  /**
+   * Tier annotation per person, used to pick a scoring profile
+   */
+  private async loadTiers(): Promise<Map<string, string>> {
+    const annotations = await new AnnotationDAO().findByType(ANNOTATION_TYPES.TIER);
+    return new Map(
+      annotations
+        .filter(annotation => annotation.entityType === 'person')
+        .map(annotation => [annotation.entityId, annotation.content])
+    );
+  }
+
+  private isRecurringMeeting(interaction: Interaction, recurringMeetingIds: Set<string>): boolean {
+    return interaction.type === 'meeting' && !!interaction.meetingId && recurringMeetingIds.has(interaction.meetingId);
+  }
+
+  /**
+   * Collect Message Signals - Direction, Initiation and Reply Times
+   *
+   * Walks each shared thread in send order. A message after a long silence
+   * starts a conversation; a message in the other direction within the gap is
+   * a reply, timed from the first message it answers. Other participants in
+   * group threads are ignored.
+   */
+  private async collectMessageSignals(
+    personId: string,
+    messageDAO: MessageDAO,
+    threadDAO: ThreadDAO,
+    since: Date
+  ): Promise<MessageSignals> {
+    const signals: MessageSignals = {
+      inbound: 0,
+      outbound: 0,
+      myInitiations: 0,
+      theirInitiations: 0,
+      myReplyHours: [],
+      theirReplyHours: [],
+    };
+
+    const threads = await threadDAO.findByParticipant(personId);
+    for (const thread of threads) {
+      if (thread.lastMessageAt < since) continue;
+
+      const messages = (await messageDAO.findByThread(thread.id))
+        .filter((m: Message) => m.isFromMe || m.senderId === personId);
+
+      let previous: Message | null = null;
+      let awaitingSince: Date | null = null; // First message of the run the next reply answers
+
+      for (const message of messages) {
+        const inWindow = message.sentAt >= since;
+        const gap = previous ? message.sentAt.getTime() - previous.sentAt.getTime() : Infinity;
+
+        if (inWindow) {
+          if (message.isFromMe) {
+            signals.outbound++;
+          } else {
+            signals.inbound++;
+          }
+        }
+
+        if (gap > CONVERSATION_GAP_MS) {
+          if (inWindow) {
+            if (message.isFromMe) {
+              signals.myInitiations++;
+            } else {
+              signals.theirInitiations++;
+            }
+          }
+          awaitingSince = message.sentAt;
+        } else if (previous && previous.isFromMe !== message.isFromMe) {
+          if (inWindow && awaitingSince) {
+            const hours = (message.sentAt.getTime() - awaitingSince.getTime()) / (1000 * 60 * 60);
+            (message.isFromMe ? signals.myReplyHours : signals.theirReplyHours).push(hours);
+          }
+          awaitingSince = message.sentAt;
+        }
+
+        previous = message;
+      }
+    }
+
+    return signals;
+  }
+
+  /**
+   * Calculate Reciprocity - Message Balance
+   *
+   * 1 when both sides write about as much and take turns starting
+   * conversations; 0 when every message and every conversation is one-sided.
+   */
+  private calculateReciprocity(inbound: number, outbound: number, initiationRate: number | null): number | null {
+    const total = inbound + outbound;
+    if (total < MIN_MESSAGES_FOR_RECIPROCITY) return null;
+
+    const volumeBalance = 1 - Math.abs(outbound - inbound) / total;
+    const initiationBalance = initiationRate === null
+      ? volumeBalance
+      : 1 - Math.abs(2 * initiationRate - 1);
+
+    return Math.round((volumeBalance * 0.6 + initiationBalance * 0.4) * 100) / 100;
+  }
+
+  private median(values: number[]): number | null {
+    if (values.length === 0) return null;
+
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+      ? (sorted[middle - 1] + sorted[middle]) / 2
+      : sorted[middle];
   }
 
   /**
    * Calculate Connectivity with Exponential Decay
    */
-  private calculateConnectivity(interactions: Interaction[], now: Date): number {
+  private calculateConnectivity(
+    interactions: Interaction[],
+    now: Date,
+    recurringMeetingIds: Set<string>,
+    profile: ScoringProfile
+  ): number {
     if (interactions.length === 0) return 0;
     
     let connectivity = 0;
-    const decayRate = 0.1; // Decay rate per day
-    
     for (const interaction of interactions) {
-      const daysAgo = (now.getTime() - interaction.date.getTime()) / (24 * 60 * 60 * 1000);
-      const weight = Math.exp(-decayRate * daysAgo);
-      
-      // Weight different interaction types
-      let interactionValue = 1;
-      switch (interaction.type) {
-        case 'meeting':
-          interactionValue = 3;
-          break;
-        case 'call':
-          interactionValue = 2;
-          break;
-        case 'email':
-          interactionValue = 1;
-          break;
-        case 'message':
-          interactionValue = 0.8;
-          break;
-        case 'social':
-          interactionValue = 0.5;
-          break;
-        default:
-          interactionValue = 1;
-      }
-      
-      connectivity += interactionValue * weight;
+      connectivity += this.decayedValue(interaction, now, recurringMeetingIds, profile);
     }
     
     return Math.min(connectivity, 100); // Cap at 100
   }
 
   /**
-   * Calculate Relationship Score
+   * Connectivity contributed by one interaction, fading with age
    */
-  private calculateRelationshipScore(metrics: ScoreMetrics): number {
-    let score = 0;
+  private decayedValue(
+    interaction: Interaction,
+    now: Date,
+    recurringMeetingIds: Set<string>,
+    profile: ScoringProfile
+  ): number {
+    const daysAgo = (now.getTime() - interaction.date.getTime()) / (24 * 60 * 60 * 1000);
+    const weight = Math.exp(-profile.decayRate * daysAgo);
     
-    // Base score from recent interactions
-    score += metrics.emails_90d * 2;
-    score += metrics.meetings_90d * 5;
-    score += metrics.notes_90d * 3;
+    // Weight different interaction types
+    let interactionValue = profile.interactionWeights[interaction.type] ?? 1;
+    if (this.isRecurringMeeting(interaction, recurringMeetingIds)) {
+      interactionValue *= RECURRING_MEETING_WEIGHT;
+    }
     
-    // Connectivity bonus
-    score += metrics.connectivity * 0.5;
+    return interactionValue * weight;
+  }
+
+  /**
+   * Base points one interaction adds to the score, before multipliers
+   */
+  private interactionPoints(
+    interaction: Interaction,
+    options: { recurringMeetingIds: Set<string>; profile: ScoringProfile; now: Date; ninetyDaysAgo: Date }
+  ): number {
+    const { recurringMeetingIds, profile, now, ninetyDaysAgo } = options;
+    let points = CONNECTIVITY_POINTS * this.decayedValue(interaction, now, recurringMeetingIds, profile);
+
+    if (interaction.date >= ninetyDaysAgo) {
+      if (interaction.type === 'email') {
+        points += INTERACTION_POINTS.email;
+      } else if (interaction.type === 'meeting') {
+        points += this.isRecurringMeeting(interaction, recurringMeetingIds)
+          ? INTERACTION_POINTS.meeting * RECURRING_MEETING_WEIGHT
+          : INTERACTION_POINTS.meeting;
+      } else {
+        points += INTERACTION_POINTS.note;
+      }
+    }
+
+    return points;
+  }
+
+  /**
+   * Find Top Interactions - The Ones That Moved the Score Most
+   */
+  private async findTopInteractions(
+    interactions: Interaction[],
+    options: { meetingDAO: MeetingDAO; recurringMeetingIds: Set<string>; profile: ScoringProfile; now: Date; ninetyDaysAgo: Date }
+  ): Promise<ScoreTopInteraction[]> {
+    const ranked = interactions
+      .map(interaction => ({ interaction, points: this.interactionPoints(interaction, options) }))
+      .filter(item => item.points >= 0.1)
+      .sort((a, b) => b.points - a.points)
+      .slice(0, TOP_INTERACTIONS_IN_BREAKDOWN);
+
+    const topInteractions: ScoreTopInteraction[] = [];
+    for (const { interaction, points } of ranked) {
+      const meeting = interaction.meetingId ? await options.meetingDAO.findById(interaction.meetingId) : null;
+      const fallbackLabel = interaction.type.charAt(0).toUpperCase() + interaction.type.slice(1);
+      topInteractions.push({
+        interactionId: interaction.id,
+        type: interaction.type,
+        date: interaction.date,
+        label: meeting?.title || interaction.notes?.split('\n')[0].slice(0, 60) || fallbackLabel,
+        points: Math.round(points * 10) / 10,
+      });
+    }
+
+    return topInteractions;
+  }
+
+  /**
+   * Calculate Relationship Score
+   *
+   * Returns the points and every multiplier alongside the score, so the
+   * contact screen can explain it.
+   */
+  private calculateRelationshipScore(metrics: ScoreMetrics, profile: ScoringProfile): {
+    score: number;
+    points: ScorePoints[];
+    factors: ScoreFactor[];
+    uncappedScore: number;
+    multiplier: number;
+  } {
+    // Base score from recent interactions, plus the connectivity bonus
+    const points: ScorePoints[] = [
+      { key: 'emails', label: `Emails (${metrics.emails_90d})`, points: metrics.emails_90d * INTERACTION_POINTS.email },
+      { key: 'meetings', label: `Meetings (${metrics.meetings_90d})`, points: metrics.meetings_90d * INTERACTION_POINTS.meeting },
+      {
+        key: 'recurringMeetings',
+        label: `Recurring meetings (${metrics.recurring_meetings_90d})`,
+        points: metrics.recurring_meetings_90d * INTERACTION_POINTS.meeting * RECURRING_MEETING_WEIGHT,
+      },
+      { key: 'notes', label: `Calls, messages and notes (${metrics.notes_90d})`, points: metrics.notes_90d * INTERACTION_POINTS.note },
+      { key: 'connectivity', label: 'Recent connectivity', points: metrics.connectivity * CONNECTIVITY_POINTS },
+    ].map(item => ({ ...item, points: Math.round(item.points * 10) / 10 })) as ScorePoints[];
+
+    const factors: ScoreFactor[] = [];
     
     // Recency penalty
-    if (metrics.days_since_last_touch > 30) {
-      score *= 0.7;
-    } else if (metrics.days_since_last_touch > 14) {
-      score *= 0.85;
-    } else if (metrics.days_since_last_touch > 7) {
-      score *= 0.95;
-    }
+    const days = metrics.days_since_last_touch;
+    const lastTouch = days >= 999 ? 'Never in touch' : `Last in touch ${days} day${days === 1 ? '' : 's'} ago`;
+    // The longest threshold passed wins
+    const passed = profile.recencyThresholds
+      .filter(threshold => days > threshold.days)
+      .sort((a, b) => b.days - a.days)[0];
+    const recency = passed ? passed.multiplier : 1;
+    factors.push({ key: 'recency', label: 'Recency', multiplier: recency, detail: lastTouch });
     
-    // Reply latency bonus (faster replies = higher score)
-    if (metrics.reply_latency_median && metrics.reply_latency_median < 24) {
-      score *= 1.1;
+    // How quickly they answer me says most about how they value the relationship
+    const theirs = metrics.reply_latency_theirs_median;
+    let theirLatency = 1;
+    if (theirs !== null) {
+      if (theirs < 24) {
+        theirLatency = 1.1;
+      } else if (theirs > 72) {
+        theirLatency = 0.9;
+      }
     }
+    factors.push({
+      key: 'theirLatency',
+      label: 'Their reply time',
+      multiplier: theirLatency,
+      detail: theirs === null ? 'No replies from them yet' : `They usually reply within ${this.formatHours(theirs)}`,
+    });
+
+    // Leaving them waiting cools things too, but less
+    const mine = metrics.reply_latency_mine_median;
+    const myLatency = mine !== null && mine > 72 ? 0.95 : 1;
+    factors.push({
+      key: 'myLatency',
+      label: 'My reply time',
+      multiplier: myLatency,
+      detail: mine === null ? 'No replies from me yet' : `I usually reply within ${this.formatHours(mine)}`,
+    });
     
-    // Reciprocity bonus
-    score *= (0.5 + metrics.reciprocity);
+    // Reciprocity: one-sided relationships score lower; no message history stays neutral
+    const reciprocity = metrics.reciprocity === null ? 1 : 0.6 + 0.5 * metrics.reciprocity;
+    factors.push({
+      key: 'reciprocity',
+      label: 'Reciprocity',
+      multiplier: Math.round(reciprocity * 100) / 100,
+      detail: metrics.reciprocity === null
+        ? 'Too few messages to judge'
+        : `${metrics.outbound_messages_90d} sent, ${metrics.inbound_messages_90d} received` +
+          (metrics.initiation_rate === null ? '' : `; I start ${Math.round(metrics.initiation_rate * 100)}% of conversations`),
+    });
+
+    const base = points.reduce((sum, item) => sum + item.points, 0);
+    const multiplier = factors.reduce((product, factor) => product * factor.multiplier, 1);
+    const uncappedScore = Math.round(base * multiplier);
     
-    return Math.min(Math.round(score), 100);
+    return { score: Math.min(uncappedScore, 100), points, factors, uncappedScore, multiplier };
+  }
+
+  private formatHours(hours: number): string {
+    if (hours < 1) return 'an hour';
+    if (hours < 48) return `${Math.round(hours)} hours`;
+    return `${Math.round(hours / 24)} days`;
+  }
+
+  /**
+   * Map message signals onto PersonScore, keeping unknowns explicit so stale values are cleared
+   */
+  private messageSignalFields(metrics: ScoreMetrics): Pick<PersonScore,
+    'inboundMessages' | 'outboundMessages' | 'reciprocity' | 'initiationRate' | 'myReplyTime' | 'theirReplyTime'
+  > {
+    return {
+      inboundMessages: metrics.inbound_messages_90d,
+      outboundMessages: metrics.outbound_messages_90d,
+      reciprocity: metrics.reciprocity ?? undefined,
+      initiationRate: metrics.initiation_rate ?? undefined,
+      myReplyTime: metrics.reply_latency_mine_median ?? undefined,
+      theirReplyTime: metrics.reply_latency_theirs_median ?? undefined,
+    };
+  }
+
+  /**
+   * What decayScores needs to age this score without recomputing it
+   */
+  private decayFields(
+    metrics: ScoreMetrics,
+    points: ScorePoints[],
+    multiplier: number,
+    profileTier: string
+  ): Pick<PersonScore, 'connectivity' | 'scoreBase' | 'scoreMultiplier' | 'profileTier'> {
+    return {
+      connectivity: metrics.connectivity,
+      scoreBase: points
+        .filter(item => item.key !== 'connectivity')
+        .reduce((sum, item) => sum + item.points, 0),
+      scoreMultiplier: multiplier,
+      profileTier,
+    };
   }
 
   /**
    * Calculate Interaction Frequency (interactions per month)
    */
   private calculateInteractionFrequency(metrics: ScoreMetrics): number {
-    const totalInteractions = metrics.emails_90d + metrics.meetings_90d + metrics.notes_90d;
+    const totalInteractions = metrics.emails_90d + metrics.meetings_90d + metrics.recurring_meetings_90d + metrics.notes_90d;
     return Math.round((totalInteractions / 90) * 30 * 10) / 10; // Per month, rounded to 1 decimal
   }
 
@@ -104,6 +104,82 @@ export function isValidPhone(phone: string): boolean {
   return phoneRegex.test(phone.replace(/[\s\-\(\)]/g, ''));
 }
 
+/**
+ * Normalize a person's name for comparison
+ */
+export function normalizeName(name: string): string {
+  return name.toLowerCase().trim().replace(/\s+/g, ' ');
+}
+
+/**
+ * Edit distance between two strings
+ */
+export function levenshteinDistance(str1: string, str2: string): number {
+  const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
+  
+  for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
+  for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
+  
+  for (let j = 1; j <= str2.length; j++) {
+    for (let i = 1; i <= str1.length; i++) {
+      const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
+      matrix[j][i] = Math.min(
+        matrix[j][i - 1] + 1,
+        matrix[j - 1][i] + 1,
+        matrix[j - 1][i - 1] + indicator
+      );
+    }
+  }
+  
+  return matrix[str2.length][str1.length];
+}
+
+/**
+ * Check whether two normalized names likely refer to the same person
+ */
+export function isFuzzyNameMatch(name1: string, name2: string): boolean {
+  if (name1 === name2) return true;
+  
+  // Split names into parts
+  const parts1 = name1.split(' ').filter(Boolean);
+  const parts2 = name2.split(' ').filter(Boolean);
+  
+  // If both have at least 2 parts, check if first and last match
+  if (parts1.length >= 2 && parts2.length >= 2) {
+    const first1 = parts1[0];
+    const last1 = parts1[parts1.length - 1];
+    const first2 = parts2[0];
+    const last2 = parts2[parts2.length - 1];
+    
+    return (first1 === first2 && last1 === last2);
+  }
+  
+  // For single names, use Levenshtein distance
+  return levenshteinDistance(name1, name2) <= 2;
+}
+
+/**
+ * Local calendar day as YYYY-MM-DD, for keying daily rows
+ */
+export function toDayKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/**
+ * Great-circle distance between two coordinates in meters
+ */
+export function haversineDistanceMeters(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const earthRadius = 6371000;
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * earthRadius * Math.asin(Math.sqrt(a));
+}
+
 /**
  * Sanitize string input
  */
@@ -1,3 +1,5 @@
+import { Interaction } from './Interaction';
+
 export interface Annotation {
   id: string;
   entityType: 'person' | 'company' | 'meeting' | 'task' | 'place' | 'interaction';
@@ -47,6 +49,15 @@ export const CHANNEL_OPTIONS = [
   { value: 'in_person', label: 'In Person', icon: 'Coffee' },
 ];
 
+// How a touch on each channel is logged as an interaction
+export const CHANNEL_INTERACTION_TYPES: Record<string, Interaction['type']> = {
+  text: 'message',
+  call: 'call',
+  email: 'email',
+  video: 'call',
+  in_person: 'meeting',
+};
+
 export function groupAnnotationsByType(annotations: Annotation[]): PersonAnnotations {
   const grouped: PersonAnnotations = {
     tags: [],
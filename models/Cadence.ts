@@ -0,0 +1,83 @@
+import { Annotation } from './Annotation';
+import { Person } from './Person';
+
+export type CadenceSource = 'person' | 'tier' | 'relationship';
+
+export interface ResolvedCadence {
+  days: number;
+  source: CadenceSource;
+}
+
+export interface ReachOutCandidate {
+  person: Person;
+  tier?: string;
+  cadence: ResolvedCadence;
+  lastContact?: Date; // Unset when there has never been any contact
+  daysSinceContact: number;
+  overdueRatio: number; // Days since contact over cadence; 1 means due today
+  priority: number; // overdueRatio weighted by tier, for ranking
+  dueDate: Date; // When the cadence ran out
+}
+
+// Target days between interactions when the person has no cadence of their own
+export const DEFAULT_TIER_CADENCE: Record<string, number> = {
+  inner_circle: 7,
+  close_friend: 14,
+  friend: 30,
+  professional: 60,
+  acquaintance: 90,
+};
+
+export const DEFAULT_RELATIONSHIP_CADENCE: Record<Person['relationship'], number> = {
+  family: 14,
+  friend: 30,
+  colleague: 45,
+  acquaintance: 90,
+};
+
+// Equally overdue, a close friend comes before an acquaintance
+export const TIER_REACH_OUT_WEIGHTS: Record<string, number> = {
+  inner_circle: 3,
+  close_friend: 2,
+  friend: 1.5,
+  professional: 1.2,
+  acquaintance: 1,
+};
+
+export const CADENCE_OPTIONS = [
+  { value: 7, label: 'Weekly' },
+  { value: 14, label: 'Every 2 weeks' },
+  { value: 30, label: 'Monthly' },
+  { value: 90, label: 'Quarterly' },
+  { value: 180, label: 'Twice a year' },
+  { value: 365, label: 'Yearly' },
+];
+
+/**
+ * The person's own cadence, else their tier's default, else their relationship's
+ */
+export function resolveCadence(person: Pick<Person, 'cadence' | 'relationship'>, tier?: string): ResolvedCadence {
+  if (person.cadence && person.cadence > 0) {
+    return { days: person.cadence, source: 'person' };
+  }
+  if (tier && DEFAULT_TIER_CADENCE[tier]) {
+    return { days: DEFAULT_TIER_CADENCE[tier], source: 'tier' };
+  }
+  return { days: DEFAULT_RELATIONSHIP_CADENCE[person.relationship] ?? DEFAULT_RELATIONSHIP_CADENCE.acquaintance, source: 'relationship' };
+}
+
+export function formatCadence(days: number): string {
+  const option = CADENCE_OPTIONS.find(item => item.value === days);
+  if (option) return option.label;
+  return days === 1 ? 'Every day' : `Every ${days} days`;
+}
+
+/**
+ * A do_not_disturb annotation silences reminders until metadata.until, or for good without one
+ */
+export function isDoNotDisturbActive(annotation: Annotation, now: Date = new Date()): boolean {
+  const until = annotation.metadata?.until;
+  if (!until) return true;
+  const untilDate = new Date(until);
+  return isNaN(untilDate.getTime()) || untilDate > now;
+}
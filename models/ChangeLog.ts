@@ -0,0 +1,32 @@
+export type ChangeOperation = 'create' | 'update' | 'delete' | 'merge' | 'undo';
+
+// Imports, syncs and ingests are 'system': kept in history, left out of the undo stack
+export type ChangeSource = 'user' | 'system';
+
+// Raw table row as stored in SQLite
+export type ChangeRow = Record<string, string | number | null>;
+
+export interface ChangeEntry {
+  id: string;
+  batchId: string;
+  table: string;
+  rowKey: string; // JSON array of the row's primary key values
+  before: ChangeRow | null; // null when the row was created
+  after: ChangeRow | null; // null when the row was deleted
+  createdAt: Date;
+}
+
+/**
+ * One user-visible operation; may span many rows (e.g. a merge)
+ */
+export interface ChangeBatch {
+  batchId: string;
+  operation: ChangeOperation;
+  description: string;
+  personId?: string;
+  revertsBatchId?: string; // Set on undo batches
+  revertedBy?: string; // Set once the batch has been undone
+  source: ChangeSource;
+  changeCount: number;
+  createdAt: Date;
+}
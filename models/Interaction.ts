@@ -8,6 +8,12 @@ export interface Interaction {
   placeId?: string;
   meetingId?: string;
   threadId?: string;
+  sourceAccountId?: string; // Email account the interaction was synced from
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+}
+
+// Synced email interaction held back until someone has the participant's address
+export interface PendingEmailInteraction extends Pick<Interaction, 'id' | 'type' | 'date' | 'notes' | 'threadId' | 'sourceAccountId'> {
+  address: string;
+}
@@ -7,6 +7,80 @@ export interface Meeting {
   duration?: number; // in minutes
   notes?: string;
   type: 'in-person' | 'video' | 'phone';
+  joinUrl?: string; // Video conference link, or tel: URI for phone meetings
+  calendarEventId?: string; // Source event ID on the device calendar
+  calendarId?: string;
+  instanceStartDate?: Date; // Occurrence date for recurring events, which share one event ID
+  status?: 'confirmed' | 'cancelled';
+  seriesId?: string; // Set for occurrences of a recurring event
   createdAt: Date;
   updatedAt: Date;
-}
\ No newline at end of file
+}
+
+// Conference providers whose join links mark a meeting as a video call
+const VIDEO_LINK_PATTERNS = [
+  /https?:\/\/(?:[a-z0-9-]+\.)?zoom(?:gov)?\.us\/(?:j|my|w|s)\/[^\s<>"')]+/i,
+  /https?:\/\/meet\.google\.com\/[a-z0-9-]+/i,
+  /https?:\/\/teams\.microsoft\.com\/l\/meetup-join\/[^\s<>"')]+/i,
+  /https?:\/\/teams\.live\.com\/meet\/[^\s<>"')]+/i,
+  /https?:\/\/[a-z0-9-]+\.webex\.com\/[^\s<>"')]+/i,
+];
+
+// Locations like "Microsoft Teams Meeting" name the provider without a link
+const VIDEO_LOCATION_PATTERN = /\b(?:zoom|google meet|microsoft teams|teams meeting|webex|video call)\b/i;
+
+const TEL_URI_PATTERN = /tel:\+?[\d,;#*().-]{5,}/i;
+const PHONE_ONLY_PATTERN = /^\+?[\d\s().-]{7,}$/;
+const DIAL_IN_PATTERN = /\b(?:dial[- ]?in|call[- ]?in|conference line|phone)\b[^\n]{0,40}?(\+?\d[\d\s().-]{6,}\d)/i;
+// A street number or street word, e.g. "123 Main St" or "Mint Plaza, Floor 2"; such locations are physical
+const ADDRESS_PATTERN = /\b\d+[a-z]?\s+[a-z]|\b(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|way|plaza|square|sq|floor|suite)\b/i;
+
+export interface MeetingTypeInference {
+  type: Meeting['type'];
+  joinUrl?: string;
+}
+
+/**
+ * Classify a calendar event from its location, notes and URL.
+ * Video links win over dial-ins because most conference invites include both,
+ * and a physical address wins over phone numbers found in the notes.
+ */
+export function inferMeetingType(fields: { location?: string | null; notes?: string | null; url?: string | null }): MeetingTypeInference {
+  const sources = [fields.url, fields.location, fields.notes].filter((value): value is string => !!value);
+
+  for (const text of sources) {
+    for (const pattern of VIDEO_LINK_PATTERNS) {
+      const match = text.match(pattern);
+      if (match) {
+        return { type: 'video', joinUrl: match[0] };
+      }
+    }
+  }
+
+  const location = fields.location?.trim() || '';
+  if (VIDEO_LOCATION_PATTERN.test(location)) {
+    return { type: 'video' };
+  }
+
+  if (location && PHONE_ONLY_PATTERN.test(location)) {
+    return { type: 'phone', joinUrl: `tel:${location.replace(/[^\d+]/g, '')}` };
+  }
+
+  // Venue and contact numbers in the notes of an in-person event are not dial-ins
+  if (ADDRESS_PATTERN.test(location)) {
+    return { type: 'in-person' };
+  }
+
+  for (const text of sources) {
+    const telMatch = text.match(TEL_URI_PATTERN);
+    if (telMatch) {
+      return { type: 'phone', joinUrl: telMatch[0] };
+    }
+    const dialIn = text.match(DIAL_IN_PATTERN);
+    if (dialIn) {
+      return { type: 'phone', joinUrl: `tel:${dialIn[1].replace(/[^\d+]/g, '')}` };
+    }
+  }
+
+  return { type: 'in-person' };
+}
@@ -0,0 +1,53 @@
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly' | 'unknown';
+
+export interface MeetingSeries {
+  id: string;
+  calendarEventId: string; // Event ID shared by every occurrence
+  calendarId?: string;
+  title: string;
+  recurrenceRule?: string; // RRULE, e.g. FREQ=WEEKLY;INTERVAL=2
+  frequency: RecurrenceFrequency;
+  interval: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface MeetingSeriesPosition {
+  seriesId: string;
+  occurrence: number; // 1-based position of the meeting among the series' known occurrences
+  frequency: RecurrenceFrequency;
+  interval: number;
+}
+
+function ordinal(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+/**
+ * Human-readable position, e.g. "3rd of weekly series" or "2nd of every-2-weeks series"
+ */
+export function describeSeriesPosition(position: MeetingSeriesPosition): string {
+  const units: Record<RecurrenceFrequency, string> = {
+    daily: 'days',
+    weekly: 'weeks',
+    monthly: 'months',
+    yearly: 'years',
+    unknown: '',
+  };
+
+  let cadence = 'recurring';
+  if (position.frequency !== 'unknown') {
+    cadence = position.interval > 1
+      ? `every-${position.interval}-${units[position.frequency]}`
+      : position.frequency;
+  }
+
+  return `${ordinal(position.occurrence)} of ${cadence} series`;
+}
@@ -0,0 +1,20 @@
+export interface PersonIdentifier {
+  id: string;
+  personId: string;
+  type: 'email' | 'phone';
+  value: string; // Normalized: lowercase email, digits and leading + for phones
+  label?: string; // e.g. "work", "home", "mobile"
+  isPrimary: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Normalize an identifier so lookups match regardless of formatting
+ */
+export function normalizeIdentifier(type: PersonIdentifier['type'], value: string): string {
+  const trimmed = value.trim();
+  return type === 'email'
+    ? trimmed.toLowerCase()
+    : trimmed.replace(/[^\d+]/g, '');
+}
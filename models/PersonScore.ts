@@ -1,3 +1,5 @@
+import { Interaction } from './Interaction';
+
 export interface PersonScore {
   id: string;
   personId: string;
@@ -6,5 +8,84 @@ export interface PersonScore {
   lastInteractionDaysAgo: number;
   totalInteractions: number;
   averageResponseTime?: number; // in hours
+  inboundMessages?: number; // Messages from them in the last 90 days
+  outboundMessages?: number; // Messages from me in the last 90 days
+  reciprocity?: number; // 0-1, 1 when volume and initiation are balanced
+  initiationRate?: number; // 0-1, share of conversations I started
+  myReplyTime?: number; // Median hours before I reply to them
+  theirReplyTime?: number; // Median hours before they reply to me
+  breakdown?: ScoreBreakdown; // How relationshipScore was built, from the last ScoreJob run
+  profileVersion?: number; // ScoringConfig version the score was computed with
+  // Kept so ScoreJob can decay the score in SQL between recomputes
+  connectivity?: number; // Decayed interaction value, 0-100
+  scoreBase?: number; // Points that do not decay, i.e. everything but connectivity
+  scoreMultiplier?: number; // Product of all score factors
+  profileTier?: string; // Scoring profile tier, which sets the decay rate
   calculatedAt: Date;
+}
+
+export interface PersonScoreSnapshot {
+  personId: string;
+  day: string; // YYYY-MM-DD, local time
+  relationshipScore: number;
+  interactionFrequency?: number;
+  connectivity?: number;
+  reciprocity?: number;
+  metrics?: ScoreMetrics;
+}
+
+export interface ScoreSnapshotRetention {
+  dailyDays: number; // Keep every daily snapshot this long
+  weeklyDays: number; // Then one per week up to this age; older ones are deleted
+}
+
+export const DEFAULT_SNAPSHOT_RETENTION: ScoreSnapshotRetention = {
+  dailyDays: 90,
+  weeklyDays: 730,
+};
+
+export interface ScoreMetrics {
+  emails_90d: number;
+  meetings_90d: number; // One-off meetings only
+  recurring_meetings_90d: number; // Occurrences of recurring series, e.g. a weekly 1:1
+  notes_90d: number;
+  inbound_messages_90d: number; // Messages they sent me
+  outbound_messages_90d: number; // Messages I sent them
+  initiation_rate: number | null; // Share of conversations I started, null without conversations
+  reply_latency_median: number | null; // Hours, replies in either direction
+  reply_latency_mine_median: number | null; // Hours before I reply to them
+  reply_latency_theirs_median: number | null; // Hours before they reply to me
+  days_since_last_touch: number;
+  reciprocity: number | null; // 0-1, null when there are too few messages to judge
+  connectivity: number;
+}
+
+export interface ScorePoints {
+  key: 'emails' | 'meetings' | 'recurringMeetings' | 'notes' | 'connectivity';
+  label: string;
+  points: number;
+}
+
+export interface ScoreFactor {
+  key: 'recency' | 'theirLatency' | 'myLatency' | 'reciprocity';
+  label: string;
+  multiplier: number; // 1 when the factor didn't change the score
+  detail: string;
+}
+
+export interface ScoreTopInteraction {
+  interactionId: string;
+  type: Interaction['type'];
+  date: Date;
+  label: string;
+  points: number; // Before multipliers
+}
+
+export interface ScoreBreakdown {
+  profile?: { tier: string; version: number }; // Scoring profile used, absent before profiles existed
+  metrics: ScoreMetrics;
+  points: ScorePoints[];
+  factors: ScoreFactor[];
+  uncappedScore: number;
+  topInteractions: ScoreTopInteraction[];
 }
\ No newline at end of file
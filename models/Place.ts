@@ -7,10 +7,18 @@ export interface Place {
   longitude: number;
   category: 'restaurant' | 'cafe' | 'bar' | 'park' | 'office' | 'home' | 'other';
   notes?: string;
+  geocodeStatus?: PlaceGeocodeStatus;
   createdAt: Date;
   updatedAt: Date;
 }
 
+// pending: waiting for (re)try, failed: gave up until the user retries, manual: pin set by the user
+export type PlaceGeocodeStatus = 'pending' | 'resolved' | 'failed' | 'manual';
+
+export function hasCoordinates(place: Pick<Place, 'latitude' | 'longitude'>): boolean {
+  return !(place.latitude === 0 && place.longitude === 0);
+}
+
 export interface PlaceWithStats extends Place {
   visitCount: number;
   lastVisit: Date;
@@ -18,6 +26,14 @@ export interface PlaceWithStats extends Place {
   recentPeople: string[];
 }
 
+// How often one person was met at a place (or around an area)
+export interface PlacePersonVisits {
+  personId: string;
+  name: string;
+  visitCount: number;
+  lastVisit: Date;
+}
+
 export function normalizePlaceName(name: string): string {
   return name
     .toLowerCase()
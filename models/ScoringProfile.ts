@@ -0,0 +1,77 @@
+import { Interaction } from './Interaction';
+
+export interface RecencyThreshold {
+  days: number; // Applies once the last touch is more than this many days ago
+  multiplier: number;
+}
+
+export interface ScoringProfile {
+  interactionWeights: Record<Interaction['type'], number>; // Connectivity value of one interaction
+  decayRate: number; // Per day; higher forgets old interactions faster
+  recencyThresholds: RecencyThreshold[];
+}
+
+export interface ScoringConfig {
+  version: number; // Bumped on every change so scores can be recomputed
+  updatedAt: string;
+  profiles: Record<string, ScoringProfile>; // Keyed by tier value, or DEFAULT_SCORING_TIER
+}
+
+// Profile for people without a tier annotation
+export const DEFAULT_SCORING_TIER = 'default';
+
+export const DEFAULT_SCORING_PROFILE: ScoringProfile = {
+  interactionWeights: {
+    meeting: 3,
+    call: 2,
+    email: 1,
+    message: 0.8,
+    social: 0.5,
+    other: 1,
+  },
+  decayRate: 0.1,
+  recencyThresholds: [
+    { days: 7, multiplier: 0.95 },
+    { days: 14, multiplier: 0.85 },
+    { days: 30, multiplier: 0.7 },
+  ],
+};
+
+export const DEFAULT_TIER_PROFILES: Record<string, ScoringProfile> = {
+  [DEFAULT_SCORING_TIER]: DEFAULT_SCORING_PROFILE,
+  // Close people are mostly texted and called, and a quiet week already means something
+  inner_circle: {
+    interactionWeights: { meeting: 3, call: 2.5, email: 0.8, message: 1.2, social: 0.8, other: 1 },
+    decayRate: 0.1,
+    recencyThresholds: [
+      { days: 3, multiplier: 0.95 },
+      { days: 7, multiplier: 0.85 },
+      { days: 14, multiplier: 0.7 },
+    ],
+  },
+  close_friend: {
+    interactionWeights: { meeting: 3, call: 2.5, email: 0.8, message: 1, social: 0.7, other: 1 },
+    decayRate: 0.1,
+    recencyThresholds: DEFAULT_SCORING_PROFILE.recencyThresholds,
+  },
+  friend: DEFAULT_SCORING_PROFILE,
+  acquaintance: {
+    interactionWeights: DEFAULT_SCORING_PROFILE.interactionWeights,
+    decayRate: 0.05,
+    recencyThresholds: [
+      { days: 30, multiplier: 0.95 },
+      { days: 60, multiplier: 0.85 },
+      { days: 90, multiplier: 0.7 },
+    ],
+  },
+  // Work contacts live on email and meetings, and a month of silence is normal
+  professional: {
+    interactionWeights: { meeting: 3, call: 2, email: 1.5, message: 0.5, social: 0.3, other: 1 },
+    decayRate: 0.05,
+    recencyThresholds: [
+      { days: 14, multiplier: 0.95 },
+      { days: 30, multiplier: 0.85 },
+      { days: 60, multiplier: 0.7 },
+    ],
+  },
+};
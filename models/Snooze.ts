@@ -0,0 +1,14 @@
+export interface Snooze {
+  id: string;
+  personId: string;
+  until: Date; // Hidden from reach-out lists until then
+  createdAt: Date;
+}
+
+export const SNOOZE_OPTIONS = [
+  { days: 7, label: '1 week' },
+  { days: 30, label: '1 month' },
+];
+
+// Upper bound for a custom snooze; longer than this is a cadence change, not a snooze
+export const MAX_SNOOZE_DAYS = 365;
@@ -1,13 +1,16 @@
 import { Person } from '@/models/Person';
-import { PersonScore } from '@/models/PersonScore';
+import { PersonScore, PersonScoreSnapshot } from '@/models/PersonScore';
 import { PersonDAO } from '@/database/PersonDAO';
+import { PersonScoreDAO } from '@/database/PersonScoreDAO';
 import { mockPersonScores } from './mockData';
 
 export class PersonRepository {
   private personDAO: PersonDAO;
+  private personScoreDAO: PersonScoreDAO;
 
   constructor() {
     this.personDAO = new PersonDAO();
+    this.personScoreDAO = new PersonScoreDAO();
   }
 
   async getAllPeople(): Promise<Person[]> {
@@ -38,10 +41,45 @@ export class PersonRepository {
   }
 
   async getPersonScore(personId: string): Promise<PersonScore | undefined> {
-    // TODO: Implement PersonScoreDAO
+    try {
+      if (this.personScoreDAO.isAvailable()) {
+        return (await this.personScoreDAO.findByPersonId(personId)) ?? undefined;
+      }
+    } catch (error) {
+      console.error('Failed to get person score:', error);
+    }
     return mockPersonScores.find(ps => ps.personId === personId);
   }
 
+  async getAllScores(): Promise<PersonScore[]> {
+    try {
+      if (this.personScoreDAO.isAvailable()) {
+        return await this.personScoreDAO.findAll();
+      }
+    } catch (error) {
+      console.error('Failed to get person scores:', error);
+    }
+    return mockPersonScores;
+  }
+
+  async getScoreHistory(personId: string, since: Date): Promise<PersonScoreSnapshot[]> {
+    try {
+      return await this.personScoreDAO.getSnapshots(personId, since);
+    } catch (error) {
+      console.error('Failed to get score history:', error);
+      return [];
+    }
+  }
+
+  async getScoreTrends(since: Date, personIds?: string[]): Promise<Map<string, number[]>> {
+    try {
+      return await this.personScoreDAO.getScoreSeriesSince(since, personIds);
+    } catch (error) {
+      console.error('Failed to get score trends:', error);
+      return new Map();
+    }
+  }
+
   async getPeopleWithUpcomingBirthdays(days: number = 30): Promise<Person[]> {
     try {
       return await this.personDAO.getUpcomingBirthdays(days);
@@ -77,4 +115,16 @@ export class PersonRepository {
       throw error;
     }
   }
+
+  /**
+   * Set how often to be in touch with someone; undefined falls back to their tier or relationship
+   */
+  async updateCadence(personId: string, days?: number): Promise<Person | null> {
+    try {
+      return await this.personDAO.update(personId, { cadence: days });
+    } catch (error) {
+      console.error('Failed to update cadence:', error);
+      throw error;
+    }
+  }
 }
\ No newline at end of file
@@ -5,7 +5,6 @@ import { PersonRepository } from '@/repositories/PersonRepository';
 import { PersonCard } from '@/components/PersonCard';
 import { Person } from '@/models/Person';
 import { PersonScore } from '@/models/PersonScore';
-import { mockPersonScores } from '@/repositories/mockData';
 import { Search } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import { GradientHeader } from '@/components/GradientHeader';
@@ -19,12 +18,13 @@ export const ContactsScreen: React.FC = () => {
   const [filteredPeople, setFilteredPeople] = useState<Person[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [scoresMap, setScoresMap] = useState<Map<string, PersonScore>>(new Map());
+  const [scoreTrends, setScoreTrends] = useState<Map<string, number[]>>(new Map());
 
   const personRepo = new PersonRepository();
 
   const loadData = async () => {
     const allPeople = await personRepo.getAllPeople();
-    const scores = new Map(mockPersonScores.map(s => [s.personId, s]));
+    const scores = new Map((await personRepo.getAllScores()).map(s => [s.personId, s]));
     
     // Sort by relationship score
     const sortedPeople = allPeople.sort((a, b) => {
@@ -36,6 +36,9 @@ export const ContactsScreen: React.FC = () => {
     setPeople(sortedPeople);
     setFilteredPeople(sortedPeople);
     setScoresMap(scores);
+
+    const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+    setScoreTrends(await personRepo.getScoreTrends(thirtyDaysAgo));
   };
 
   useEffect(() => {
@@ -69,6 +72,7 @@ export const ContactsScreen: React.FC = () => {
     <PersonCard
       person={item}
       score={scoresMap.get(item.id)}
+      scoreTrend={scoreTrends.get(item.id)}
       onPress={() => router.push(`/contact/${item.id}`)}
     />
   );
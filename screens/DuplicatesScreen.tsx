@@ -0,0 +1,259 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert, ActivityIndicator, RefreshControl } from 'react-native';
+import { ArrowLeftRight, GitMerge, X } from 'lucide-react-native';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import { DuplicateCandidate, DuplicatePersonService } from '@/services/DuplicatePersonService';
+import { EmptyState } from '@/components/EmptyState';
+import { Person } from '@/models/Person';
+import { theme } from '@/constants/theme';
+
+const candidateKey = (candidate: DuplicateCandidate) => `${candidate.survivor.id}|${candidate.duplicate.id}`;
+
+const describePerson = (person: Person): string => {
+  const name = `${person.firstName} ${person.lastName}`.trim() || 'Unnamed';
+  const details = [person.email, person.phone].filter(Boolean).join(' · ');
+  return details ? `${name}\n${details}` : name;
+};
+
+export const DuplicatesScreen: React.FC = () => {
+  const { isInitialized } = useDatabase();
+  const [candidates, setCandidates] = useState<DuplicateCandidate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+
+  const service = DuplicatePersonService.getInstance();
+
+  const loadCandidates = useCallback(async () => {
+    if (!isInitialized) return;
+    setIsLoading(true);
+    try {
+      setCandidates(await service.findCandidates());
+    } catch (error) {
+      console.error('[DuplicatesScreen] Failed to load duplicate candidates:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [isInitialized, service]);
+
+  useEffect(() => {
+    loadCandidates();
+  }, [loadCandidates]);
+
+  const removeCandidate = (key: string) => {
+    setCandidates(current => current.filter(candidate => candidateKey(candidate) !== key));
+  };
+
+  const handleSwap = (candidate: DuplicateCandidate) => {
+    const key = candidateKey(candidate);
+    setCandidates(current => current.map(item => (
+      candidateKey(item) === key
+        ? { ...item, survivor: item.duplicate, duplicate: item.survivor }
+        : item
+    )));
+  };
+
+  const handleMerge = (candidate: DuplicateCandidate) => {
+    const { survivor, duplicate } = candidate;
+    Alert.alert(
+      'Merge Contacts',
+      `Move everything from ${duplicate.firstName} ${duplicate.lastName} into ${survivor.firstName} ${survivor.lastName}? The duplicate will be deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            const key = candidateKey(candidate);
+            setBusyKey(key);
+            try {
+              await service.merge(survivor.id, duplicate.id);
+              // Any other pair involving the deleted row is now stale
+              await loadCandidates();
+            } catch (error) {
+              Alert.alert('Merge Failed', error instanceof Error ? error.message : 'Unknown error');
+            } finally {
+              setBusyKey(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleDismiss = async (candidate: DuplicateCandidate) => {
+    const key = candidateKey(candidate);
+    removeCandidate(key);
+    await service.dismiss(candidate.survivor.id, candidate.duplicate.id);
+  };
+
+  const renderCandidate = ({ item }: { item: DuplicateCandidate }) => {
+    const key = candidateKey(item);
+    const isBusy = busyKey === key;
+
+    return (
+      <View style={styles.card}>
+        <View style={styles.cardHeader}>
+          <Text style={styles.score}>{item.score}% match</Text>
+          <Text style={styles.reasons} numberOfLines={2}>{item.reasons.join(' · ')}</Text>
+        </View>
+
+        <View style={styles.people}>
+          <View style={styles.personColumn}>
+            <Text style={styles.columnLabel}>Keep</Text>
+            <Text style={styles.personText}>{describePerson(item.survivor)}</Text>
+          </View>
+          <TouchableOpacity style={styles.swapButton} onPress={() => handleSwap(item)} disabled={isBusy}>
+            <ArrowLeftRight size={18} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+          <View style={styles.personColumn}>
+            <Text style={styles.columnLabel}>Merge in</Text>
+            <Text style={styles.personText}>{describePerson(item.duplicate)}</Text>
+          </View>
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={[styles.actionButton, styles.dismissButton]} onPress={() => handleDismiss(item)} disabled={isBusy}>
+            <X size={16} color={theme.colors.textSecondary} />
+            <Text style={styles.dismissText}>Not a duplicate</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={[styles.actionButton, styles.mergeButton]} onPress={() => handleMerge(item)} disabled={isBusy}>
+            {isBusy ? (
+              <ActivityIndicator size="small" color={theme.colors.surface} />
+            ) : (
+              <>
+                <GitMerge size={16} color={theme.colors.surface} />
+                <Text style={styles.mergeText}>Merge</Text>
+              </>
+            )}
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  if (isLoading && candidates.length === 0) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={candidates}
+        keyExtractor={candidateKey}
+        renderItem={renderCandidate}
+        contentContainerStyle={styles.listContent}
+        refreshControl={<RefreshControl refreshing={isLoading} onRefresh={loadCandidates} />}
+        ListHeaderComponent={
+          candidates.length > 0 ? (
+            <Text style={styles.intro}>
+              Review each pair before merging. Interactions, tasks, notes and meetings move to the contact you keep.
+            </Text>
+          ) : null
+        }
+        ListEmptyComponent={
+          <EmptyState
+            title="No duplicates found"
+            subtitle="Contacts that share an email, phone or name will show up here"
+          />
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.background,
+  },
+  listContent: {
+    padding: theme.spacing.md,
+  },
+  intro: {
+    ...theme.typography.footnote,
+    color: theme.colors.textSecondary,
+    marginBottom: theme.spacing.md,
+  },
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+    ...theme.shadows.sm,
+  },
+  cardHeader: {
+    marginBottom: theme.spacing.sm,
+  },
+  score: {
+    ...theme.typography.headline,
+    color: theme.colors.text,
+  },
+  reasons: {
+    ...theme.typography.caption,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  people: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  personColumn: {
+    flex: 1,
+  },
+  columnLabel: {
+    ...theme.typography.caption,
+    color: theme.colors.textLight,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.xs,
+  },
+  personText: {
+    ...theme.typography.subheadline,
+    color: theme.colors.text,
+  },
+  swapButton: {
+    padding: theme.spacing.sm,
+    marginHorizontal: theme.spacing.xs,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: theme.spacing.md,
+  },
+  actionButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.sm,
+    borderRadius: theme.borderRadius.sm,
+    marginLeft: theme.spacing.sm,
+  },
+  dismissButton: {
+    backgroundColor: theme.colors.background,
+  },
+  dismissText: {
+    ...theme.typography.footnote,
+    color: theme.colors.textSecondary,
+    marginLeft: theme.spacing.xs,
+  },
+  mergeButton: {
+    backgroundColor: theme.colors.primary,
+    minWidth: 88,
+    justifyContent: 'center',
+  },
+  mergeText: {
+    ...theme.typography.footnote,
+    color: theme.colors.surface,
+    fontWeight: '600',
+    marginLeft: theme.spacing.xs,
+  },
+});
@@ -1,7 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator, RefreshControl } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Database, Users, Mail, Calendar, Brain, CheckCircle, XCircle, AlertCircle, RefreshCw, Activity, HardDrive, Clock, Hash, FileText, Zap } from 'lucide-react-native';
+import { Database, Users, Mail, Calendar, Brain, CheckCircle, XCircle, AlertCircle, RefreshCw, Activity, HardDrive, Clock, Hash, FileText, Zap, TrendingUp } from 'lucide-react-native';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { PersonDAO } from '@/database/PersonDAO';
 import { InteractionDAO } from '@/database/InteractionDAO';
@@ -10,11 +10,14 @@ import { PlaceDAO } from '@/database/PlaceDAO';
 import { MeetingDAO } from '@/database/MeetingDAO';
 import { ThreadDAO } from '@/database/ThreadDAO';
 import { MessageDAO } from '@/database/MessageDAO';
-import { PersonScoreDAO } from '@/database/PersonScoreDAO';
+import { PersonScoreDAO, DailyScoreAverage } from '@/database/PersonScoreDAO';
+import { DEFAULT_SNAPSHOT_RETENTION } from '@/models/PersonScore';
+import { Sparkline } from '@/components/Sparkline';
 import { AnnotationDAO } from '@/database/AnnotationDAO';
 import { CompanyDAO } from '@/database/CompanyDAO';
 import { ContactsIngest } from '@/services/ContactsIngest';
 import { CalendarListener } from '@/services/CalendarListener';
+import { CalendarIngest, CalendarIngestStats } from '@/services/CalendarIngest';
 import { GmailSync } from '@/services/GmailSync';
 import { BackgroundTaskManager } from '@/services/BackgroundTaskManager';
 import { AIService } from '@/services/AIService';
@@ -60,6 +63,9 @@ export const HealthScreen: React.FC = () => {
     { name: 'Export', status: 'checking' },
   ]);
   const [errorLogs, setErrorLogs] = useState<string[]>([]);
+  const [calendarStats, setCalendarStats] = useState<CalendarIngestStats | null>(null);
+  const [scoreAverages, setScoreAverages] = useState<DailyScoreAverage[]>([]);
+  const [scoreMovers, setScoreMovers] = useState({ warming: 0, cooling: 0 });
 
   const loadTableCounts = async () => {
     if (!isInitialized || !database) return;
@@ -74,6 +80,10 @@ export const HealthScreen: React.FC = () => {
         'threads',
         'messages',
         'person_scores',
+        'person_score_snapshots',
+        'score_dirty_persons',
+        'snoozes',
+        'pending_email_interactions',
         'annotations',
         'companies',
       ];
@@ -128,6 +138,35 @@ export const HealthScreen: React.FC = () => {
     }
   };
 
+  const loadCalendarStats = async () => {
+    try {
+      setCalendarStats(await CalendarIngest.getLastRunStats());
+    } catch (error) {
+      console.error('Error loading calendar ingest stats:', error);
+    }
+  };
+
+  const loadScoreTrends = async () => {
+    try {
+      const personScoreDAO = new PersonScoreDAO();
+      const dayMs = 24 * 60 * 60 * 1000;
+      setScoreAverages(await personScoreDAO.getDailyAverages(new Date(Date.now() - 90 * dayMs)));
+
+      // Warming or cooling by at least 5 points over the last 30 days
+      const series = await personScoreDAO.getScoreSeriesSince(new Date(Date.now() - 30 * dayMs));
+      let warming = 0;
+      let cooling = 0;
+      for (const values of series.values()) {
+        const change = values[values.length - 1] - values[0];
+        if (change >= 5) warming++;
+        if (change <= -5) cooling++;
+      }
+      setScoreMovers({ warming, cooling });
+    } catch (error) {
+      console.error('Error loading score trends:', error);
+    }
+  };
+
   const loadErrorLogs = async () => {
     try {
       // Get recent error logs from AsyncStorage
@@ -350,6 +389,8 @@ export const HealthScreen: React.FC = () => {
     await Promise.all([
       loadTableCounts(),
       loadSystemStatus(),
+      loadCalendarStats(),
+      loadScoreTrends(),
       loadErrorLogs(),
     ]);
     setIsRefreshing(false);
@@ -359,6 +400,8 @@ export const HealthScreen: React.FC = () => {
     if (isInitialized) {
       loadTableCounts();
       loadSystemStatus();
+      loadCalendarStats();
+      loadScoreTrends();
       loadErrorLogs();
     }
   }, [isInitialized]);
@@ -464,6 +507,95 @@ export const HealthScreen: React.FC = () => {
           </View>
         </View>
 
+        {/* Calendar Sync */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Calendar size={20} color="#E67E22" />
+            <Text style={styles.sectionTitle}>Calendar Sync</Text>
+          </View>
+          <View style={styles.card}>
+            {calendarStats ? (
+              <>
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>Last Run</Text>
+                  <Text style={styles.statusValue}>
+                    {formatDate(new Date(calendarStats.startedAt))} ({calendarStats.mode})
+                  </Text>
+                </View>
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>Duration</Text>
+                  <Text style={styles.statusValue}>{(calendarStats.durationMs / 1000).toFixed(1)}s</Text>
+                </View>
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>Calendars Read</Text>
+                  <Text style={styles.statusValue}>
+                    {calendarStats.calendarsRead}
+                    {calendarStats.calendarsFailed > 0 ? ` (${calendarStats.calendarsFailed} failed)` : ''}
+                  </Text>
+                </View>
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>Events Scanned</Text>
+                  <Text style={styles.statusValue}>{calendarStats.eventsScanned}</Text>
+                </View>
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>Added / Changed / Removed</Text>
+                  <Text style={styles.statusValue}>
+                    {calendarStats.added} / {calendarStats.changed} / {calendarStats.removed}
+                  </Text>
+                </View>
+                <View style={styles.statusRow}>
+                  <Text style={styles.statusLabel}>Unchanged</Text>
+                  <Text style={styles.statusValue}>{calendarStats.unchanged}</Text>
+                </View>
+                {calendarStats.failed > 0 && (
+                  <View style={styles.statusRow}>
+                    <Text style={styles.statusLabel}>Failed Events</Text>
+                    <Text style={styles.statusValue}>{calendarStats.failed}</Text>
+                  </View>
+                )}
+              </>
+            ) : (
+              <View style={styles.statusRow}>
+                <Text style={styles.statusLabel}>Last Run</Text>
+                <Text style={styles.statusValue}>Never</Text>
+              </View>
+            )}
+          </View>
+        </View>
+
+        {/* Relationship Trends */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <TrendingUp size={20} color="#16A085" />
+            <Text style={styles.sectionTitle}>Relationship Trends</Text>
+          </View>
+          <View style={styles.card}>
+            {scoreAverages.length >= 2 && (
+              <View style={styles.trendChart}>
+                <Sparkline values={scoreAverages.map(day => day.averageScore)} width={280} height={48} />
+              </View>
+            )}
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>Average Score</Text>
+              <Text style={styles.statusValue}>
+                {scoreAverages.length > 0
+                  ? scoreAverages[scoreAverages.length - 1].averageScore.toFixed(1)
+                  : 'No snapshots yet'}
+              </Text>
+            </View>
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>Warming / Cooling (30d)</Text>
+              <Text style={styles.statusValue}>{scoreMovers.warming} / {scoreMovers.cooling}</Text>
+            </View>
+            <View style={styles.statusRow}>
+              <Text style={styles.statusLabel}>Retention</Text>
+              <Text style={styles.statusValue}>
+                Daily {DEFAULT_SNAPSHOT_RETENTION.dailyDays}d, weekly {Math.round(DEFAULT_SNAPSHOT_RETENTION.weeklyDays / 365)}y
+              </Text>
+            </View>
+          </View>
+        </View>
+
         {/* Health Checks */}
         <View style={styles.section}>
           <View style={styles.sectionHeader}>
@@ -692,4 +824,8 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#95A5A6',
   },
+  trendChart: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
 });
\ No newline at end of file
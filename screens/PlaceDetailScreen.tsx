@@ -0,0 +1,483 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, TextInput, ActivityIndicator, Alert } from 'react-native';
+import { Stack, useLocalSearchParams, useRouter } from 'expo-router';
+import { Calendar, MapPin, Plus, Users, AlertCircle } from 'lucide-react-native';
+import { PlaceDAO } from '@/database/PlaceDAO';
+import { MeetingDAO } from '@/database/MeetingDAO';
+import { InteractionDAO } from '@/database/InteractionDAO';
+import { PersonDAO } from '@/database/PersonDAO';
+import { useDatabase } from '@/contexts/DatabaseContext';
+import { Place, PlacePersonVisits, hasCoordinates } from '@/models/Place';
+import { Person } from '@/models/Person';
+import { Interaction } from '@/models/Interaction';
+import { PlacePinEditor } from '@/components/PlacePinEditor';
+import { LogVisitModal } from '@/components/LogVisitModal';
+import { EmptyState } from '@/components/EmptyState';
+import { formatDate } from '@/lib/utils';
+import { theme } from '@/constants/theme';
+
+type TimelineEntry =
+  | { kind: 'meeting'; id: string; date: Date; title: string; personIds: string[] }
+  | { kind: 'visit'; id: string; date: Date; type: Interaction['type']; personIds: string[]; notes?: string };
+
+const CATEGORIES: { key: Place['category']; label: string }[] = [
+  { key: 'cafe', label: 'Cafe' },
+  { key: 'restaurant', label: 'Restaurant' },
+  { key: 'bar', label: 'Bar' },
+  { key: 'office', label: 'Office' },
+  { key: 'home', label: 'Home' },
+  { key: 'park', label: 'Park' },
+  { key: 'other', label: 'Other' },
+];
+
+export const PlaceDetailScreen: React.FC = () => {
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const router = useRouter();
+  const { isInitialized } = useDatabase();
+  const [place, setPlace] = useState<Place | null>(null);
+  const [people, setPeople] = useState<PlacePersonVisits[]>([]);
+  const [timeline, setTimeline] = useState<TimelineEntry[]>([]);
+  const [allPeople, setAllPeople] = useState<Person[]>([]);
+  const [notes, setNotes] = useState('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isEditingPin, setIsEditingPin] = useState(false);
+  const [isLoggingVisit, setIsLoggingVisit] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!isInitialized || !id) return;
+    setIsLoading(true);
+    try {
+      const placeDAO = new PlaceDAO();
+      const meetingDAO = new MeetingDAO();
+      const [loadedPlace, visits, meetings, interactions, persons] = await Promise.all([
+        placeDAO.getPlaceById(id),
+        placeDAO.getPeopleMetAt([id]),
+        meetingDAO.findByPlace(id),
+        new InteractionDAO().getByPlace(id),
+        new PersonDAO().getAllPersons(),
+      ]);
+
+      const entries: TimelineEntry[] = [];
+      const meetingIds = new Set(meetings.map(meeting => meeting.id));
+      for (const meeting of meetings) {
+        entries.push({
+          kind: 'meeting',
+          id: meeting.id,
+          date: meeting.date,
+          title: meeting.title,
+          personIds: await meetingDAO.getAttendees(meeting.id),
+        });
+      }
+
+      // Interactions logged together (same time, type and note) read as one visit
+      const visitsByKey = new Map<string, Extract<TimelineEntry, { kind: 'visit' }>>();
+      for (const interaction of interactions) {
+        if (interaction.meetingId && meetingIds.has(interaction.meetingId)) continue;
+        const key = `${interaction.date.toISOString()}|${interaction.type}|${interaction.notes || ''}`;
+        const visit = visitsByKey.get(key);
+        if (visit) {
+          visit.personIds.push(interaction.personId);
+        } else {
+          visitsByKey.set(key, {
+            kind: 'visit',
+            id: interaction.id,
+            date: interaction.date,
+            type: interaction.type,
+            personIds: [interaction.personId],
+            notes: interaction.notes,
+          });
+        }
+      }
+      entries.push(...visitsByKey.values());
+      entries.sort((a, b) => b.date.getTime() - a.date.getTime());
+
+      setPlace(loadedPlace);
+      setNotes(loadedPlace?.notes || '');
+      setPeople(visits);
+      setTimeline(entries);
+      setAllPeople(persons);
+    } catch (error) {
+      console.error('[PlaceDetailScreen] Failed to load place:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [id, isInitialized]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const personName = (personId: string): string => {
+    const person = allPeople.find(p => p.id === personId);
+    return person ? `${person.firstName} ${person.lastName}`.trim() : 'Unknown';
+  };
+
+  const handleCategoryChange = async (category: Place['category']) => {
+    if (!place || place.category === category) return;
+    setPlace({ ...place, category });
+    const updated = await new PlaceDAO().update(place.id, { category });
+    if (updated) setPlace(updated);
+  };
+
+  const handleNotesBlur = async () => {
+    if (!place || notes.trim() === (place.notes || '')) return;
+    const updated = await new PlaceDAO().update(place.id, { notes: notes.trim() });
+    if (updated) setPlace(updated);
+  };
+
+  const handleLogVisit = async (personIds: string[], visitNotes?: string) => {
+    if (!place) return;
+    const interactionDAO = new InteractionDAO();
+    const personDAO = new PersonDAO();
+    const date = new Date();
+    try {
+      for (const personId of personIds) {
+        await interactionDAO.create({ personId, type: 'meeting', date, notes: visitNotes, placeId: place.id });
+        await personDAO.touchLastInteraction(personId, date);
+      }
+      setIsLoggingVisit(false);
+      await loadData();
+    } catch (error) {
+      Alert.alert('Could Not Log Visit', error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  if (isLoading && !place) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator size="large" color={theme.colors.primary} />
+      </View>
+    );
+  }
+
+  if (!place) {
+    return (
+      <View style={styles.container}>
+        <Stack.Screen options={{ title: 'Place' }} />
+        <EmptyState title="Place not found" subtitle="It may have been merged into another place" />
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <Stack.Screen options={{ title: place.name }} />
+      <ScrollView contentContainerStyle={styles.content}>
+        <View style={styles.card}>
+          <View style={styles.placeHeader}>
+            <MapPin size={20} color={theme.colors.primary} />
+            <View style={styles.placeInfo}>
+              <Text style={styles.placeName}>{place.name}</Text>
+              {place.address && <Text style={styles.placeAddress}>{place.address}</Text>}
+            </View>
+          </View>
+          <TouchableOpacity style={styles.pinRow} onPress={() => setIsEditingPin(true)}>
+            {hasCoordinates(place) ? (
+              <Text style={styles.pinText}>
+                {place.latitude.toFixed(5)}, {place.longitude.toFixed(5)}
+                {place.geocodeStatus === 'manual' ? ' · pinned by you' : ''}
+              </Text>
+            ) : (
+              <View style={styles.pinWarning}>
+                <AlertCircle size={14} color={theme.colors.warning} />
+                <Text style={styles.pinWarningText}>No location yet</Text>
+              </View>
+            )}
+            <Text style={styles.linkText}>Adjust pin</Text>
+          </TouchableOpacity>
+        </View>
+
+        <Text style={styles.sectionTitle}>Category</Text>
+        <View style={styles.chipRow}>
+          {CATEGORIES.map(category => (
+            <TouchableOpacity
+              key={category.key}
+              style={[styles.chip, place.category === category.key && styles.chipActive]}
+              onPress={() => handleCategoryChange(category.key)}
+            >
+              <Text style={[styles.chipText, place.category === category.key && styles.chipTextActive]}>
+                {category.label}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <Text style={styles.sectionTitle}>Notes</Text>
+        <TextInput
+          style={styles.notesInput}
+          value={notes}
+          onChangeText={setNotes}
+          onBlur={handleNotesBlur}
+          placeholder="Parking, favourite table, wifi password..."
+          placeholderTextColor={theme.colors.textLight}
+          multiline
+        />
+
+        <TouchableOpacity style={styles.logButton} onPress={() => setIsLoggingVisit(true)}>
+          <Plus size={18} color={theme.colors.surface} />
+          <Text style={styles.logButtonText}>Log a visit with…</Text>
+        </TouchableOpacity>
+
+        <Text style={styles.sectionTitle}>People met here</Text>
+        {people.length > 0 ? (
+          <View style={styles.card}>
+            {people.map((person, index) => (
+              <TouchableOpacity
+                key={person.personId}
+                style={[styles.personRow, index === people.length - 1 && styles.lastRow]}
+                onPress={() => router.push(`/contact/${person.personId}`)}
+              >
+                <Text style={styles.rank}>#{index + 1}</Text>
+                <View style={styles.personInfo}>
+                  <Text style={styles.personName}>{person.name}</Text>
+                  <Text style={styles.personMeta}>Last here {formatDate(person.lastVisit)}</Text>
+                </View>
+                <Text style={styles.visitCount}>{person.visitCount}×</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.emptyText}>Nobody logged here yet</Text>
+        )}
+
+        <Text style={styles.sectionTitle}>Timeline</Text>
+        {timeline.length > 0 ? (
+          <View style={styles.card}>
+            {timeline.map((entry, index) => (
+              <View key={`${entry.kind}_${entry.id}`} style={[styles.timelineRow, index === timeline.length - 1 && styles.lastRow]}>
+                {entry.kind === 'meeting'
+                  ? <Calendar size={16} color={theme.colors.primary} />
+                  : <Users size={16} color={theme.colors.accent} />}
+                <View style={styles.timelineInfo}>
+                  <Text style={styles.timelineTitle}>
+                    {entry.kind === 'meeting' ? entry.title : `${entry.type.charAt(0).toUpperCase()}${entry.type.slice(1)}`}
+                  </Text>
+                  {entry.personIds.length > 0 && (
+                    <Text style={styles.timelineMeta} numberOfLines={2}>
+                      {entry.personIds.map(personName).join(', ')}
+                    </Text>
+                  )}
+                  {entry.kind === 'visit' && entry.notes && (
+                    <Text style={styles.timelineNotes}>{entry.notes}</Text>
+                  )}
+                </View>
+                <Text style={styles.timelineDate}>{formatDate(entry.date)}</Text>
+              </View>
+            ))}
+          </View>
+        ) : (
+          <Text style={styles.emptyText}>No visits or meetings here yet</Text>
+        )}
+      </ScrollView>
+
+      <PlacePinEditor
+        place={isEditingPin ? place : null}
+        onClose={() => setIsEditingPin(false)}
+        onSaved={updated => {
+          setIsEditingPin(false);
+          setPlace(updated);
+        }}
+      />
+
+      <LogVisitModal
+        visible={isLoggingVisit}
+        placeName={place.name}
+        people={allPeople}
+        suggestedPersonIds={people.map(person => person.personId)}
+        onClose={() => setIsLoggingVisit(false)}
+        onSave={handleLogVisit}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: theme.colors.background,
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.background,
+  },
+  content: {
+    padding: theme.spacing.md,
+    paddingBottom: theme.spacing.xxl,
+  },
+  card: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    marginBottom: theme.spacing.md,
+    ...theme.shadows.sm,
+  },
+  placeHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  placeInfo: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+  },
+  placeName: {
+    ...theme.typography.headline,
+    color: theme.colors.text,
+  },
+  placeAddress: {
+    ...theme.typography.subheadline,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  pinRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: theme.spacing.sm,
+    paddingTop: theme.spacing.sm,
+    borderTopWidth: 1,
+    borderTopColor: theme.colors.border,
+  },
+  pinText: {
+    ...theme.typography.caption,
+    color: theme.colors.textSecondary,
+  },
+  pinWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  pinWarningText: {
+    ...theme.typography.caption,
+    color: theme.colors.warning,
+    marginLeft: theme.spacing.xs,
+  },
+  linkText: {
+    ...theme.typography.footnote,
+    color: theme.colors.primary,
+    fontWeight: '600',
+  },
+  sectionTitle: {
+    ...theme.typography.footnote,
+    color: theme.colors.textSecondary,
+    textTransform: 'uppercase',
+    marginBottom: theme.spacing.sm,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: theme.spacing.md,
+  },
+  chip: {
+    paddingHorizontal: theme.spacing.md,
+    paddingVertical: theme.spacing.xs + 2,
+    borderRadius: theme.borderRadius.full,
+    backgroundColor: theme.colors.surface,
+    borderWidth: 1,
+    borderColor: theme.colors.border,
+    marginRight: theme.spacing.sm,
+    marginBottom: theme.spacing.sm,
+  },
+  chipActive: {
+    backgroundColor: theme.colors.primary,
+    borderColor: theme.colors.primary,
+  },
+  chipText: {
+    ...theme.typography.footnote,
+    color: theme.colors.textSecondary,
+  },
+  chipTextActive: {
+    color: theme.colors.surface,
+    fontWeight: '600',
+  },
+  notesInput: {
+    backgroundColor: theme.colors.surface,
+    borderRadius: theme.borderRadius.md,
+    padding: theme.spacing.md,
+    minHeight: 80,
+    textAlignVertical: 'top',
+    color: theme.colors.text,
+    marginBottom: theme.spacing.md,
+  },
+  logButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: theme.colors.primary,
+    borderRadius: theme.borderRadius.md,
+    paddingVertical: theme.spacing.sm + 4,
+    marginBottom: theme.spacing.lg,
+  },
+  logButtonText: {
+    ...theme.typography.headline,
+    color: theme.colors.surface,
+    marginLeft: theme.spacing.sm,
+  },
+  personRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  lastRow: {
+    borderBottomWidth: 0,
+  },
+  rank: {
+    ...theme.typography.caption,
+    color: theme.colors.textLight,
+    width: 28,
+  },
+  personInfo: {
+    flex: 1,
+  },
+  personName: {
+    ...theme.typography.body,
+    color: theme.colors.text,
+  },
+  personMeta: {
+    ...theme.typography.caption,
+    color: theme.colors.textSecondary,
+  },
+  visitCount: {
+    ...theme.typography.headline,
+    color: theme.colors.primary,
+  },
+  timelineRow: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: theme.spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: theme.colors.border,
+  },
+  timelineInfo: {
+    flex: 1,
+    marginLeft: theme.spacing.sm,
+  },
+  timelineTitle: {
+    ...theme.typography.subheadline,
+    color: theme.colors.text,
+    fontWeight: '600',
+  },
+  timelineMeta: {
+    ...theme.typography.caption,
+    color: theme.colors.textSecondary,
+    marginTop: 2,
+  },
+  timelineNotes: {
+    ...theme.typography.caption,
+    color: theme.colors.textLight,
+    fontStyle: 'italic',
+    marginTop: 2,
+  },
+  timelineDate: {
+    ...theme.typography.caption,
+    color: theme.colors.textLight,
+    marginLeft: theme.spacing.sm,
+  },
+  emptyText: {
+    ...theme.typography.footnote,
+    color: theme.colors.textLight,
+    marginBottom: theme.spacing.lg,
+  },
+});
@@ -1,15 +1,24 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { View, Text, StyleSheet, ScrollView, TouchableOpacity } from 'react-native';
+import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Alert, ActivityIndicator } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { PlaceWithStats } from '@/models/Place';
+import { useFocusEffect, useRouter } from 'expo-router';
+import { Place, PlaceWithStats, hasCoordinates } from '@/models/Place';
 import { PlaceDAO } from '@/database/PlaceDAO';
 import { useDatabase } from '@/contexts/DatabaseContext';
-import { MapPin, Coffee, Utensils, Home, Building2, Trees, Users, Calendar, TrendingUp } from 'lucide-react-native';
+import { PlaceGeocodingService } from '@/services/PlaceGeocodingService';
+import { PlaceCluster, PlaceClusterService } from '@/services/PlaceClusterService';
+import { MapPin, Coffee, Utensils, Home, Building2, Trees, Users, Calendar, TrendingUp, AlertCircle, GitMerge, X } from 'lucide-react-native';
+
+const clusterKey = (cluster: PlaceCluster) =>
+  [cluster.canonical.id, ...cluster.duplicates.map(place => place.id)].sort().join('|');
 
 export const PlacesScreen: React.FC = () => {
   const [places, setPlaces] = useState<PlaceWithStats[]>([]);
   const [selectedCategory, setSelectedCategory] = useState<'all' | 'frequent'>('frequent');
+  const [clusters, setClusters] = useState<PlaceCluster[]>([]);
+  const [mergingKey, setMergingKey] = useState<string | null>(null);
   const { database } = useDatabase();
+  const router = useRouter();
 
   const loadData = useCallback(async () => {
     if (!database?.isAvailable()) return;
@@ -18,14 +27,77 @@ export const PlacesScreen: React.FC = () => {
       const placeDAO = new PlaceDAO();
       const frequentPlaces = await placeDAO.getFrequentPlaces(20);
       setPlaces(frequentPlaces);
+      setClusters(await PlaceClusterService.getInstance().findClusters());
     } catch (error) {
       console.error('Failed to load places:', error);
     }
   }, [database]);
 
+  // Reload on focus so edits and merges made on the place screen show up
+  useFocusEffect(
+    useCallback(() => {
+      loadData();
+    }, [loadData])
+  );
+
+  // Lookups run in the foreground too, since background geocoding is throttled by the OS
   useEffect(() => {
-    loadData();
-  }, [loadData]);
+    if (!database?.isAvailable()) return;
+    PlaceGeocodingService.getInstance().processQueue()
+      .then(result => {
+        if (result.resolved > 0) loadData();
+      })
+      .catch(error => console.error('Failed to geocode places:', error));
+  }, [database, loadData]);
+
+  // Tapping a place in a cluster makes it the one to keep
+  const handleChooseCanonical = (cluster: PlaceCluster, place: Place) => {
+    const key = clusterKey(cluster);
+    const members = [cluster.canonical, ...cluster.duplicates];
+    setClusters(current => current.map(item => (
+      clusterKey(item) === key
+        ? { ...item, canonical: place, duplicates: members.filter(member => member.id !== place.id) }
+        : item
+    )));
+  };
+
+  const handleMerge = (cluster: PlaceCluster) => {
+    const names = cluster.duplicates.map(place => place.name).join(', ');
+    Alert.alert(
+      'Merge Places',
+      `Move all visits and meetings from ${names} into ${cluster.canonical.name}? The other places will be deleted.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Merge',
+          style: 'destructive',
+          onPress: async () => {
+            setMergingKey(clusterKey(cluster));
+            try {
+              await PlaceClusterService.getInstance().merge(
+                cluster.canonical.id,
+                cluster.duplicates.map(place => place.id)
+              );
+              await loadData();
+            } catch (error) {
+              Alert.alert('Merge Failed', error instanceof Error ? error.message : 'Unknown error');
+            } finally {
+              setMergingKey(null);
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  const handleKeepSeparate = async (cluster: PlaceCluster) => {
+    const key = clusterKey(cluster);
+    setClusters(current => current.filter(item => clusterKey(item) !== key));
+    await PlaceClusterService.getInstance().dismiss([cluster.canonical.id, ...cluster.duplicates.map(place => place.id)]);
+  };
+
+  const needsPin = (place: Place) =>
+    place.geocodeStatus === 'failed' || !hasCoordinates(place);
 
   const getCategoryIcon = (category: PlaceWithStats['category']) => {
     switch (category) {
@@ -118,9 +190,56 @@ export const PlacesScreen: React.FC = () => {
       </ScrollView>
 
       <ScrollView style={styles.placesList}>
+        {clusters.length > 0 && (
+          <View style={styles.clusterSection}>
+            <Text style={styles.sectionTitle}>Possible duplicates</Text>
+            {clusters.map(cluster => {
+              const key = clusterKey(cluster);
+              const isMerging = mergingKey === key;
+              return (
+                <View key={key} style={styles.clusterCard}>
+                  <Text style={styles.clusterReasons}>{cluster.reasons.join(' · ')}</Text>
+                  {[cluster.canonical, ...cluster.duplicates].map(place => {
+                    const isCanonical = place.id === cluster.canonical.id;
+                    return (
+                      <TouchableOpacity
+                        key={place.id}
+                        style={styles.clusterMember}
+                        onPress={() => handleChooseCanonical(cluster, place)}
+                        disabled={isMerging}
+                      >
+                        <Text style={[styles.clusterLabel, isCanonical && styles.clusterLabelKeep]}>
+                          {isCanonical ? 'Keep' : 'Merge in'}
+                        </Text>
+                        <Text style={styles.clusterName} numberOfLines={1}>{place.name}</Text>
+                      </TouchableOpacity>
+                    );
+                  })}
+                  <View style={styles.clusterActions}>
+                    <TouchableOpacity style={styles.clusterButton} onPress={() => handleKeepSeparate(cluster)} disabled={isMerging}>
+                      <X size={14} color="#7F8C8D" />
+                      <Text style={styles.clusterButtonText}>Keep separate</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity style={[styles.clusterButton, styles.mergeButton]} onPress={() => handleMerge(cluster)} disabled={isMerging}>
+                      {isMerging ? (
+                        <ActivityIndicator size="small" color="white" />
+                      ) : (
+                        <>
+                          <GitMerge size={14} color="white" />
+                          <Text style={styles.mergeButtonText}>Merge</Text>
+                        </>
+                      )}
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              );
+            })}
+          </View>
+        )}
+
         {filteredPlaces.length > 0 ? (
           filteredPlaces.map((place, index) => (
-            <TouchableOpacity key={place.id} style={styles.placeCard} activeOpacity={0.7}>
+            <TouchableOpacity key={place.id} style={styles.placeCard} activeOpacity={0.7} onPress={() => router.push(`/place/${place.id}`)}>
               <View style={styles.placeHeader}>
                 <View style={[styles.iconContainer, { backgroundColor: getCategoryColor(place.category) }]}>
                   {getCategoryIcon(place.category)}
@@ -130,6 +249,14 @@ export const PlacesScreen: React.FC = () => {
                   {place.address && (
                     <Text style={styles.placeAddress}>{place.address}</Text>
                   )}
+                  {needsPin(place) && (
+                    <View style={styles.pinWarning}>
+                      <AlertCircle size={12} color="#E67E22" />
+                      <Text style={styles.pinWarningText}>
+                        {place.geocodeStatus === 'failed' ? 'Location not found' : 'Locating'} · set pin
+                      </Text>
+                    </View>
+                  )}
                 </View>
                 <View style={styles.rankBadge}>
                   <Text style={styles.rankText}>#{index + 1}</Text>
@@ -266,6 +393,89 @@ const styles = StyleSheet.create({
     color: '#7F8C8D',
     marginBottom: 4,
   },
+  clusterSection: {
+    marginHorizontal: 16,
+    marginTop: 6,
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: '#7F8C8D',
+    textTransform: 'uppercase',
+    marginBottom: 8,
+  },
+  clusterCard: {
+    backgroundColor: 'white',
+    padding: 16,
+    borderRadius: 12,
+    marginBottom: 8,
+    borderWidth: 1,
+    borderColor: '#FDEBD0',
+  },
+  clusterReasons: {
+    fontSize: 12,
+    color: '#E67E22',
+    marginBottom: 8,
+  },
+  clusterMember: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 6,
+  },
+  clusterLabel: {
+    width: 64,
+    fontSize: 11,
+    fontWeight: '600' as const,
+    color: '#95A5A6',
+    textTransform: 'uppercase',
+  },
+  clusterLabelKeep: {
+    color: '#27AE60',
+  },
+  clusterName: {
+    flex: 1,
+    fontSize: 15,
+    color: '#2C3E50',
+  },
+  clusterActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 8,
+  },
+  clusterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#F0F3F7',
+  },
+  clusterButtonText: {
+    fontSize: 13,
+    color: '#7F8C8D',
+  },
+  mergeButton: {
+    backgroundColor: '#45B7D1',
+    minWidth: 80,
+    justifyContent: 'center',
+  },
+  mergeButtonText: {
+    fontSize: 13,
+    fontWeight: '600' as const,
+    color: 'white',
+  },
+  pinWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  pinWarningText: {
+    fontSize: 12,
+    color: '#E67E22',
+  },
   placeNotes: {
     fontSize: 13,
     color: '#95A5A6',
@@ -7,25 +7,27 @@ import {
   TouchableOpacity,
   Animated,
   PanResponder,
-  Dimensions,
   Image,
 } from 'react-native';
 import { FlashList } from '@shopify/flash-list';
 import { PersonDAO } from '@/database/PersonDAO';
 import { PersonScoreDAO } from '@/database/PersonScoreDAO';
 import { InteractionDAO } from '@/database/InteractionDAO';
+import { AnnotationDAO } from '@/database/AnnotationDAO';
+import { SnoozeDAO } from '@/database/SnoozeDAO';
 import { Person } from '@/models/Person';
 import { PersonScore } from '@/models/PersonScore';
+import { ANNOTATION_TYPES, CHANNEL_OPTIONS } from '@/models/Annotation';
 import { Clock, CheckCircle, Bell } from 'lucide-react-native';
 import { useRouter } from 'expo-router';
 import { GradientHeader } from '@/components/GradientHeader';
 import { ConfettiAnimation } from '@/components/ConfettiAnimation';
+import { SnoozeModal } from '@/components/SnoozeModal';
+import { MarkTouchedModal } from '@/components/MarkTouchedModal';
 import { theme } from '@/constants/theme';
 import { ScoreJob } from '@/jobs/ScoreJob';
 import { Database } from '@/database/Database';
 
-const { width: screenWidth } = Dimensions.get('window');
-
 interface RankedPerson {
   person: Person;
   score: PersonScore;
@@ -92,7 +94,7 @@ const SwipeablePersonRow: React.FC<SwipeablePersonRowProps> = ({
 
   const handleSnooze = () => {
     Animated.timing(translateX, {
-      toValue: -screenWidth,
+      toValue: 0,
       duration: 200,
       useNativeDriver: true,
     }).start(() => {
@@ -178,13 +180,16 @@ export const RecentsScreen: React.FC = () => {
   const router = useRouter();
   const [refreshing, setRefreshing] = useState(false);
   const [rankedPeople, setRankedPeople] = useState<RankedPerson[]>([]);
-  const [markedTouched, setMarkedTouched] = useState<Set<string>>(new Set());
-  const [snoozed, setSnoozed] = useState<Set<string>>(new Set());
+  const [preferredChannels, setPreferredChannels] = useState<Map<string, string>>(new Map());
+  const [touchTarget, setTouchTarget] = useState<Person | null>(null);
+  const [snoozeTarget, setSnoozeTarget] = useState<Person | null>(null);
   const [showConfetti, setShowConfetti] = useState(false);
 
   const personDAO = new PersonDAO();
   const personScoreDAO = new PersonScoreDAO();
   const interactionDAO = new InteractionDAO();
+  const annotationDAO = new AnnotationDAO();
+  const snoozeDAO = new SnoozeDAO();
 
   const loadData = async () => {
     try {
@@ -199,11 +204,19 @@ export const RecentsScreen: React.FC = () => {
       const scoreJob = ScoreJob.getInstance();
       await scoreJob.run();
 
-      const [allPeople, allScores] = await Promise.all([
+      const [allPeople, allScores, snoozed, channelAnnotations] = await Promise.all([
         personDAO.findAllPersons(),
         personScoreDAO.findAll(),
+        snoozeDAO.getActivePersonIds(),
+        annotationDAO.findByType(ANNOTATION_TYPES.PREFERRED_CHANNEL),
       ]);
 
+      setPreferredChannels(new Map(
+        channelAnnotations
+          .filter(annotation => annotation.entityType === 'person')
+          .map(annotation => [annotation.entityId, annotation.content])
+      ));
+
       // Convert DB objects to model objects
       const peopleModels: Person[] = [];
       for (const person of allPeople) {
@@ -214,6 +227,7 @@ export const RecentsScreen: React.FC = () => {
       
       // Rank people by interaction score and recency
       const ranked = peopleModels
+        .filter(person => !snoozed.has(person.id))
         .map(person => {
           const score = scoreMap.get(person.id);
           if (!score) return null;
@@ -265,29 +279,39 @@ export const RecentsScreen: React.FC = () => {
     setRefreshing(false);
   };
 
-  const handleMarkTouched = async (personId: string) => {
+  const handleMarkTouched = async (channel: string) => {
+    if (!touchTarget) return;
+    const personId = touchTarget.id;
     try {
-      // Mark person as touched in database
-      await interactionDAO.markPersonTouched(personId, 'message', 'Marked as touched from Recents screen');
-      
-      setMarkedTouched(prev => new Set(prev).add(personId));
+      const label = CHANNEL_OPTIONS.find(option => option.value === channel)?.label ?? channel;
+      await interactionDAO.markPersonTouched(personId, channel, `Marked as touched from Recents screen (${label})`);
+
+      // Show the touch right away; the reload below brings the recomputed score
+      setRankedPeople(prev => prev.map(item => item.person.id === personId
+        ? { ...item, score: { ...item.score, lastInteractionDaysAgo: 0 }, lastInteractionText: 'Today' }
+        : item
+      ));
+      setTouchTarget(null);
       setShowConfetti(true);
-      
-      // Refresh data to update scores
-      setTimeout(() => {
-        loadData();
-      }, 1000);
-      
-      console.log(`Marked ${personId} as touched`);
+      loadData();
+
+      console.log(`Marked ${personId} as touched via ${channel}`);
     } catch (error) {
       console.error('Failed to mark person as touched:', error);
     }
   };
 
-  const handleSnooze = (personId: string) => {
-    setSnoozed(prev => new Set(prev).add(personId));
-    // In a real app, this would create a snooze record with expiration
-    console.log(`Snoozed ${personId}`);
+  const handleSnooze = async (until: Date) => {
+    if (!snoozeTarget) return;
+    const personId = snoozeTarget.id;
+    try {
+      await snoozeDAO.snooze(personId, until);
+      setRankedPeople(prev => prev.filter(item => item.person.id !== personId));
+      setSnoozeTarget(null);
+      console.log(`Snoozed ${personId} until ${until.toISOString()}`);
+    } catch (error) {
+      console.error('Failed to snooze person:', error);
+    }
   };
 
   const handlePersonPress = (personId: string) => {
@@ -296,11 +320,8 @@ export const RecentsScreen: React.FC = () => {
 
   const renderPerson = ({ item }: { item: RankedPerson }) => {
     const { person, score, lastInteractionText } = item;
-    const isTouched = markedTouched.has(person.id);
-    const isSnoozed = snoozed.has(person.id);
-    
-    if (isSnoozed) return null;
-    
+    const isTouched = score.lastInteractionDaysAgo === 0;
+
     return (
       <SwipeablePersonRow
         person={person}
@@ -308,14 +329,12 @@ export const RecentsScreen: React.FC = () => {
         lastInteractionText={lastInteractionText}
         isTouched={isTouched}
         onPress={() => handlePersonPress(person.id)}
-        onMarkTouched={() => handleMarkTouched(person.id)}
-        onSnooze={() => handleSnooze(person.id)}
+        onMarkTouched={() => setTouchTarget(person)}
+        onSnooze={() => setSnoozeTarget(person)}
       />
     );
   };
 
-  const filteredPeople = rankedPeople.filter(p => !snoozed.has(p.person.id));
-
   return (
     <View style={styles.container}>
       <GradientHeader
@@ -324,7 +343,7 @@ export const RecentsScreen: React.FC = () => {
       />
 
       <FlashList
-        data={filteredPeople}
+        data={rankedPeople}
         renderItem={renderPerson}
         keyExtractor={item => item.person.id}
         refreshControl={
@@ -337,6 +356,19 @@ export const RecentsScreen: React.FC = () => {
           </View>
         }
       />
+      <MarkTouchedModal
+        visible={touchTarget !== null}
+        personName={touchTarget ? touchTarget.firstName : ''}
+        preferredChannel={touchTarget ? preferredChannels.get(touchTarget.id) : undefined}
+        onClose={() => setTouchTarget(null)}
+        onSelect={handleMarkTouched}
+      />
+      <SnoozeModal
+        visible={snoozeTarget !== null}
+        personName={snoozeTarget ? snoozeTarget.firstName : ''}
+        onClose={() => setSnoozeTarget(null)}
+        onSnooze={handleSnooze}
+      />
       <ConfettiAnimation 
         isVisible={showConfetti} 
         onComplete={() => setShowConfetti(false)}
@@ -2,7 +2,7 @@ import React, { useEffect } from 'react';
 import { View, Text, StyleSheet, ScrollView, TouchableOpacity, Switch, Alert, Platform } from 'react-native';
 import { useRouter } from 'expo-router';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { Bell, Lock, Palette, HelpCircle, Info, LogOut, ChevronRight, RefreshCw, Brain, Download, Camera, MapPin, Shield, Upload, FileText, Users, Calendar as CalendarIcon, Mail, Calculator, Cpu } from 'lucide-react-native';
+import { Bell, Lock, Palette, HelpCircle, Info, LogOut, ChevronRight, RefreshCw, Brain, Download, Camera, MapPin, Shield, Upload, FileText, Users, Calendar as CalendarIcon, Mail, Calculator, Cpu, GitMerge, Undo2 } from 'lucide-react-native';
 import { BackgroundTaskManager } from '../services/BackgroundTaskManager';
 import { ENABLE_GOOGLE_OAUTH } from '../src/flags';
 
@@ -22,12 +22,18 @@ import { useContacts } from '@/contexts/ContactsContext';
 import { useDatabase } from '@/contexts/DatabaseContext';
 import { useOnboarding } from '@/contexts/OnboardingContext';
 import { CalendarListener } from '../services/CalendarListener';
+import { CalendarIngest, CalendarAttendeeRules, CalendarOption, DEFAULT_ATTENDEE_RULES } from '../services/CalendarIngest';
 import { PersonDAO } from '../database/PersonDAO';
 import { MeetingDAO } from '../database/MeetingDAO';
 import { PlaceDAO } from '../database/PlaceDAO';
 import { InteractionDAO } from '../database/InteractionDAO';
+import { ChangeHistoryService } from '../services/ChangeHistoryService';
+import { ProximityNudgeService } from '../services/ProximityNudgeService';
 
 import { ScoreJob } from '../jobs/ScoreJob';
+import { ScoringProfileEditor } from '@/components/ScoringProfileEditor';
+import { ScoringConfig, ScoringProfile, DEFAULT_SCORING_TIER, DEFAULT_TIER_PROFILES } from '@/models/ScoringProfile';
+import { TIER_OPTIONS } from '@/models/Annotation';
 import * as LocalAuthentication from 'expo-local-authentication';
 
 type SettingItem = 
@@ -50,6 +56,11 @@ export const SettingsScreen: React.FC = () => {
   const [supportedAuthTypes, setSupportedAuthTypes] = React.useState<LocalAuthentication.AuthenticationType[]>([]);
   const [isCalendarImporting, setIsCalendarImporting] = React.useState(false);
   const [lastCalendarImport, setLastCalendarImport] = React.useState<Date | null>(null);
+  const [attendeeRules, setAttendeeRules] = React.useState<CalendarAttendeeRules>(DEFAULT_ATTENDEE_RULES);
+  const [calendarOptions, setCalendarOptions] = React.useState<CalendarOption[]>([]);
+  const [proximityNudgesEnabled, setProximityNudgesEnabled] = React.useState(false);
+  const [scoringConfig, setScoringConfig] = React.useState<ScoringConfig | null>(null);
+  const [editingScoringTier, setEditingScoringTier] = React.useState<string | null>(null);
 
   const [healthTapCount, setHealthTapCount] = React.useState(0);
   
@@ -70,6 +81,102 @@ export const SettingsScreen: React.FC = () => {
   const isCalendarEnabled = syncPreferences.calendarEnabled;
 
 
+  useEffect(() => {
+    CalendarIngest.getAttendeeRules().then(setAttendeeRules);
+    ProximityNudgeService.getInstance().isEnabled().then(setProximityNudgesEnabled);
+    ScoreJob.getScoringConfig().then(setScoringConfig);
+  }, []);
+
+  const scoringTiers = [
+    { value: DEFAULT_SCORING_TIER, label: 'No Tier' },
+    ...TIER_OPTIONS.map(option => ({ value: option.value, label: option.label })),
+  ];
+
+  const isScoringProfileCustomized = (tier: string) => {
+    const profile = scoringConfig?.profiles[tier];
+    const builtIn = DEFAULT_TIER_PROFILES[tier] ?? DEFAULT_TIER_PROFILES[DEFAULT_SCORING_TIER];
+    return !!profile && JSON.stringify(profile) !== JSON.stringify(builtIn);
+  };
+
+  const applyScoringProfile = async (profile: ScoringProfile | null) => {
+    if (!editingScoringTier) return;
+    try {
+      setScoringConfig(await ScoreJob.setScoringProfile(editingScoringTier, profile));
+      setEditingScoringTier(null);
+      // Recompute in the background so every score reflects the new profile version
+      ScoreJob.getInstance().run().then(result => {
+        console.log(`[Settings] Rescored ${result.scoresComputed} contacts after profile change`);
+      });
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to save scoring profile');
+    }
+  };
+
+  const handleProximityNudgesToggle = async (enabled: boolean) => {
+    setProximityNudgesEnabled(enabled);
+    const applied = await ProximityNudgeService.getInstance().setEnabled(enabled);
+    if (!applied) {
+      setProximityNudgesEnabled(false);
+      Alert.alert(
+        'Location Permission Required',
+        'Allow location access to be reminded when you are near places where you have met people. Your location never leaves this device.'
+      );
+    }
+  };
+
+  const updateAttendeeRule = async (updates: Partial<CalendarAttendeeRules>) => {
+    setAttendeeRules(current => ({ ...current, ...updates }));
+    setAttendeeRules(await CalendarIngest.setAttendeeRules(updates));
+  };
+
+  const getCalendarListener = () => CalendarListener.getInstance(
+    new PersonDAO(),
+    new MeetingDAO(),
+    new PlaceDAO(),
+    new InteractionDAO()
+  );
+
+  useEffect(() => {
+    if (!isCalendarEnabled || Platform.OS === 'web') return;
+    getCalendarListener()
+      .listCalendars()
+      .then(setCalendarOptions)
+      .catch(error => console.warn('[SettingsScreen] Failed to list calendars:', error));
+  }, [isCalendarEnabled]);
+
+  const applyCalendarIncluded = async (calendarId: string, included: boolean) => {
+    setCalendarOptions(current => current.map(option => (
+      option.id === calendarId ? { ...option, isIncluded: included } : option
+    )));
+    try {
+      const purged = await getCalendarListener().setCalendarIncluded(calendarId, included);
+      if (purged > 0) {
+        Alert.alert('Calendar Excluded', `Removed ${purged} meeting${purged === 1 ? '' : 's'} imported from this calendar.`);
+      }
+    } catch (error) {
+      console.error('[SettingsScreen] Failed to update calendar selection:', error);
+      setCalendarOptions(current => current.map(option => (
+        option.id === calendarId ? { ...option, isIncluded: !included } : option
+      )));
+    }
+  };
+
+  const toggleCalendarIncluded = (calendar: CalendarOption, included: boolean) => {
+    if (included) {
+      applyCalendarIncluded(calendar.id, true);
+      return;
+    }
+
+    Alert.alert(
+      'Exclude Calendar',
+      `Stop importing "${calendar.title}"? Meetings already imported from it, and the interactions they created, will be removed.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Exclude', style: 'destructive', onPress: () => applyCalendarIncluded(calendar.id, false) },
+      ]
+    );
+  };
+
   useEffect(() => {
     const loadTaskStatus = async () => {
       const taskManager = BackgroundTaskManager.getInstance();
@@ -306,7 +413,7 @@ export const SettingsScreen: React.FC = () => {
   const handleManualScore = async () => {
     try {
       const taskManager = BackgroundTaskManager.getInstance();
-      const result = await taskManager.runIndexAndScore();
+      const result = await taskManager.runIndexAndScore({ fullRescore: true });
 
       if (result.success) {
         Alert.alert('Success', `Scoring completed. Updated ${result.scoresComputed} contacts.`);
@@ -466,6 +573,38 @@ export const SettingsScreen: React.FC = () => {
   };
 
 
+  const handleUndoLastChange = async () => {
+    try {
+      const [latest] = await ChangeHistoryService.getInstance().getUndoable(1);
+      if (!latest) {
+        Alert.alert('Nothing to Undo', 'There are no recent changes to undo.');
+        return;
+      }
+
+      Alert.alert(
+        'Undo Last Change',
+        `Undo "${latest.description}"?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Undo',
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await ChangeHistoryService.getInstance().undoLast(1);
+                Alert.alert('Undone', latest.description);
+              } catch (error) {
+                Alert.alert('Undo Failed', error instanceof Error ? error.message : 'Unknown error');
+              }
+            },
+          },
+        ]
+      );
+    } catch (error) {
+      console.error('[SettingsScreen] Failed to load change history:', error);
+    }
+  };
+
   const handleImportCalendar = async () => {
     if (isCalendarImporting || !isInitialized) return;
     
@@ -673,6 +812,20 @@ export const SettingsScreen: React.FC = () => {
           onPress: handleImportCalendar,
           loading: isCalendarImporting,
         },
+        {
+          icon: <GitMerge size={20} color="#9B59B6" />,
+          label: 'Review duplicate contacts',
+          subtitle: 'Find and merge people listed more than once',
+          type: 'action' as const,
+          onPress: () => router.push('/duplicates'),
+        },
+        {
+          icon: <Undo2 size={20} color="#F39C12" />,
+          label: 'Undo last change',
+          subtitle: 'Revert the most recent edit, merge or deletion',
+          type: 'action' as const,
+          onPress: handleUndoLastChange,
+        },
 
         {
           icon: <RefreshCw size={20} color="#E74C3C" />,
@@ -691,6 +844,54 @@ export const SettingsScreen: React.FC = () => {
       ],
     },
 
+    ...(calendarOptions.length > 0 ? [{
+      title: 'Calendars',
+      items: calendarOptions.map(calendar => ({
+        icon: <CalendarIcon size={20} color={calendar.color || '#3498DB'} />,
+        label: calendar.title,
+        subtitle: calendar.sourceName,
+        type: 'switch' as const,
+        value: calendar.isIncluded,
+        onValueChange: (value: boolean) => toggleCalendarIncluded(calendar, value),
+      })),
+    }] : []),
+    {
+      title: 'Calendar Attendees',
+      items: [
+        {
+          icon: <Users size={20} color="#3498DB" />,
+          label: 'Skip myself',
+          subtitle: 'Ignore your own addresses on invites',
+          type: 'switch' as const,
+          value: attendeeRules.skipSelf,
+          onValueChange: (value: boolean) => updateAttendeeRule({ skipSelf: value }),
+        },
+        {
+          icon: <MapPin size={20} color="#3498DB" />,
+          label: 'Skip rooms and resources',
+          subtitle: 'Ignore meeting rooms and shared calendars',
+          type: 'switch' as const,
+          value: attendeeRules.skipResources,
+          onValueChange: (value: boolean) => updateAttendeeRule({ skipResources: value }),
+        },
+        {
+          icon: <CalendarIcon size={20} color="#3498DB" />,
+          label: 'Skip declined guests',
+          subtitle: 'Only count people who did not decline',
+          type: 'switch' as const,
+          value: attendeeRules.skipDeclined,
+          onValueChange: (value: boolean) => updateAttendeeRule({ skipDeclined: value }),
+        },
+        {
+          icon: <Users size={20} color="#27AE60" />,
+          label: 'Add unknown guests as contacts',
+          subtitle: 'Create a contact for attendees not in your list',
+          type: 'switch' as const,
+          value: attendeeRules.createUnknownPersons,
+          onValueChange: (value: boolean) => updateAttendeeRule({ createUnknownPersons: value }),
+        },
+      ],
+    },
     {
       title: 'Preferences',
       items: [
@@ -708,6 +909,14 @@ export const SettingsScreen: React.FC = () => {
           value: reminders,
           onValueChange: setReminders,
         },
+        {
+          icon: <MapPin size={20} color="#45B7D1" />,
+          label: 'Nearby Reminders',
+          subtitle: 'Notice when you are near places you met people',
+          type: 'switch' as const,
+          value: proximityNudgesEnabled,
+          onValueChange: handleProximityNudgesToggle,
+        },
         {
           icon: <Palette size={20} color="#FF6B6B" />,
           label: 'Appearance',
@@ -715,6 +924,25 @@ export const SettingsScreen: React.FC = () => {
         },
       ],
     },
+    {
+      title: 'Scoring',
+      items: [
+        ...scoringTiers.map(tier => ({
+          icon: <Calculator size={20} color={TIER_OPTIONS.find(option => option.value === tier.value)?.color || '#7F8C8D'} />,
+          label: tier.label,
+          subtitle: isScoringProfileCustomized(tier.value) ? 'Custom weights' : 'Built-in weights',
+          type: 'action' as const,
+          onPress: () => setEditingScoringTier(tier.value),
+        })),
+        {
+          icon: <RefreshCw size={20} color="#27AE60" />,
+          label: 'Recompute scores now',
+          subtitle: scoringConfig ? `Scoring profiles version ${scoringConfig.version}` : undefined,
+          type: 'action' as const,
+          onPress: handleManualScore,
+        },
+      ],
+    },
     {
       title: 'Security',
       items: [
@@ -839,6 +1067,15 @@ export const SettingsScreen: React.FC = () => {
           <Text style={styles.copyright}>Made with ❤️ for meaningful connections</Text>
         </View>
       </ScrollView>
+
+      <ScoringProfileEditor
+        visible={editingScoringTier !== null}
+        tierLabel={scoringTiers.find(tier => tier.value === editingScoringTier)?.label ?? ''}
+        profile={editingScoringTier ? scoringConfig?.profiles[editingScoringTier] ?? null : null}
+        onClose={() => setEditingScoringTier(null)}
+        onSave={applyScoringProfile}
+        onReset={() => applyScoringProfile(null)}
+      />
     </SafeAreaView>
   );
 };
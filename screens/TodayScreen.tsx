@@ -1,6 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { View, Text, StyleSheet, ScrollView, RefreshControl, Animated, TouchableOpacity, Alert } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
+import { useRouter } from 'expo-router';
 import { RefreshCw } from 'lucide-react-native';
 import { PersonDAO } from '@/database/PersonDAO';
 import { TaskDAO } from '@/database/TaskDAO';
@@ -8,18 +9,21 @@ import { PersonScoreDAO } from '@/database/PersonScoreDAO';
 import { ThreadDAO } from '@/database/ThreadDAO';
 import { MessageDAO } from '@/database/MessageDAO';
 import { MeetingDAO } from '@/database/MeetingDAO';
+import { MeetingSeriesDAO } from '@/database/MeetingSeriesDAO';
 import { InteractionDAO } from '@/database/InteractionDAO';
 import { TaskCard } from '@/components/TaskCard';
 import { PersonCard } from '@/components/PersonCard';
 import { ThreadSummaryCard } from '@/components/ThreadSummaryCard';
 import { FollowUpTaskCard } from '@/components/FollowUpTaskCard';
 import { MeetingPrepCard } from '@/components/MeetingPrepCard';
+import { ProximityNudgeCard } from '@/components/ProximityNudgeCard';
 import { Person } from '@/models/Person';
 import { Task } from '@/models/Task';
 import { PersonScore } from '@/models/PersonScore';
 import { Thread } from '@/models/Thread';
 import { Message } from '@/models/Message';
 import { Meeting } from '@/models/Meeting';
+import { MeetingSeriesPosition } from '@/models/MeetingSeries';
 import { Interaction } from '@/models/Interaction';
 import { GradientHeader } from '@/components/GradientHeader';
 import { DataSourceBanner } from '@/components/DataSourceBanner';
@@ -27,6 +31,9 @@ import { theme } from '@/constants/theme';
 import { ScoreJob } from '@/jobs/ScoreJob';
 import { BackgroundTaskManager } from '@/services/BackgroundTaskManager';
 import { FollowUpService } from '@/services/FollowUpService';
+import { CadenceService } from '@/services/CadenceService';
+import { ReachOutCandidate } from '@/models/Cadence';
+import { ProximityNudge, ProximityNudgeService } from '@/services/ProximityNudgeService';
 
 export const TodayScreen: React.FC = () => {
   const [refreshing, setRefreshing] = useState(false);
@@ -40,8 +47,12 @@ export const TodayScreen: React.FC = () => {
   const [upcomingMeetings, setUpcomingMeetings] = useState<Meeting[]>([]);
   const [meetingAttendees, setMeetingAttendees] = useState<Map<string, Person[]>>(new Map());
   const [meetingInteractions, setMeetingInteractions] = useState<Map<string, Interaction[]>>(new Map());
+  const [meetingSeriesPositions, setMeetingSeriesPositions] = useState<Map<string, MeetingSeriesPosition>>(new Map());
   const [peopleMap, setPeopleMap] = useState<Map<string, Person>>(new Map());
   const [scoresMap, setScoresMap] = useState<Map<string, PersonScore>>(new Map());
+  const [scoreTrends, setScoreTrends] = useState<Map<string, number[]>>(new Map());
+  const [proximityNudges, setProximityNudges] = useState<ProximityNudge[]>([]);
+  const router = useRouter();
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const rotateAnim = useRef(new Animated.Value(0)).current;
 
@@ -51,6 +62,7 @@ export const TodayScreen: React.FC = () => {
   const threadDAO = new ThreadDAO();
   const messageDAO = new MessageDAO();
   const meetingDAO = new MeetingDAO();
+  const meetingSeriesDAO = new MeetingSeriesDAO();
   const interactionDAO = new InteractionDAO();
 
   const loadData = async () => {
@@ -77,6 +89,13 @@ export const TodayScreen: React.FC = () => {
         console.log('[TodayScreen] Score job failed (non-critical):', scoreError);
       }
       
+      // Check whether we're near somewhere we've met people (opt-in, on-device only)
+      try {
+        setProximityNudges(await ProximityNudgeService.getInstance().checkCurrentLocation());
+      } catch (nudgeError) {
+        console.log('[TodayScreen] Proximity check failed (non-critical):', nudgeError);
+      }
+
       // Process threads for follow-ups
       try {
         await FollowUpService.processRecentMessages(24);
@@ -84,6 +103,16 @@ export const TodayScreen: React.FC = () => {
         console.log('[TodayScreen] Follow-up processing failed (non-critical):', followUpError);
       }
 
+      // Who is past their cadence, and reminder tasks to match
+      let overdue: ReachOutCandidate[] = [];
+      try {
+        const cadenceService = CadenceService.getInstance();
+        overdue = await cadenceService.getOverdue();
+        await cadenceService.syncReminderTasks(overdue);
+      } catch (cadenceError) {
+        console.log('[TodayScreen] Cadence check failed (non-critical):', cadenceError);
+      }
+
       const [
         tasks, 
         allPeople, 
@@ -159,6 +188,7 @@ export const TodayScreen: React.FC = () => {
       // Load attendees and interactions for meetings
       const attendeesMap = new Map<string, Person[]>();
       const interactionsMap = new Map<string, Interaction[]>();
+      const seriesPositionsMap = new Map<string, MeetingSeriesPosition>();
       
       for (const meeting of upcomingMeetingsList) {
         const attendeeIds = await meetingDAO.getAttendees(meeting.id);
@@ -171,27 +201,26 @@ export const TodayScreen: React.FC = () => {
           .filter(interaction => attendeeIds.includes(interaction.personId))
           .map(interaction => interaction as unknown as Interaction);
         interactionsMap.set(meeting.id, meetingInteractionsList);
+
+        const seriesPosition = await meetingSeriesDAO.getPosition(meeting);
+        if (seriesPosition) {
+          seriesPositionsMap.set(meeting.id, seriesPosition);
+        }
       }
       
       setMeetingAttendees(attendeesMap);
       setMeetingInteractions(interactionsMap);
+      setMeetingSeriesPositions(seriesPositionsMap);
 
       // Find people with birthdays in next 7 days (simplified - would need birthday field)
       setBirthdayPeople([]);
 
-      // Find people we haven't interacted with recently based on scores
-      const reachOut = peopleModels
-        .filter(p => {
-          const score = scoreMap.get(p.id);
-          return score && score.lastInteractionDaysAgo > 14;
-        })
-        .sort((a, b) => {
-          const scoreA = scoreMap.get(a.id);
-          const scoreB = scoreMap.get(b.id);
-          return (scoreB?.relationshipScore || 0) - (scoreA?.relationshipScore || 0);
-        })
-        .slice(0, 3);
+      // Most overdue against their cadence, weighted by tier
+      const reachOut = overdue.slice(0, 3).map(candidate => candidate.person);
       setPeopleToReachOut(reachOut);
+
+      const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+      setScoreTrends(await personScoreDAO.getScoreSeriesSince(thirtyDaysAgo, reachOut.map(p => p.id)));
     } catch (error) {
       console.error('[TodayScreen] Failed to load data:', error);
       // Set empty states on error
@@ -327,6 +356,30 @@ export const TodayScreen: React.FC = () => {
         <DataSourceBanner />
         
         <Animated.View style={styles.animatedContainer}>
+          {proximityNudges.length > 0 && (
+            <View style={styles.section}>
+              <Text style={styles.sectionTitle}>Nearby</Text>
+              <Text style={styles.sectionSubtitle}>People you've met around here</Text>
+              {proximityNudges.map(nudge => (
+                <ProximityNudgeCard
+                  key={nudge.id}
+                  nudge={nudge}
+                  onPress={() => {
+                    if (nudge.placeId) {
+                      router.push(`/place/${nudge.placeId}`);
+                    } else if (nudge.personIds.length > 0) {
+                      router.push(`/contact/${nudge.personIds[0]}`);
+                    }
+                  }}
+                  onDismiss={async (nudgeId) => {
+                    setProximityNudges(current => current.filter(item => item.id !== nudgeId));
+                    await ProximityNudgeService.getInstance().dismiss(nudgeId);
+                  }}
+                />
+              ))}
+            </View>
+          )}
+
           {upcomingMeetings.length > 0 && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Meeting Prep</Text>
@@ -337,6 +390,7 @@ export const TodayScreen: React.FC = () => {
                   meeting={meeting}
                   attendees={meetingAttendees.get(meeting.id) || []}
                   interactions={meetingInteractions.get(meeting.id) || []}
+                  seriesPosition={meetingSeriesPositions.get(meeting.id)}
                 />
               ))}
             </View>
@@ -398,6 +452,7 @@ export const TodayScreen: React.FC = () => {
                   key={person.id}
                   person={person}
                   score={scoresMap.get(person.id)}
+                  scoreTrend={scoreTrends.get(person.id)}
                 />
               ))}
             </View>
@@ -406,12 +461,13 @@ export const TodayScreen: React.FC = () => {
           {peopleToReachOut.length > 0 && (
             <View style={styles.section}>
               <Text style={styles.sectionTitle}>Stay in Touch</Text>
-              <Text style={styles.sectionSubtitle}>You haven't connected in a while</Text>
+              <Text style={styles.sectionSubtitle}>Overdue for your usual catch-up</Text>
               {peopleToReachOut.map(person => (
                 <PersonCard
                   key={person.id}
                   person={person}
                   score={scoresMap.get(person.id)}
+                  scoreTrend={scoreTrends.get(person.id)}
                 />
               ))}
             </View>
@@ -1,11 +1,15 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as BackgroundFetch from 'expo-background-fetch';
 import * as TaskManager from 'expo-task-manager';
-import * as SecureStore from 'expo-secure-store';
 import { Platform } from 'react-native';
 // import { GmailSync } from './GmailSync'; // Conditionally imported when needed
 import { ScoreJob } from '@/jobs/ScoreJob';
+import { CadenceService } from './CadenceService';
 import { FollowUpService } from './FollowUpService';
+import { EmailSyncPersistence } from './EmailSyncPersistence';
+// Imported eagerly so its geofencing task is defined before the OS delivers events
+import { ProximityNudgeService } from './ProximityNudgeService';
+import type { ImapAccountSyncSummary } from './ImapService';
 
 // Task names
 const GMAIL_DELTA_SYNC_TASK = 'gmailDeltaSync';
@@ -35,7 +39,6 @@ export class BackgroundTaskManager {
   private lastImapSync: Date | null = null;
   private lastIndexScore: Date | null = null;
   private isInitialized = false;
-  private readonly imapConfigKey = 'email_config';
 
   private constructor() {
     this.loadLastRunTimes();
@@ -100,27 +103,11 @@ export class BackgroundTaskManager {
 
   private async hasStoredImapConfig(): Promise<boolean> {
     try {
-      const rawConfig = Platform.OS === 'web'
-        ? await AsyncStorage.getItem(this.imapConfigKey)
-        : await SecureStore.getItemAsync(this.imapConfigKey);
-
-      if (!rawConfig) {
-        return false;
-      }
-
-      const parsedConfig = JSON.parse(rawConfig);
-
-      const hasRequiredFields = Boolean(
-        parsedConfig &&
-        typeof parsedConfig.email === 'string' &&
-        typeof parsedConfig.appPassword === 'string' &&
-        typeof parsedConfig.host === 'string' &&
-        (typeof parsedConfig.port === 'number' || typeof parsedConfig.port === 'string')
-      );
-
-      return hasRequiredFields;
+      const { emailAccountRegistry } = await import('./EmailAccountRegistry');
+      const accounts = await emailAccountRegistry.listAccounts('imap');
+      return accounts.some(account => account.enabled);
     } catch (error) {
-      console.warn('[BackgroundTask] Failed to read stored IMAP configuration:', error);
+      console.warn('[BackgroundTask] Failed to read stored IMAP accounts:', error);
       return false;
     }
   }
@@ -216,6 +203,9 @@ export class BackgroundTaskManager {
       
       console.log('[BackgroundTask] Gmail sync completed (all processing local)');
       console.log(`[BackgroundTask] Processed: ${result.messages.length} messages, ${result.threads.length} threads, ${result.interactions.length} interactions`);
+
+      await this.ensureDatabaseInitialized();
+      await EmailSyncPersistence.getInstance().persist(result);
       
       this.lastGmailSync = new Date();
       await this.saveLastRunTime('lastGmailSync', this.lastGmailSync);
@@ -230,7 +220,7 @@ export class BackgroundTaskManager {
     }
   }
 
-  async runImapSync(): Promise<{ success: boolean; mailbox?: string; messageUids?: string[]; error?: string }> {
+  async runImapSync(): Promise<{ success: boolean; mailbox?: string; messageUids?: string[]; accounts?: ImapAccountSyncSummary[]; error?: string }> {
     console.log('[BackgroundTask] Starting IMAP sync (device-only)...');
 
     try {
@@ -249,24 +239,41 @@ export class BackgroundTaskManager {
         return { success: false, error: 'IMAP account not connected' };
       }
 
-      const result = await imapService.syncMailbox();
+      const result = await imapService.syncAllAccounts();
       if (!result.success) {
         const errorMessage = result.error ?? 'Unknown IMAP sync error';
         console.warn('[BackgroundTask] IMAP sync failed:', errorMessage);
         return { success: false, error: errorMessage };
       }
 
-      this.lastImapSync = new Date();
-      await this.saveLastRunTime('lastImapSync', this.lastImapSync);
-
       const mailbox = result.mailbox ?? 'INBOX';
       const messageCount = result.messageUids?.length ?? 0;
       console.log(`[BackgroundTask] IMAP sync completed for ${mailbox} (${messageCount} message UIDs)`);
+      console.log(`[BackgroundTask] Processed: ${result.messages?.length ?? 0} messages, ${result.threads?.length ?? 0} threads, ${result.interactions?.length ?? 0} interactions`);
+
+      await this.ensureDatabaseInitialized();
+      const persisted = await EmailSyncPersistence.getInstance().persist({
+        threads: result.threads ?? [],
+        messages: result.messages ?? [],
+        interactions: result.interactions ?? [],
+      });
+      if (persisted.failed > 0) {
+        // Cursors stay put so the next sync fetches the same mail again; saving it is idempotent
+        const errorMessage = `${persisted.failed} synced items could not be saved`;
+        console.warn(`[BackgroundTask] IMAP sync not committed: ${errorMessage}`);
+        return { success: false, error: errorMessage };
+      }
+      await imapService.commitSyncState(result);
+
+      this.lastImapSync = new Date();
+      await this.saveLastRunTime('lastImapSync', this.lastImapSync);
 
       return {
         success: true,
         mailbox: result.mailbox,
         messageUids: result.messageUids,
+        accounts: result.accounts,
+        error: result.error,
       };
     } catch (error) {
       console.error('[BackgroundTask] IMAP sync failed:', error);
@@ -277,6 +284,25 @@ export class BackgroundTaskManager {
     }
   }
 
+  private async ensureDatabaseInitialized(): Promise<void> {
+    const Database = (await import('@/database/Database')).Database;
+    const database = Database.getInstance();
+
+    if (!database.isAvailable()) {
+      console.log('[BackgroundTask] Database not initialized, initializing now...');
+      try {
+        await database.init();
+      } catch (initError) {
+        console.error('[BackgroundTask] Database initialization failed:', initError);
+        throw new Error(`Database initialization failed: ${initError instanceof Error ? initError.message : 'Unknown error'}`);
+      }
+
+      if (!database.isAvailable()) {
+        throw new Error('Database still not available after initialization');
+      }
+    }
+  }
+
   /**
    * Index and Score Update - Local Processing Only
    * 
@@ -293,8 +319,10 @@ export class BackgroundTaskManager {
    * - Contact engagement scoring
    * - Search index optimization
    * - Follow-up task generation from AI analysis
+   *
+   * Scoring is incremental unless fullRescore is set.
    */
-  async runIndexAndScore(): Promise<{ success: boolean; scoresComputed: number; followUpTasks: number; error?: string }> {
+  async runIndexAndScore(options: { fullRescore?: boolean } = {}): Promise<{ success: boolean; scoresComputed: number; followUpTasks: number; error?: string }> {
     console.log('[BackgroundTask] Starting local index and score update...');
     
     try {
@@ -312,29 +340,36 @@ export class BackgroundTaskManager {
       }
       
       // Ensure database is initialized before running jobs
-      const Database = (await import('@/database/Database')).Database;
-      const database = Database.getInstance();
-      
-      if (!database.isAvailable()) {
-        console.log('[BackgroundTask] Database not initialized, initializing now...');
-        try {
-          await database.init();
-        } catch (initError) {
-          console.error('[BackgroundTask] Database initialization failed:', initError);
-          throw new Error(`Database initialization failed: ${initError instanceof Error ? initError.message : 'Unknown error'}`);
-        }
-        
-        if (!database.isAvailable()) {
-          throw new Error('Database still not available after initialization');
-        }
-      }
+      await this.ensureDatabaseInitialized();
       
       // Run scoring job
       const scoreJob = ScoreJob.getInstance();
-      const scoreResult = await scoreJob.run();
+      const scoreResult = await scoreJob.run({ full: options.fullRescore });
       
       // Process follow-ups from recent conversations
       const followUpResult = await FollowUpService.processThreadsForFollowUps();
+
+      // Keep reach-out reminders in line with cadences and new interactions
+      try {
+        await CadenceService.getInstance().syncReminderTasks();
+      } catch (cadenceError) {
+        console.warn('[BackgroundTask] Cadence reminder sync failed:', cadenceError);
+      }
+
+      // Retry places that still have no coordinates
+      try {
+        const { PlaceGeocodingService } = await import('./PlaceGeocodingService');
+        await PlaceGeocodingService.getInstance().processQueue();
+      } catch (geocodeError) {
+        console.warn('[BackgroundTask] Place geocoding failed:', geocodeError);
+      }
+
+      // Newly frequent or newly located places become geofences
+      try {
+        await ProximityNudgeService.getInstance().refreshGeofences();
+      } catch (geofenceError) {
+        console.warn('[BackgroundTask] Geofence refresh failed:', geofenceError);
+      }
       
       console.log('[BackgroundTask] Local scoring and AI follow-up detection completed');
       console.log(`[BackgroundTask] Updated scores for ${scoreResult.scoresComputed} contacts (locally)`);
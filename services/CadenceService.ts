@@ -0,0 +1,228 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PersonDAO } from '@/database/PersonDAO';
+import { InteractionDAO } from '@/database/InteractionDAO';
+import { AnnotationDAO } from '@/database/AnnotationDAO';
+import { TaskDAO } from '@/database/TaskDAO';
+import { SnoozeDAO } from '@/database/SnoozeDAO';
+import { ANNOTATION_TYPES } from '@/models/Annotation';
+import {
+  ReachOutCandidate,
+  TIER_REACH_OUT_WEIGHTS,
+  formatCadence,
+  isDoNotDisturbActive,
+  resolveCadence,
+} from '@/models/Cadence';
+import { Task } from '@/models/Task';
+
+// Ends the description of every reminder this service owns, so user reminders are left alone
+const CADENCE_TASK_MARKER = '(Cadence reminder)';
+// Open reminders created per sync; people further down the list wait for the next one
+const MAX_NEW_REMINDERS = 5;
+
+// Reminders open as of the last sync, and when the user deleted one, by person ID
+const REMINDER_STATE_KEY = 'cadence_reminder_state';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface CadenceReminderState {
+  open: Record<string, string>;
+  dismissed: Record<string, string>;
+}
+
+/**
+ * CadenceService - "Reach Out" Engine
+ *
+ * Privacy Implementation:
+ * - Works only from people, interactions and annotations stored on device
+ * - Reminders are ordinary local tasks; nothing is scheduled remotely
+ */
+export class CadenceService {
+  private static instance: CadenceService;
+  private personDAO = new PersonDAO();
+  private interactionDAO = new InteractionDAO();
+  private annotationDAO = new AnnotationDAO();
+  private taskDAO = new TaskDAO();
+  private snoozeDAO = new SnoozeDAO();
+
+  static getInstance(): CadenceService {
+    if (!CadenceService.instance) {
+      CadenceService.instance = new CadenceService();
+    }
+    return CadenceService.instance;
+  }
+
+  /**
+   * Everyone past their cadence, most overdue first, weighted by tier.
+   * Snoozed people and those on do not disturb are left out.
+   *
+   * People without their own cadence, a tier or any contact yet are left out:
+   * an imported address book shouldn't turn into a to-do list.
+   */
+  async getOverdue(now: Date = new Date()): Promise<ReachOutCandidate[]> {
+    if (!this.personDAO.isAvailable()) return [];
+
+    const [people, lastDates, tierAnnotations, quietAnnotations, snoozed] = await Promise.all([
+      this.personDAO.getAllPersons(),
+      this.interactionDAO.getLastDatesByPerson(),
+      this.annotationDAO.findByType(ANNOTATION_TYPES.TIER),
+      this.annotationDAO.findByType(ANNOTATION_TYPES.DO_NOT_DISTURB),
+      this.snoozeDAO.getActivePersonIds(now),
+    ]);
+
+    const tiers = new Map(
+      tierAnnotations
+        .filter(annotation => annotation.entityType === 'person')
+        .map(annotation => [annotation.entityId, annotation.content])
+    );
+    const doNotDisturb = new Set(
+      quietAnnotations
+        .filter(annotation => annotation.entityType === 'person' && isDoNotDisturbActive(annotation, now))
+        .map(annotation => annotation.entityId)
+    );
+
+    const candidates: ReachOutCandidate[] = [];
+    for (const person of people) {
+      if (doNotDisturb.has(person.id) || snoozed.has(person.id)) continue;
+
+      const tier = tiers.get(person.id);
+      const interactionDate = lastDates.get(person.id);
+      const lastContact = [interactionDate, person.lastInteraction]
+        .filter((date): date is Date => !!date)
+        .sort((a, b) => b.getTime() - a.getTime())[0];
+      if (!person.cadence && !tier && !lastContact) continue;
+
+      const cadence = resolveCadence(person, tier);
+      // Never contacted counts from when they were added
+      const since = lastContact ?? person.createdAt;
+      const daysSinceContact = Math.floor((now.getTime() - since.getTime()) / DAY_MS);
+      const overdueRatio = daysSinceContact / cadence.days;
+      if (overdueRatio < 1) continue;
+
+      candidates.push({
+        person,
+        tier,
+        cadence,
+        lastContact,
+        daysSinceContact,
+        overdueRatio,
+        priority: overdueRatio * (tier ? TIER_REACH_OUT_WEIGHTS[tier] ?? 1 : 1),
+        dueDate: new Date(since.getTime() + cadence.days * DAY_MS),
+      });
+    }
+
+    return candidates.sort((a, b) => b.priority - a.priority);
+  }
+
+  /**
+   * Create, refresh or close the reminder task for each overdue person.
+   *
+   * Reminders of people who are no longer overdue are completed when they
+   * were contacted since the reminder was made, and deleted otherwise (snoozed,
+   * do not disturb, or a longer cadence). A reminder the user checked off or
+   * deleted isn't made again until a full cadence has passed since. Pass the
+   * result of getOverdue when the caller already has it.
+   */
+  async syncReminderTasks(overdue?: ReachOutCandidate[]): Promise<{ created: number; updated: number; closed: number }> {
+    const result = { created: 0, updated: 0, closed: 0 };
+    if (!this.taskDAO.isAvailable()) return result;
+
+    // Expired snoozes no longer hide anyone; drop them while we're here
+    await this.snoozeDAO.pruneExpired();
+    overdue = overdue ?? await this.getOverdue();
+    const now = new Date();
+
+    const tasks = await this.taskDAO.getAllTasks();
+    const taskIds = new Set(tasks.map(task => task.id));
+    const openReminders = new Map<string, Task>();
+    const closedAt = new Map<string, Date>();
+    for (const task of tasks) {
+      if (task.type !== 'reminder' || !task.personId || !task.description?.endsWith(CADENCE_TASK_MARKER)) continue;
+      if (!task.completed) {
+        openReminders.set(task.personId, task);
+      } else if (task.completedAt && task.completedAt > (closedAt.get(task.personId) ?? new Date(0))) {
+        closedAt.set(task.personId, task.completedAt);
+      }
+    }
+
+    // Reminders open after the last sync that are gone now were deleted by the user
+    const state = await this.loadReminderState();
+    for (const [personId, taskId] of Object.entries(state.open)) {
+      if (!taskIds.has(taskId)) state.dismissed[personId] = now.toISOString();
+    }
+    for (const [personId, dismissedAt] of Object.entries(state.dismissed)) {
+      const date = new Date(dismissedAt);
+      if (date > (closedAt.get(personId) ?? new Date(0))) closedAt.set(personId, date);
+    }
+
+    const stillOverdue = new Set<string>();
+    const nextState: CadenceReminderState = { open: {}, dismissed: {} };
+    for (const candidate of overdue) {
+      const { person, cadence } = candidate;
+      stillOverdue.add(person.id);
+      if (state.dismissed[person.id]) nextState.dismissed[person.id] = state.dismissed[person.id];
+
+      const existing = openReminders.get(person.id);
+      if (existing) {
+        // Title and description are left as the user may have edited them
+        if (existing.dueDate?.getTime() !== candidate.dueDate.getTime()) {
+          await this.taskDAO.update(existing.id, { dueDate: candidate.dueDate });
+          result.updated++;
+        }
+        nextState.open[person.id] = existing.id;
+        continue;
+      }
+
+      const lastClosed = closedAt.get(person.id);
+      if (lastClosed && now.getTime() - lastClosed.getTime() < cadence.days * DAY_MS) continue;
+      if (result.created >= MAX_NEW_REMINDERS) continue;
+
+      const task = await this.taskDAO.create({
+        title: `Reach out to ${`${person.firstName} ${person.lastName}`.trim()}`,
+        description: this.describe(candidate),
+        personId: person.id,
+        dueDate: candidate.dueDate,
+        completed: false,
+        type: 'reminder',
+      });
+      nextState.open[person.id] = task.id;
+      result.created++;
+    }
+
+    const lastDates = openReminders.size > 0 ? await this.interactionDAO.getLastDatesByPerson() : new Map<string, Date>();
+    for (const [personId, task] of openReminders) {
+      if (stillOverdue.has(personId)) continue;
+
+      const lastContact = lastDates.get(personId);
+      if (lastContact && lastContact > task.createdAt) {
+        await this.taskDAO.update(task.id, { completed: true });
+      } else {
+        await this.taskDAO.deleteById(task.id);
+      }
+      result.closed++;
+    }
+
+    await AsyncStorage.setItem(REMINDER_STATE_KEY, JSON.stringify(nextState));
+    console.log(`[Cadence] Reminders: ${result.created} created, ${result.updated} refreshed, ${result.closed} closed`);
+    return result;
+  }
+
+  private async loadReminderState(): Promise<CadenceReminderState> {
+    try {
+      const raw = await AsyncStorage.getItem(REMINDER_STATE_KEY);
+      return raw ? { open: {}, dismissed: {}, ...JSON.parse(raw) } : { open: {}, dismissed: {} };
+    } catch (error) {
+      console.warn('Failed to read cadence reminder state:', error);
+      return { open: {}, dismissed: {} };
+    }
+  }
+
+  /**
+   * Kept free of day counts so an open reminder isn't rewritten every day
+   */
+  private describe(candidate: ReachOutCandidate): string {
+    const lastContact = candidate.lastContact
+      ? `Last in touch ${candidate.lastContact.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })}`
+      : 'No contact yet';
+    return `${lastContact}; aiming for ${formatCadence(candidate.cadence.days).toLowerCase()} ${CADENCE_TASK_MARKER}`;
+  }
+}
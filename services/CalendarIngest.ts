@@ -1,25 +1,116 @@
 import * as Calendar from 'expo-calendar';
 import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
 import { PersonDAO } from '../database/PersonDAO';
 import { MeetingDAO } from '../database/MeetingDAO';
+import { MeetingSeriesDAO } from '../database/MeetingSeriesDAO';
 import { PlaceDAO } from '../database/PlaceDAO';
 import { InteractionDAO } from '../database/InteractionDAO';
-import { Meeting } from '../models/Meeting';
+import { Meeting, inferMeetingType } from '../models/Meeting';
+import { RecurrenceFrequency } from '../models/MeetingSeries';
 import { Place } from '../models/Place';
 import { Interaction } from '../models/Interaction';
 import { Person } from '../models/Person';
+import { emailAccountRegistry } from './EmailAccountRegistry';
 
 export interface CalendarIngestWindow {
   pastDays: number;
   futureDays: number;
 }
 
+/**
+ * Which event attendees become people, meeting attendees and interactions
+ */
+export interface CalendarAttendeeRules {
+  skipSelf: boolean;
+  skipResources: boolean;
+  skipDeclined: boolean;
+  createUnknownPersons: boolean;
+  selfEmails: string[]; // Extra addresses that belong to the user, besides linked email accounts
+  resourceEmailPatterns: string[]; // Substrings that mark rooms and shared calendars
+}
+
+export const DEFAULT_ATTENDEE_RULES: CalendarAttendeeRules = {
+  skipSelf: true,
+  skipResources: true,
+  skipDeclined: true,
+  createUnknownPersons: true,
+  selfEmails: [],
+  resourceEmailPatterns: ['resource.calendar.google.com', 'group.calendar.google.com', 'group.v.calendar.google.com'],
+};
+
+/**
+ * Outcome of one ingest run, shown on the Health screen
+ */
+export interface CalendarIngestStats {
+  mode: 'full' | 'incremental';
+  startedAt: string;
+  durationMs: number;
+  calendarsRead: number;
+  calendarsFailed: number;
+  eventsScanned: number;
+  added: number;
+  changed: number;
+  removed: number;
+  unchanged: number;
+  failed: number;
+}
+
+/**
+ * A device calendar and whether its events feed the CRM
+ */
+export interface CalendarOption {
+  id: string;
+  title: string;
+  color: string;
+  sourceName?: string;
+  isIncluded: boolean;
+}
+
+interface CalendarSelection {
+  excludedCalendarIds: string[];
+}
+
+export interface CalendarIngestOptions {
+  full?: boolean; // Reprocess every event, e.g. to pick up RSVP changes the fingerprint cannot see
+}
+
+interface EventFingerprint {
+  calendarEventId: string;
+  instanceStartDate?: string;
+  startDate: string;
+  fingerprint: string;
+}
+
+// calendarId -> eventKey -> fingerprint of the event as last processed
+type CalendarFingerprints = Record<string, Record<string, EventFingerprint>>;
+
+interface CalendarAttendee {
+  email: string;
+  name?: string;
+}
+
+interface AttendeeContext {
+  rules: CalendarAttendeeRules;
+  selfEmails: Set<string>;
+}
+
+const ATTENDEE_RULES_KEY = 'calendar_attendee_rules';
+const FINGERPRINTS_KEY = 'calendar_event_fingerprints';
+const LAST_RUN_STATS_KEY = 'calendar_ingest_last_run';
+const CALENDAR_SELECTION_KEY = 'calendar_selection';
+
+// Holiday, birthday and subscribed calendars rarely describe real meetings
+const NON_MEETING_CALENDAR_PATTERN = /holiday|birthday|sports|schedule|week numbers/i;
+
 export class CalendarIngest {
   private static instance: CalendarIngest;
   private personDAO: PersonDAO;
   private meetingDAO: MeetingDAO;
   private placeDAO: PlaceDAO;
   private interactionDAO: InteractionDAO;
+  private seriesDAO = new MeetingSeriesDAO();
+  private placeCache: Place[] | null = null;
   private isListening = false;
   private intervalId: NodeJS.Timeout | null = null;
 
@@ -47,6 +138,108 @@ export class CalendarIngest {
     return CalendarIngest.instance;
   }
 
+  static async getAttendeeRules(): Promise<CalendarAttendeeRules> {
+    try {
+      const raw = await AsyncStorage.getItem(ATTENDEE_RULES_KEY);
+      return raw ? { ...DEFAULT_ATTENDEE_RULES, ...JSON.parse(raw) } : { ...DEFAULT_ATTENDEE_RULES };
+    } catch (error) {
+      console.warn('Failed to read calendar attendee rules:', error);
+      return { ...DEFAULT_ATTENDEE_RULES };
+    }
+  }
+
+  static async setAttendeeRules(updates: Partial<CalendarAttendeeRules>): Promise<CalendarAttendeeRules> {
+    const rules = { ...(await CalendarIngest.getAttendeeRules()), ...updates };
+    await AsyncStorage.setItem(ATTENDEE_RULES_KEY, JSON.stringify(rules));
+    // Unchanged events would otherwise never be re-read under the new rules
+    await AsyncStorage.removeItem(FINGERPRINTS_KEY);
+    return rules;
+  }
+
+  static async getLastRunStats(): Promise<CalendarIngestStats | null> {
+    try {
+      const raw = await AsyncStorage.getItem(LAST_RUN_STATS_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.warn('Failed to read calendar ingest stats:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Device calendars with the user's include/exclude choice applied.
+   * The first listing persists a default that leaves out holiday, birthday and subscribed calendars.
+   */
+  async listCalendars(): Promise<CalendarOption[]> {
+    if (Platform.OS === 'web') return [];
+
+    const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+    const selection = await this.loadCalendarSelection(calendars);
+    const excluded = new Set(selection.excludedCalendarIds);
+
+    return calendars.map(calendar => ({
+      id: calendar.id,
+      title: calendar.title,
+      color: calendar.color,
+      sourceName: calendar.source?.name || undefined,
+      isIncluded: !excluded.has(calendar.id),
+    }));
+  }
+
+  /**
+   * Include or exclude a calendar. Excluding one purges the meetings already imported from it.
+   */
+  async setCalendarIncluded(calendarId: string, included: boolean): Promise<number> {
+    const selection = await this.loadCalendarSelection();
+    const excluded = new Set(selection.excludedCalendarIds);
+
+    if (included) {
+      excluded.delete(calendarId);
+    } else {
+      excluded.add(calendarId);
+    }
+    await AsyncStorage.setItem(
+      CALENDAR_SELECTION_KEY,
+      JSON.stringify({ excludedCalendarIds: Array.from(excluded) })
+    );
+
+    if (included) {
+      console.log(`Included calendar ${calendarId} in ingest`);
+      return 0;
+    }
+
+    const purged = await this.meetingDAO.deleteByCalendar(calendarId);
+    console.log(`Excluded calendar ${calendarId}; purged ${purged} meetings`);
+    return purged;
+  }
+
+  private async loadCalendarSelection(calendars?: Calendar.Calendar[]): Promise<CalendarSelection> {
+    try {
+      const raw = await AsyncStorage.getItem(CALENDAR_SELECTION_KEY);
+      if (raw) {
+        return { excludedCalendarIds: [], ...JSON.parse(raw) };
+      }
+    } catch (error) {
+      console.warn('Failed to read calendar selection:', error);
+    }
+
+    if (!calendars) {
+      return { excludedCalendarIds: [] };
+    }
+
+    const selection: CalendarSelection = {
+      excludedCalendarIds: calendars
+        .filter(calendar =>
+          calendar.type === Calendar.CalendarType.BIRTHDAYS ||
+          calendar.type === Calendar.CalendarType.SUBSCRIBED ||
+          NON_MEETING_CALENDAR_PATTERN.test(calendar.title)
+        )
+        .map(calendar => calendar.id),
+    };
+    await AsyncStorage.setItem(CALENDAR_SELECTION_KEY, JSON.stringify(selection));
+    return selection;
+  }
+
   async requestPermissions(): Promise<boolean> {
     try {
       const { status } = await Calendar.requestCalendarPermissionsAsync();
@@ -57,7 +250,13 @@ export class CalendarIngest {
     }
   }
 
-  async runWindow(window: CalendarIngestWindow): Promise<void> {
+  /**
+   * Ingest the window, processing only events that were added, changed or removed since the last run.
+   *
+   * Every calendar is still listed, but unchanged events skip the attendee and database work.
+   * A full run reprocesses everything and reconciles meetings against the database.
+   */
+  async runWindow(window: CalendarIngestWindow, options: CalendarIngestOptions = {}): Promise<CalendarIngestStats> {
     if (!window || typeof window.pastDays !== 'number' || typeof window.futureDays !== 'number') {
       throw new Error('Invalid window parameters');
     }
@@ -74,71 +273,412 @@ export class CalendarIngest {
     const endDate = new Date(now.getTime() + (window.futureDays * 24 * 60 * 60 * 1000));
 
     try {
-      const calendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
-      console.log(`Found ${calendars.length} calendars`);
+      const previousFingerprints = await this.loadFingerprints();
+      const full = options.full === true || previousFingerprints === null;
+      const stats: CalendarIngestStats = {
+        mode: full ? 'full' : 'incremental',
+        startedAt: now.toISOString(),
+        durationMs: 0,
+        calendarsRead: 0,
+        calendarsFailed: 0,
+        eventsScanned: 0,
+        added: 0,
+        changed: 0,
+        removed: 0,
+        unchanged: 0,
+        failed: 0,
+      };
+
+      const attendeeContext = await this.loadAttendeeContext();
+      const allCalendars = await Calendar.getCalendarsAsync(Calendar.EntityTypes.EVENT);
+      const selection = await this.loadCalendarSelection(allCalendars);
+      const calendars = allCalendars.filter(calendar => !selection.excludedCalendarIds.includes(calendar.id));
+      console.log(`Found ${allCalendars.length} calendars, ${calendars.length} selected for ingest`);
+
+      this.placeCache = null;
+      const nextFingerprints: CalendarFingerprints = {};
+      const seenEventKeys = new Set<string>();
 
-      let totalEvents = 0;
       for (const calendar of calendars) {
-        const events = await Calendar.getEventsAsync(
-          [calendar.id],
-          startDate,
-          endDate
-        );
+        const previous = previousFingerprints?.[calendar.id] ?? {};
+        let events: Calendar.Event[];
+        try {
+          events = await Calendar.getEventsAsync(
+            [calendar.id],
+            startDate,
+            endDate
+          );
+        } catch (error) {
+          console.error(`Could not read events from calendar: ${calendar.title}`, error);
+          stats.calendarsFailed++;
+          // Keep the old fingerprints so the next successful read diffs against them
+          nextFingerprints[calendar.id] = previous;
+          continue;
+        }
         
-        console.log(`Processing ${events.length} events from calendar: ${calendar.title}`);
-        totalEvents += events.length;
+        stats.calendarsRead++;
+        stats.eventsScanned += events.length;
+        const current: Record<string, EventFingerprint> = {};
 
         for (const event of events) {
-          await this.processEvent(event);
+          const identity = this.getEventIdentity(event);
+          const key = this.eventKey(identity.calendarEventId, identity.instanceStartDate);
+          const fingerprint = this.fingerprintEvent(event, now);
+          seenEventKeys.add(key);
+
+          const known = previous[key];
+          if (!full && known?.fingerprint === fingerprint) {
+            current[key] = known;
+            stats.unchanged++;
+            continue;
+          }
+
+          if (await this.processEvent(event, attendeeContext)) {
+            if (known) {
+              stats.changed++;
+            } else {
+              stats.added++;
+            }
+            current[key] = {
+              calendarEventId: identity.calendarEventId,
+              instanceStartDate: identity.instanceStartDate?.toISOString(),
+              startDate: new Date(event.startDate).toISOString(),
+              fingerprint,
+            };
+          } else {
+            // Left without a fingerprint so the next run retries it
+            stats.failed++;
+          }
+        }
+
+        if (!full) {
+          stats.removed += await this.cancelRemovedEvents(previous, current, startDate, endDate);
         }
+        nextFingerprints[calendar.id] = current;
       }
 
-      console.log(`Calendar ingest completed. Processed ${totalEvents} events.`);
+      // A partial read would make every event of the failed calendar look deleted
+      if (full && stats.calendarsFailed === 0) {
+        stats.removed += await this.reconcileRemovedEvents(startDate, endDate, seenEventKeys);
+      } else if (full) {
+        console.warn('Skipping calendar reconciliation because not every calendar could be read');
+      }
+
+      this.placeCache = null;
+      await AsyncStorage.setItem(FINGERPRINTS_KEY, JSON.stringify(nextFingerprints));
+
+      stats.durationMs = Date.now() - now.getTime();
+      await AsyncStorage.setItem(LAST_RUN_STATS_KEY, JSON.stringify(stats));
+
+      console.log(
+        `Calendar ingest completed (${stats.mode}). Scanned ${stats.eventsScanned} events: ` +
+        `${stats.added} added, ${stats.changed} changed, ${stats.removed} removed, ${stats.unchanged} unchanged.`
+      );
+      return stats;
     } catch (error) {
       console.error('Error during calendar ingest:', error);
       throw error;
     }
   }
 
-  private async processEvent(event: Calendar.Event): Promise<void> {
+  private async loadFingerprints(): Promise<CalendarFingerprints | null> {
     try {
-      // Check for existing meeting by calendar event ID
-      const existingMeetings = await this.meetingDAO.findAll();
+      const raw = await AsyncStorage.getItem(FINGERPRINTS_KEY);
+      return raw ? JSON.parse(raw) : null;
+    } catch (error) {
+      console.warn('Failed to read calendar fingerprints, running a full ingest:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Compact hash of the fields ingest depends on. Whether the event has started is included so a
+   * meeting is reprocessed once it takes place and its interactions can be created.
+   */
+  private fingerprintEvent(event: Calendar.Event, now: Date): string {
+    const start = new Date(event.startDate);
+    const parts = [
+      event.title || '',
+      start.toISOString(),
+      event.endDate ? new Date(event.endDate).toISOString() : '',
+      event.location || '',
+      event.notes || '',
+      event.status || '',
+      event.recurrenceRule ? JSON.stringify(event.recurrenceRule) : '',
+      event.lastModifiedDate ? new Date(event.lastModifiedDate).toISOString() : '',
+      start.getTime() <= now.getTime() ? 'started' : 'upcoming',
+    ].join('\u001f');
+
+    // djb2; collisions only cost a missed update until the next full run
+    let hash = 5381;
+    for (let i = 0; i < parts.length; i++) {
+      hash = ((hash << 5) + hash + parts.charCodeAt(i)) | 0;
+    }
+    return `${(hash >>> 0).toString(36)}:${parts.length}`;
+  }
+
+  /**
+   * Cancel meetings for events that were fingerprinted last run, still fall inside the window, but are gone now
+   */
+  private async cancelRemovedEvents(
+    previous: Record<string, EventFingerprint>,
+    current: Record<string, EventFingerprint>,
+    startDate: Date,
+    endDate: Date
+  ): Promise<number> {
+    let removed = 0;
+
+    for (const [key, entry] of Object.entries(previous)) {
+      if (current[key]) continue;
+
+      // Events that merely slid out of the window are not deletions
+      const entryStart = new Date(entry.startDate);
+      if (entryStart < startDate || entryStart > endDate) continue;
+
+      try {
+        const meeting = await this.meetingDAO.findByCalendarEvent(
+          entry.calendarEventId,
+          entry.instanceStartDate ? new Date(entry.instanceStartDate) : undefined
+        );
+        if (meeting && meeting.status !== 'cancelled') {
+          await this.cancelMeeting(meeting);
+          removed++;
+        }
+      } catch (error) {
+        console.error('Error cancelling removed calendar event:', entry.calendarEventId, error);
+      }
+    }
+
+    return removed;
+  }
+
+  /**
+   * Create or update the meeting for one event; returns false if it could not be processed
+   */
+  private async processEvent(event: Calendar.Event, attendeeContext: AttendeeContext): Promise<boolean> {
+    try {
+      const { calendarEventId, instanceStartDate } = this.getEventIdentity(event);
       const eventStartDate = typeof event.startDate === 'string' ? new Date(event.startDate) : event.startDate;
-      const existingMeeting = existingMeetings.find(m => 
-        m.title === (event.title || 'Untitled Event') &&
-        Math.abs(m.date.getTime() - eventStartDate.getTime()) < 60000 // Within 1 minute
-      );
+      const title = event.title || 'Untitled Event';
+      const seriesId = await this.resolveSeries(event, title);
+      const { type, joinUrl } = inferMeetingType({ location: event.location, notes: event.notes, url: event.url });
+
+      if (event.status === Calendar.EventStatus.CANCELED) {
+        const cancelledMeeting = await this.meetingDAO.findByCalendarEvent(calendarEventId, instanceStartDate);
+        if (cancelledMeeting && cancelledMeeting.status !== 'cancelled') {
+          await this.cancelMeeting(cancelledMeeting);
+        }
+        return true;
+      }
+
+      // Meetings ingested before event IDs were stored are adopted by title and start time
+      const existingMeeting = await this.meetingDAO.findByCalendarEvent(calendarEventId, instanceStartDate) ??
+        await this.meetingDAO.findUnlinkedByTitleAndDate(title, eventStartDate);
 
       if (existingMeeting) {
-        console.log(`Meeting already exists: ${event.title}`);
-        return;
+        const dateChanged = existingMeeting.date.getTime() !== eventStartDate.getTime();
+        const needsUpdate = dateChanged ||
+          existingMeeting.title !== title ||
+          (existingMeeting.notes || '') !== (event.notes || '') ||
+          existingMeeting.calendarEventId !== calendarEventId ||
+          existingMeeting.seriesId !== seriesId ||
+          existingMeeting.type !== type ||
+          existingMeeting.joinUrl !== joinUrl ||
+          existingMeeting.status === 'cancelled';
+
+        if (needsUpdate) {
+          await this.meetingDAO.update(existingMeeting.id, {
+            title,
+            date: eventStartDate,
+            notes: event.notes || undefined,
+            calendarEventId,
+            calendarId: event.calendarId,
+            instanceStartDate,
+            status: 'confirmed',
+            seriesId,
+            type,
+            joinUrl,
+          });
+          console.log(`Updated meeting from calendar: ${title}`);
+        }
+
+        // Earlier imports linked conference links and dial-ins as places
+        if (type !== 'in-person' && existingMeeting.type === 'in-person') {
+          for (const placeId of await this.meetingDAO.getPlaces(existingMeeting.id)) {
+            await this.meetingDAO.removePlace(existingMeeting.id, placeId);
+          }
+        }
+
+        if (dateChanged) {
+          // A meeting moved into the future no longer counts as having happened
+          if (eventStartDate.getTime() > Date.now()) {
+            await this.deleteMeetingInteractions(existingMeeting.id);
+          } else {
+            await this.moveMeetingInteractions(existingMeeting.id, eventStartDate);
+          }
+        }
+
+        // Attendee linking is idempotent; re-running it picks up RSVP changes, drops
+        // people who declined or were removed, and creates interactions once a
+        // future meeting has taken place
+        await this.ingestAttendees(event, existingMeeting.id, eventStartDate, attendeeContext);
+        return true;
       }
 
       // Create meeting based on the Meeting model structure
       const eventEndDate = event.endDate ? (typeof event.endDate === 'string' ? new Date(event.endDate) : event.endDate) : null;
       const meeting: Omit<Meeting, 'id' | 'createdAt' | 'updatedAt'> = {
-        title: event.title || 'Untitled Event',
+        title,
         date: eventStartDate,
         personIds: [],
         placeId: undefined,
         duration: eventEndDate ? Math.round((eventEndDate.getTime() - eventStartDate.getTime()) / (1000 * 60)) : undefined,
         notes: event.notes || undefined,
-        type: 'in-person' as const
+        type,
+        joinUrl,
+        calendarEventId,
+        calendarId: event.calendarId,
+        instanceStartDate,
+        status: 'confirmed',
+        seriesId,
       };
 
       const createdMeeting = await this.meetingDAO.create(meeting);
       console.log(`Created meeting: ${meeting.title}`);
 
-      // Process location if available
-      if (event.location) {
+      // Only physical meetings have a place; video and phone locations are links or numbers
+      if (event.location && type === 'in-person') {
         await this.processLocation(event.location, createdMeeting.id);
       }
 
-      // Note: expo-calendar Event type doesn't have attendees property
-      // This would need to be handled differently or through a different API
+      await this.ingestAttendees(event, createdMeeting.id, eventStartDate, attendeeContext);
+      return true;
     } catch (error) {
       console.error('Error processing event:', event.title, error);
+      return false;
+    }
+  }
+
+  /**
+   * Recurring events share one ID across occurrences, so the date the occurrence was scheduled for is
+   * part of its identity. It stays put when a single occurrence is moved, so a move updates the meeting.
+   *
+   * iOS reports that date as originalStartDate. Android gives a moved occurrence its own event ID
+   * (pointing back through originalId) and no original date, so that ID alone identifies it.
+   */
+  private getEventIdentity(event: Calendar.Event): { calendarEventId: string; instanceStartDate?: Date } {
+    if (!event.recurrenceRule && !event.isDetached) {
+      return { calendarEventId: event.id };
+    }
+    if (event.originalId && event.originalId !== event.id && !event.originalStartDate) {
+      return { calendarEventId: event.id };
+    }
+
+    const occurrenceDate = event.originalStartDate ?? event.startDate;
+    return {
+      calendarEventId: event.id,
+      instanceStartDate: typeof occurrenceDate === 'string' ? new Date(occurrenceDate) : occurrenceDate,
+    };
+  }
+
+  /**
+   * Link an occurrence of a recurring event to its series, creating the series on first sight
+   */
+  private async resolveSeries(event: Calendar.Event, title: string): Promise<string | undefined> {
+    if (!event.recurrenceRule) return undefined;
+
+    try {
+      const rule = event.recurrenceRule;
+      const frequency: RecurrenceFrequency = Object.values(Calendar.Frequency).includes(rule.frequency)
+        ? rule.frequency as RecurrenceFrequency
+        : 'unknown';
+      const series = await this.seriesDAO.upsert({
+        // Android reports modified occurrences under their own ID, pointing back through originalId
+        calendarEventId: event.originalId || event.id,
+        calendarId: event.calendarId,
+        title,
+        recurrenceRule: this.toRRule(rule),
+        frequency,
+        interval: rule.interval && rule.interval > 0 ? rule.interval : 1,
+      });
+      return series?.id;
+    } catch (error) {
+      console.warn('Could not record meeting series for event:', title, error);
+      return undefined;
+    }
+  }
+
+  private toRRule(rule: Calendar.RecurrenceRule): string {
+    const parts = [`FREQ=${String(rule.frequency).toUpperCase()}`];
+    if (rule.interval && rule.interval > 1) {
+      parts.push(`INTERVAL=${rule.interval}`);
+    }
+    if (rule.occurrence) {
+      parts.push(`COUNT=${rule.occurrence}`);
+    } else if (rule.endDate) {
+      const until = new Date(rule.endDate).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+      parts.push(`UNTIL=${until}`);
+    }
+    return parts.join(';');
+  }
+
+  private eventKey(calendarEventId: string, instanceStartDate?: Date): string {
+    return `${calendarEventId}|${instanceStartDate ? instanceStartDate.toISOString() : ''}`;
+  }
+
+  /**
+   * Cancel meetings whose source event is no longer returned for the window
+   */
+  private async reconcileRemovedEvents(startDate: Date, endDate: Date, seenEventKeys: Set<string>): Promise<number> {
+    try {
+      const meetings = await this.meetingDAO.findCalendarMeetingsInRange(startDate, endDate);
+      let cancelled = 0;
+
+      for (const meeting of meetings) {
+        if (!meeting.calendarEventId) continue;
+        if (seenEventKeys.has(this.eventKey(meeting.calendarEventId, meeting.instanceStartDate))) continue;
+
+        await this.cancelMeeting(meeting);
+        cancelled++;
+      }
+
+      if (cancelled > 0) {
+        console.log(`Cancelled ${cancelled} meetings whose calendar events were removed`);
+      }
+      return cancelled;
+    } catch (error) {
+      console.error('Error reconciling removed calendar events:', error);
+      return 0;
+    }
+  }
+
+  private async cancelMeeting(meeting: Meeting): Promise<void> {
+    await this.meetingDAO.setStatus(meeting.id, 'cancelled');
+    const removed = await this.deleteMeetingInteractions(meeting.id);
+    console.log(`Cancelled meeting: ${meeting.title} (removed ${removed} interactions)`);
+  }
+
+  /**
+   * Remove a meeting's interactions and point each attendee's last interaction back at what remains
+   */
+  private async deleteMeetingInteractions(meetingId: string): Promise<number> {
+    const interactions = await this.interactionDAO.getByMeeting(meetingId);
+    const removed = await this.interactionDAO.deleteByMeeting(meetingId);
+    for (const interaction of interactions) {
+      await this.personDAO.untouchLastInteraction(interaction.personId, interaction.date);
+    }
+    return removed;
+  }
+
+  /**
+   * Move a meeting's interactions to its new start, keeping each attendee's last interaction in step
+   */
+  private async moveMeetingInteractions(meetingId: string, date: Date): Promise<void> {
+    const interactions = await this.interactionDAO.getByMeeting(meetingId);
+    await this.interactionDAO.updateDateForMeeting(meetingId, date);
+    for (const interaction of interactions) {
+      await this.personDAO.untouchLastInteraction(interaction.personId, interaction.date);
+      await this.personDAO.touchLastInteraction(interaction.personId, date);
     }
   }
 
@@ -156,9 +696,11 @@ export class CalendarIngest {
     try {
       const normalizedLocation = this.normalizeLocation(sanitizedLocation);
       
-      // Check if place already exists
-      const existingPlaces = await this.placeDAO.getAllPlaces();
-      let place = existingPlaces.find(p => 
+      // Places are loaded once per run rather than once per event
+      if (!this.placeCache) {
+        this.placeCache = await this.placeDAO.getAllPlaces();
+      }
+      let place = this.placeCache.find(p => 
         this.normalizeLocation(p.name) === normalizedLocation ||
         (p.address && this.normalizeLocation(p.address) === normalizedLocation)
       );
@@ -167,6 +709,7 @@ export class CalendarIngest {
         // Use findOrCreateByNormalizedName which handles normalization properly
         place = await this.placeDAO.findOrCreateByNormalizedName(sanitizedLocation, 'other');
         console.log(`Created or found place: ${sanitizedLocation}`);
+        this.placeCache.push(place);
       }
 
       // Link meeting to place using the addPlace method
@@ -178,28 +721,119 @@ export class CalendarIngest {
     }
   }
 
-  // Note: expo-calendar doesn't provide attendee information in the Event type
-  // This method is kept for future enhancement when attendee data becomes available
-  private async processAttendees(
-    attendeeEmails: string[],
+  private async loadAttendeeContext(): Promise<AttendeeContext> {
+    const rules = await CalendarIngest.getAttendeeRules();
+    const selfEmails = new Set(rules.selfEmails.map(email => email.trim().toLowerCase()));
+
+    try {
+      const accounts = await emailAccountRegistry.listAccounts();
+      accounts.forEach(account => selfEmails.add(account.email.trim().toLowerCase()));
+    } catch (error) {
+      console.warn('Could not load linked email accounts for attendee filtering:', error);
+    }
+
+    return { rules, selfEmails };
+  }
+
+  private async ingestAttendees(
+    event: Calendar.Event,
     meetingId: string,
-    meetingDate: Date
+    meetingDate: Date,
+    context: AttendeeContext
   ): Promise<void> {
+    if (Platform.OS === 'web') return;
+
+    let attendees: Calendar.Attendee[];
     try {
-      for (const email of attendeeEmails) {
-        if (!email || !email.trim()) continue;
-        
-        const sanitizedEmail = email.trim().toLowerCase();
-        if (sanitizedEmail.length > 100) continue;
+      // Recurring events share one ID; the instance date selects this occurrence's guest list
+      attendees = await Calendar.getAttendeesForEventAsync(
+        event.id,
+        event.recurrenceRule ? { instanceStartDate: event.startDate } : undefined
+      );
+    } catch (error) {
+      console.warn('Could not read attendees for event:', event.title, error);
+      return;
+    }
 
-        // Find person by email
+    const accepted: CalendarAttendee[] = [];
+    for (const attendee of attendees) {
+      const email = this.getAttendeeEmail(attendee);
+      if (!email || this.shouldSkipAttendee(attendee, email, context)) continue;
+      accepted.push({ email, name: attendee.name || undefined });
+    }
+
+    const linked = accepted.length > 0
+      ? await this.processAttendees(accepted, meetingId, meetingDate, context.rules)
+      : new Set<string>();
+    if (!linked) return;
+
+    // People who declined or were taken off the event no longer count as met
+    for (const personId of await this.meetingDAO.getAttendees(meetingId)) {
+      if (linked.has(personId)) continue;
+      await this.meetingDAO.removeAttendee(meetingId, personId);
+      if (await this.interactionDAO.deleteByMeetingAndPerson(meetingId, personId) > 0) {
+        await this.personDAO.untouchLastInteraction(personId, meetingDate);
+      }
+      console.log(`Removed attendee ${personId} from meeting ${meetingId}`);
+    }
+  }
+
+  private getAttendeeEmail(attendee: Calendar.Attendee): string | null {
+    // Android reports the address directly; iOS only exposes a mailto: URL
+    const raw = attendee.email || (attendee.url?.toLowerCase().startsWith('mailto:') ? attendee.url.slice(7) : '');
+    const email = decodeURIComponent(raw || '').trim().toLowerCase();
+    return email.includes('@') ? email : null;
+  }
+
+  private shouldSkipAttendee(attendee: Calendar.Attendee, email: string, context: AttendeeContext): boolean {
+    const { rules, selfEmails } = context;
+
+    if (rules.skipSelf && (attendee.isCurrentUser || selfEmails.has(email))) {
+      return true;
+    }
+
+    if (rules.skipResources) {
+      const isResourceType = attendee.type === Calendar.AttendeeType.ROOM ||
+        attendee.type === Calendar.AttendeeType.RESOURCE ||
+        attendee.type === Calendar.AttendeeType.GROUP;
+      if (isResourceType || rules.resourceEmailPatterns.some(pattern => email.includes(pattern.toLowerCase()))) {
+        return true;
+      }
+    }
+
+    if (rules.skipDeclined && attendee.status === Calendar.AttendeeStatus.DECLINED) {
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Link attendees to the meeting; returns their person IDs, or null if linking failed part way
+   */
+  private async processAttendees(
+    attendees: CalendarAttendee[],
+    meetingId: string,
+    meetingDate: Date,
+    rules: CalendarAttendeeRules
+  ): Promise<Set<string> | null> {
+    const linked = new Set<string>();
+    try {
+      for (const attendee of attendees) {
+        const sanitizedEmail = attendee.email.trim().toLowerCase();
+        if (!sanitizedEmail || sanitizedEmail.length > 100) continue;
+
+        // Find person by any of their email addresses
         let person = await this.personDAO.findByEmail(sanitizedEmail);
 
         if (!person) {
-          // Create new person from email
+          if (!rules.createUnknownPersons) continue;
+
+          // Create new person from the attendee's display name, falling back to the address
+          const nameParts = (attendee.name && !attendee.name.includes('@') ? attendee.name : '').trim().split(/\s+/);
           const newPerson: Omit<Person, 'id' | 'createdAt' | 'updatedAt'> = {
-            firstName: sanitizedEmail.split('@')[0] || 'Unknown',
-            lastName: '',
+            firstName: nameParts[0] || sanitizedEmail.split('@')[0] || 'Unknown',
+            lastName: nameParts.slice(1).join(' '),
             nickname: undefined,
             email: sanitizedEmail,
             phone: undefined,
@@ -212,15 +846,20 @@ export class CalendarIngest {
             lastInteraction: undefined
           };
           
-          person = await this.personDAO.create(newPerson);
+          person = await this.personDAO.create(newPerson, { source: 'system' });
           console.log(`Created new person from email: ${sanitizedEmail}`);
         }
 
         // Add person as attendee to meeting
         await this.meetingDAO.addAttendee(meetingId, person.id);
+        linked.add(person.id);
 
-        // Create interaction
-        const interaction: Omit<Interaction, 'id' | 'createdAt' | 'updatedAt'> = {
+        // Only meetings that have started count as interactions
+        if (meetingDate.getTime() > Date.now()) continue;
+
+        // Stable ID so re-ingesting the same meeting never duplicates the interaction
+        const interaction: Omit<Interaction, 'createdAt' | 'updatedAt'> = {
+          id: `meeting_${meetingId}_${person.id}`,
           personId: person.id,
           type: 'meeting',
           date: meetingDate,
@@ -228,11 +867,15 @@ export class CalendarIngest {
           meetingId: meetingId
         };
 
-        await this.interactionDAO.create(interaction);
-        console.log(`Created interaction for person: ${person.firstName} ${person.lastName}`);
+        if (await this.interactionDAO.upsert(interaction)) {
+          await this.personDAO.touchLastInteraction(person.id, meetingDate);
+          console.log(`Created interaction for person: ${person.firstName} ${person.lastName}`);
+        }
       }
+      return linked;
     } catch (error) {
       console.error('Error processing attendees:', error);
+      return null;
     }
   }
 
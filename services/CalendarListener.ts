@@ -1,4 +1,4 @@
-import { CalendarIngest, CalendarIngestWindow } from './CalendarIngest';
+import { CalendarIngest, CalendarIngestWindow, CalendarOption } from './CalendarIngest';
 import { PersonDAO } from '../database/PersonDAO';
 import { MeetingDAO } from '../database/MeetingDAO';
 import { PlaceDAO } from '../database/PlaceDAO';
@@ -85,7 +85,8 @@ export class CalendarListener {
   async runManualSync(window: CalendarIngestWindow): Promise<void> {
     try {
       console.log('Running manual calendar sync');
-      await this.calendarIngest.runWindow(window);
+      // Manual syncs reprocess every event so attendee changes the fingerprints miss are picked up
+      await this.calendarIngest.runWindow(window, { full: true });
       console.log('Manual calendar sync completed');
     } catch (error) {
       console.error('Manual calendar sync failed:', error);
@@ -104,6 +105,14 @@ export class CalendarListener {
   async requestPermissions(): Promise<boolean> {
     return await this.calendarIngest.requestPermissions();
   }
+
+  async listCalendars(): Promise<CalendarOption[]> {
+    return await this.calendarIngest.listCalendars();
+  }
+
+  async setCalendarIncluded(calendarId: string, included: boolean): Promise<number> {
+    return await this.calendarIngest.setCalendarIncluded(calendarId, included);
+  }
 }
 
 export default CalendarListener;
\ No newline at end of file
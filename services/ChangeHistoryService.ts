@@ -0,0 +1,147 @@
+import { Database } from '@/database/Database';
+import { ChangeLogDAO, CHANGE_LOG_KEY_COLUMNS, RowScope } from '@/database/ChangeLogDAO';
+import { ChangeBatch, ChangeEntry, ChangeRow } from '@/models/ChangeLog';
+
+/**
+ * ChangeHistoryService - Local Edit History and Undo
+ *
+ * Privacy Implementation:
+ * - History is stored only in the on-device SQLite database
+ * - Undo restores row snapshots locally; nothing is re-synced
+ */
+export class ChangeHistoryService {
+  private static instance: ChangeHistoryService;
+  private changeLog = new ChangeLogDAO();
+
+  static getInstance(): ChangeHistoryService {
+    if (!ChangeHistoryService.instance) {
+      ChangeHistoryService.instance = new ChangeHistoryService();
+    }
+    return ChangeHistoryService.instance;
+  }
+
+  async getHistoryForPerson(personId: string, limit: number = 50): Promise<ChangeBatch[]> {
+    return this.changeLog.getBatchesForPerson(personId, limit);
+  }
+
+  async getUndoable(limit: number = 20): Promise<ChangeBatch[]> {
+    return this.changeLog.getUndoableBatches(limit);
+  }
+
+  /**
+   * Undo the most recent `count` operations, newest first
+   */
+  async undoLast(count: number = 1): Promise<ChangeBatch[]> {
+    const batches = await this.changeLog.getUndoableBatches(count);
+    const undone: ChangeBatch[] = [];
+
+    for (const batch of batches) {
+      await this.undoBatch(batch.batchId);
+      undone.push(batch);
+    }
+
+    console.log(`[ChangeHistory] Undid ${undone.length} operation(s)`);
+    return undone;
+  }
+
+  /**
+   * Restore the rows a batch changed to their earlier state.
+   *
+   * Refuses when a later, still-applied change touched the same rows, since
+   * restoring would silently discard that newer edit. Untracked writes since
+   * (sync bookkeeping, score updates) are kept: only columns the batch changed
+   * and nothing has changed since are reverted.
+   */
+  async undoBatch(batchId: string): Promise<void> {
+    const db = Database.getInstance().getDb();
+    if (!db) {
+      throw new Error('Database not available');
+    }
+
+    const batch = await this.changeLog.getBatch(batchId);
+    if (!batch) {
+      throw new Error('Change not found');
+    }
+    if (batch.operation === 'undo') {
+      throw new Error('An undo cannot itself be undone');
+    }
+    if (batch.revertedBy) {
+      throw new Error('This change has already been undone');
+    }
+    if (batch.source === 'system') {
+      throw new Error('Imports and syncs cannot be undone');
+    }
+
+    const entries = await this.changeLog.getEntries(batchId);
+    for (const entry of entries) {
+      if (await this.changeLog.hasLaterChange(batchId, entry.table, entry.rowKey)) {
+        throw new Error('A later change to this contact must be undone first');
+      }
+    }
+
+    const scopes = entries.map(entry => this.keyScope(entry));
+    await this.changeLog.track(
+      {
+        operation: 'undo',
+        description: `Undid: ${batch.description}`,
+        personId: batch.personId,
+        revertsBatchId: batchId,
+      },
+      scopes,
+      () => db.withTransactionAsync(async () => {
+        const current = await this.changeLog.captureScopes(scopes);
+        // Reverse order so rows created late in the batch are removed before earlier ones are restored
+        for (const entry of [...entries].reverse()) {
+          await this.restore(entry, current.get(`${entry.table}:${entry.rowKey}`)?.row);
+        }
+      })
+    );
+  }
+
+  private async restore(entry: ChangeEntry, current: ChangeRow | undefined): Promise<void> {
+    const db = Database.getInstance().getDb();
+    if (!db) return;
+
+    const scope = this.keyScope(entry);
+    const { before, after } = entry;
+
+    if (!before) {
+      await db.runAsync(`DELETE FROM ${scope.table} WHERE ${scope.where}`, scope.params);
+      return;
+    }
+
+    // Deleted by the batch: bring it back unless something recreated it since
+    if (!after) {
+      const columns = Object.keys(before);
+      await db.runAsync(
+        `INSERT OR IGNORE INTO ${entry.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')})`,
+        columns.map(column => before[column])
+      );
+      return;
+    }
+
+    if (!current) return;
+
+    const columns = Object.keys(before).filter(column =>
+      before[column] !== after[column] && current[column] === after[column]
+    );
+    if (columns.length === 0) return;
+
+    await db.runAsync(
+      `UPDATE ${entry.table} SET ${columns.map(column => `${column} = ?`).join(', ')} WHERE ${scope.where}`,
+      [...columns.map(column => before[column]), ...scope.params]
+    );
+  }
+
+  private keyScope(entry: ChangeEntry): RowScope {
+    const keyColumns = CHANGE_LOG_KEY_COLUMNS[entry.table];
+    if (!keyColumns) {
+      throw new Error(`Change log does not track table ${entry.table}`);
+    }
+    return {
+      table: entry.table,
+      where: keyColumns.map(column => `${column} = ?`).join(' AND '),
+      params: JSON.parse(entry.rowKey),
+    };
+  }
+}
@@ -1,6 +1,9 @@
 import * as Contacts from 'expo-contacts';
 import { PersonDAO } from '@/database/PersonDAO';
+import { PersonIdentifierDAO } from '@/database/PersonIdentifierDAO';
 import { Person } from '@/models/Person';
+import { EmailSyncPersistence } from './EmailSyncPersistence';
+import { isFuzzyNameMatch, normalizeName } from '@/lib/utils';
 
 interface ContactData {
   id: string;
@@ -9,11 +12,18 @@ interface ContactData {
   phones: string[];
 }
 
+interface IdentifierIndex {
+  emails: Map<string, string>;
+  phones: Map<string, string>;
+}
+
 export class ContactsIngest {
   private personDAO: PersonDAO;
+  private identifierDAO: PersonIdentifierDAO;
 
-  constructor(personDAO?: PersonDAO) {
+  constructor(personDAO?: PersonDAO, identifierDAO?: PersonIdentifierDAO) {
     this.personDAO = personDAO || new PersonDAO();
+    this.identifierDAO = identifierDAO || new PersonIdentifierDAO();
   }
 
   async requestPermissions(): Promise<boolean> {
@@ -54,6 +64,15 @@ export class ContactsIngest {
       const existingPersons = await this.personDAO.getAll();
       const results = await this.mergeContacts(deduplicatedContacts, existingPersons);
 
+      // Imported addresses may match mail that was synced before these people existed
+      if (results.imported > 0 || results.updated > 0) {
+        try {
+          await EmailSyncPersistence.getInstance().relinkPending();
+        } catch (error) {
+          console.error('ContactsIngest: Failed to relink synced email:', error);
+        }
+      }
+
       console.log('ContactsIngest: Import completed', results);
       return results;
     } catch (error) {
@@ -97,9 +116,9 @@ export class ContactsIngest {
 
       if (!isDuplicate && contact.name) {
         // Check for fuzzy name matches
-        const normalizedName = this.normalizeName(contact.name);
+        const normalizedName = normalizeName(contact.name);
         for (const [existingName, existingContact] of nameMap.entries()) {
-          if (this.isFuzzyNameMatch(normalizedName, existingName)) {
+          if (isFuzzyNameMatch(normalizedName, existingName)) {
             this.mergeContactData(existingContact, contact);
             isDuplicate = true;
             break;
@@ -115,7 +134,7 @@ export class ContactsIngest {
           emailMap.set(email, contact);
         }
         if (contact.name) {
-          nameMap.set(this.normalizeName(contact.name), contact);
+          nameMap.set(normalizeName(contact.name), contact);
         }
       }
     }
@@ -123,51 +142,6 @@ export class ContactsIngest {
     return result;
   }
 
-  private normalizeName(name: string): string {
-    return name.toLowerCase().trim().replace(/\s+/g, ' ');
-  }
-
-  private isFuzzyNameMatch(name1: string, name2: string): boolean {
-    if (name1 === name2) return true;
-    
-    // Split names into parts
-    const parts1 = name1.split(' ').filter(Boolean);
-    const parts2 = name2.split(' ').filter(Boolean);
-    
-    // If both have at least 2 parts, check if first and last match
-    if (parts1.length >= 2 && parts2.length >= 2) {
-      const first1 = parts1[0];
-      const last1 = parts1[parts1.length - 1];
-      const first2 = parts2[0];
-      const last2 = parts2[parts2.length - 1];
-      
-      return (first1 === first2 && last1 === last2);
-    }
-    
-    // For single names, use Levenshtein distance
-    return this.levenshteinDistance(name1, name2) <= 2;
-  }
-
-  private levenshteinDistance(str1: string, str2: string): number {
-    const matrix = Array(str2.length + 1).fill(null).map(() => Array(str1.length + 1).fill(null));
-    
-    for (let i = 0; i <= str1.length; i++) matrix[0][i] = i;
-    for (let j = 0; j <= str2.length; j++) matrix[j][0] = j;
-    
-    for (let j = 1; j <= str2.length; j++) {
-      for (let i = 1; i <= str1.length; i++) {
-        const indicator = str1[i - 1] === str2[j - 1] ? 0 : 1;
-        matrix[j][i] = Math.min(
-          matrix[j][i - 1] + 1,
-          matrix[j - 1][i] + 1,
-          matrix[j - 1][i - 1] + indicator
-        );
-      }
-    }
-    
-    return matrix[str2.length][str1.length];
-  }
-
   private mergeContactData(existing: ContactData, newContact: ContactData): void {
     // Merge emails
     for (const email of newContact.emails) {
@@ -196,15 +170,16 @@ export class ContactsIngest {
     let imported = 0;
     let updated = 0;
     let skipped = 0;
+    const index = await this.buildIdentifierIndex(existingPersons);
 
     for (const contact of contacts) {
       try {
-        // Find existing person by email or name
-        let existingPerson = this.findExistingPerson(contact, existingPersons);
+        // Find existing person by any email, phone or name
+        let existingPerson = this.findExistingPerson(contact, existingPersons, index);
         
         if (existingPerson) {
           // Update existing person
-          const wasUpdated = await this.updateExistingPerson(existingPerson, contact);
+          const wasUpdated = await this.updateExistingPerson(existingPerson, contact, index);
           if (wasUpdated) {
             updated++;
           } else {
@@ -224,30 +199,60 @@ export class ContactsIngest {
     return { imported, updated, skipped };
   }
 
-  private findExistingPerson(contact: ContactData, existingPersons: Person[]): Person | null {
-    // First try to match by email
+  /**
+   * Map every known email and phone to its person so matching uses all identifiers
+   */
+  private async buildIdentifierIndex(existingPersons: Person[]): Promise<IdentifierIndex> {
+    const index: IdentifierIndex = { emails: new Map(), phones: new Map() };
+
+    for (const person of existingPersons) {
+      if (person.email) index.emails.set(PersonIdentifierDAO.normalize('email', person.email), person.id);
+      if (person.phone) index.phones.set(PersonIdentifierDAO.normalize('phone', person.phone), person.id);
+    }
+
+    const [emails, phones] = await Promise.all([
+      this.identifierDAO.getAllByType('email'),
+      this.identifierDAO.getAllByType('phone'),
+    ]);
+    for (const identifier of emails) {
+      if (!index.emails.has(identifier.value)) index.emails.set(identifier.value, identifier.personId);
+    }
+    for (const identifier of phones) {
+      if (!index.phones.has(identifier.value)) index.phones.set(identifier.value, identifier.personId);
+    }
+
+    return index;
+  }
+
+  private findExistingPerson(contact: ContactData, existingPersons: Person[], index: IdentifierIndex): Person | null {
+    // First try to match by any known email, then any known phone
     for (const email of contact.emails) {
-      const person = existingPersons.find(p => 
-        p.email?.toLowerCase() === email
-      );
+      const personId = index.emails.get(email);
+      const person = personId ? existingPersons.find(p => p.id === personId) : undefined;
+      if (person) return person;
+    }
+
+    for (const phone of contact.phones) {
+      const personId = index.phones.get(phone);
+      const person = personId ? existingPersons.find(p => p.id === personId) : undefined;
       if (person) return person;
     }
 
     // Then try to match by name
     if (contact.name) {
-      const normalizedContactName = this.normalizeName(contact.name);
+      const normalizedContactName = normalizeName(contact.name);
       return existingPersons.find(p => {
         const fullName = `${p.firstName} ${p.lastName}`.trim();
         if (!fullName) return false;
-        const normalizedPersonName = this.normalizeName(fullName);
-        return this.isFuzzyNameMatch(normalizedContactName, normalizedPersonName);
+        const normalizedPersonName = normalizeName(fullName);
+        return isFuzzyNameMatch(normalizedContactName, normalizedPersonName);
       }) || null;
     }
 
     return null;
   }
 
-  private async updateExistingPerson(person: Person, contact: ContactData): Promise<boolean> {
+  private async updateExistingPerson(person: Person, contact: ContactData, index: IdentifierIndex): Promise<boolean> {
     let hasChanges = false;
     const updates: Partial<Person> = {};
 
@@ -277,11 +282,20 @@ export class ContactsIngest {
     }
 
     if (hasChanges) {
-      await this.personDAO.update(person.id, updates);
+      await this.personDAO.update(person.id, updates, { source: 'system' });
       console.log(`ContactsIngest: Updated person ${person.firstName} ${person.lastName}`);
     }
 
-    return hasChanges;
+    // Keep every address and number, not just the primary ones
+    const identifiersAdded = await this.addIdentifiers(person.id, contact);
+    for (const email of contact.emails) {
+      if (!index.emails.has(email)) index.emails.set(email, person.id);
+    }
+    for (const phone of contact.phones) {
+      if (!index.phones.has(phone)) index.phones.set(phone, person.id);
+    }
+
+    return hasChanges || identifiersAdded > 0;
   }
 
   private async createNewPerson(contact: ContactData): Promise<void> {
@@ -299,7 +313,19 @@ export class ContactsIngest {
       tags: ['imported-from-contacts'],
     };
 
-    await this.personDAO.create(person);
+    const created = await this.personDAO.create(person, { source: 'system' });
+    await this.addIdentifiers(created.id, contact);
     console.log(`ContactsIngest: Created new person ${firstName} ${lastName}`);
   }
+
+  private async addIdentifiers(personId: string, contact: ContactData): Promise<number> {
+    let added = 0;
+    for (const email of contact.emails) {
+      if (await this.identifierDAO.add(personId, 'email', email)) added++;
+    }
+    for (const phone of contact.phones) {
+      if (await this.identifierDAO.add(personId, 'phone', phone)) added++;
+    }
+    return added;
+  }
 }
\ No newline at end of file
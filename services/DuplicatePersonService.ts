@@ -0,0 +1,379 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Database } from '@/database/Database';
+import { PersonDAO } from '@/database/PersonDAO';
+import { PersonIdentifierDAO } from '@/database/PersonIdentifierDAO';
+import { ChangeLogDAO, RowScope } from '@/database/ChangeLogDAO';
+import { Person } from '@/models/Person';
+import { isFuzzyNameMatch, levenshteinDistance, normalizeName } from '@/lib/utils';
+
+export interface DuplicateCandidate {
+  survivor: Person; // Suggested record to keep
+  duplicate: Person; // Suggested record to fold into the survivor
+  score: number; // 0-100 confidence that both rows are the same person
+  reasons: string[];
+}
+
+export interface PersonMergeResult {
+  survivorId: string;
+  mergedId: string;
+  interactionsMoved: number;
+  tasksMoved: number;
+  annotationsMoved: number;
+  threadsLinked: number;
+  meetingsLinked: number;
+}
+
+const DISMISSED_PAIRS_KEY = 'duplicate_dismissed_pairs';
+const DEFAULT_MIN_SCORE = 40;
+
+const SCORE_WEIGHTS = {
+  sharedEmail: 60,
+  sharedPhone: 50,
+  exactName: 40, // Enough on its own: the same contact often arrives from contacts and email under different addresses
+  similarName: 25,
+  sharedCompany: 10,
+};
+
+/**
+ * DuplicatePersonService - Local Duplicate Detection and Merge
+ *
+ * Privacy Implementation:
+ * - Compares people entirely on device
+ * - Merges only after the user confirms each pair
+ */
+export class DuplicatePersonService {
+  private static instance: DuplicatePersonService;
+  private personDAO = new PersonDAO();
+  private identifierDAO = new PersonIdentifierDAO();
+  private changeLog = new ChangeLogDAO();
+
+  static getInstance(): DuplicatePersonService {
+    if (!DuplicatePersonService.instance) {
+      DuplicatePersonService.instance = new DuplicatePersonService();
+    }
+    return DuplicatePersonService.instance;
+  }
+
+  /**
+   * Score every pair of people that share an identifier or a similar name
+   */
+  async findCandidates(minScore: number = DEFAULT_MIN_SCORE): Promise<DuplicateCandidate[]> {
+    const persons = await this.personDAO.getAllPersons();
+    if (persons.length < 2) return [];
+
+    const personsById = new Map(persons.map(person => [person.id, person]));
+    const dismissed = await this.getDismissedPairs();
+    const [emails, phones] = await Promise.all([
+      this.identifierDAO.getAllByType('email'),
+      this.identifierDAO.getAllByType('phone'),
+    ]);
+
+    const sharedEmails = this.groupSharedValues(emails.map(i => [i.value, i.personId]));
+    const sharedPhones = this.groupSharedValues(phones.map(i => [i.value, i.personId]));
+    const pairs = new Map<string, { a: string; b: string; score: number; reasons: string[] }>();
+
+    const addReason = (a: string, b: string, weight: number, reason: string) => {
+      const key = this.pairKey(a, b);
+      if (dismissed.has(key)) return;
+      const pair = pairs.get(key) ?? { a, b, score: 0, reasons: [] };
+      if (pair.reasons.includes(reason)) return;
+      pair.score += weight;
+      pair.reasons.push(reason);
+      pairs.set(key, pair);
+    };
+
+    for (const [value, personIds] of sharedEmails) {
+      this.forEachPair(personIds, (a, b) => addReason(a, b, SCORE_WEIGHTS.sharedEmail, `Same email ${value}`));
+    }
+    for (const [value, personIds] of sharedPhones) {
+      this.forEachPair(personIds, (a, b) => addReason(a, b, SCORE_WEIGHTS.sharedPhone, `Same phone ${value}`));
+    }
+
+    // Bucket by first letter so name comparison stays cheap on large address books
+    const buckets = new Map<string, Person[]>();
+    for (const person of persons) {
+      const name = this.fullName(person);
+      if (!name) continue;
+      const bucket = buckets.get(name[0]) ?? [];
+      bucket.push(person);
+      buckets.set(name[0], bucket);
+    }
+
+    for (const bucket of buckets.values()) {
+      for (let i = 0; i < bucket.length; i++) {
+        for (let j = i + 1; j < bucket.length; j++) {
+          const nameA = this.fullName(bucket[i]);
+          const nameB = this.fullName(bucket[j]);
+          if (nameA === nameB) {
+            addReason(bucket[i].id, bucket[j].id, SCORE_WEIGHTS.exactName, 'Same name');
+          } else if (this.isSimilarName(nameA, nameB)) {
+            addReason(bucket[i].id, bucket[j].id, SCORE_WEIGHTS.similarName, 'Similar name');
+          }
+        }
+      }
+    }
+
+    const candidates: DuplicateCandidate[] = [];
+    for (const pair of pairs.values()) {
+      const a = personsById.get(pair.a);
+      const b = personsById.get(pair.b);
+      if (!a || !b) continue;
+
+      if (a.companyId && a.companyId === b.companyId) {
+        pair.score += SCORE_WEIGHTS.sharedCompany;
+        pair.reasons.push('Same company');
+      }
+
+      const score = Math.min(100, pair.score);
+      if (score < minScore) continue;
+
+      const [survivor, duplicate] = this.pickSurvivor(a, b);
+      candidates.push({ survivor, duplicate, score, reasons: pair.reasons });
+    }
+
+    candidates.sort((x, y) => y.score - x.score);
+    console.log(`[DuplicatePersonService] Found ${candidates.length} duplicate candidates`);
+    return candidates;
+  }
+
+  /**
+   * Fold `mergedId` into `survivorId` and delete the merged row
+   */
+  async merge(survivorId: string, mergedId: string): Promise<PersonMergeResult> {
+    if (survivorId === mergedId) {
+      throw new Error('Cannot merge a person into themselves');
+    }
+
+    const db = Database.getInstance().getDb();
+    if (!db) {
+      throw new Error('Database not available');
+    }
+
+    const [survivor, merged] = await Promise.all([
+      this.personDAO.getPersonById(survivorId),
+      this.personDAO.getPersonById(mergedId),
+    ]);
+    if (!survivor || !merged) {
+      throw new Error('Person not found');
+    }
+
+    const result: PersonMergeResult = {
+      survivorId,
+      mergedId,
+      interactionsMoved: 0,
+      tasksMoved: 0,
+      annotationsMoved: 0,
+      threadsLinked: 0,
+      meetingsLinked: 0,
+    };
+
+    const mergedName = `${merged.firstName} ${merged.lastName}`.trim();
+    const survivorName = `${survivor.firstName} ${survivor.lastName}`.trim();
+    const description = `Merged ${mergedName} into ${survivorName}`;
+    const scopes = this.mergeScopes([survivorId, mergedId]);
+
+    await this.changeLog.track({ operation: 'merge', description, personId: survivorId }, scopes, context => db.withTransactionAsync(async () => {
+      const now = new Date().toISOString();
+
+      result.interactionsMoved = (await db.runAsync(
+        `UPDATE interactions SET personId = ?, updatedAt = ? WHERE personId = ?`,
+        [survivorId, now, mergedId]
+      )).changes;
+
+      result.tasksMoved = (await db.runAsync(
+        `UPDATE tasks SET personId = ?, updatedAt = ? WHERE personId = ?`,
+        [survivorId, now, mergedId]
+      )).changes;
+
+      result.annotationsMoved = (await db.runAsync(
+        `UPDATE annotations SET entityId = ?, updatedAt = ? WHERE entityType = 'person' AND entityId = ?`,
+        [survivorId, now, mergedId]
+      )).changes;
+
+      await db.runAsync(
+        `UPDATE messages SET senderId = ?, updatedAt = ? WHERE senderId = ?`,
+        [survivorId, now, mergedId]
+      );
+
+      // Join tables are keyed on (x, personId): copy links the survivor lacks, then drop the rest
+      result.threadsLinked = (await db.runAsync(
+        `INSERT OR IGNORE INTO thread_participants (threadId, personId)
+         SELECT threadId, ? FROM thread_participants WHERE personId = ?`,
+        [survivorId, mergedId]
+      )).changes;
+      await db.runAsync(`DELETE FROM thread_participants WHERE personId = ?`, [mergedId]);
+
+      result.meetingsLinked = (await db.runAsync(
+        `INSERT OR IGNORE INTO meeting_attendees (meetingId, personId)
+         SELECT meetingId, ? FROM meeting_attendees WHERE personId = ?`,
+        [survivorId, mergedId]
+      )).changes;
+      await db.runAsync(`DELETE FROM meeting_attendees WHERE personId = ?`, [mergedId]);
+
+      // Keep the survivor's score when it has one; the next score run recomputes it anyway
+      const survivorScore = await db.getFirstAsync<{ id: string }>(
+        `SELECT id FROM person_scores WHERE personId = ?`,
+        [survivorId]
+      );
+      if (survivorScore) {
+        await db.runAsync(`DELETE FROM person_scores WHERE personId = ?`, [mergedId]);
+      } else {
+        await db.runAsync(`UPDATE person_scores SET personId = ? WHERE personId = ?`, [survivorId, mergedId]);
+      }
+
+      // Fill gaps in the survivor's score history; its own snapshot wins on days both have one
+      await db.runAsync(
+        `INSERT OR IGNORE INTO person_score_snapshots (personId, day, relationshipScore, interactionFrequency, connectivity, reciprocity, metrics, createdAt)
+         SELECT ?, day, relationshipScore, interactionFrequency, connectivity, reciprocity, metrics, createdAt
+         FROM person_score_snapshots WHERE personId = ?`,
+        [survivorId, mergedId]
+      );
+      await db.runAsync(`DELETE FROM person_score_snapshots WHERE personId = ?`, [mergedId]);
+
+      // The survivor's own snooze wins; otherwise it inherits the merged person's
+      await db.runAsync(`UPDATE OR IGNORE snoozes SET personId = ? WHERE personId = ?`, [survivorId, mergedId]);
+      await db.runAsync(`DELETE FROM snoozes WHERE personId = ?`, [mergedId]);
+
+      await db.runAsync(
+        `INSERT OR IGNORE INTO person_identifiers (id, personId, type, value, label, isPrimary, createdAt, updatedAt)
+         SELECT id || '_merged', ?, type, value, label, 0, createdAt, ? FROM person_identifiers WHERE personId = ?`,
+        [survivorId, now, mergedId]
+      );
+
+      await this.personDAO.update(survivorId, this.mergeFields(survivor, merged), { context });
+      await this.personDAO.deleteById(mergedId, { context });
+    }));
+
+    await this.forgetDismissedPairsFor(mergedId);
+    console.log(`[DuplicatePersonService] Merged ${mergedId} into ${survivorId}`, result);
+    return result;
+  }
+
+  /**
+   * Every row a merge can touch, so the change log can undo it
+   */
+  private mergeScopes(personIds: string[]): RowScope[] {
+    const placeholders = personIds.map(() => '?').join(', ');
+    return [
+      { table: 'persons', where: `id IN (${placeholders})`, params: personIds },
+      { table: 'person_identifiers', where: `personId IN (${placeholders})`, params: personIds },
+      { table: 'interactions', where: `personId IN (${placeholders})`, params: personIds },
+      { table: 'tasks', where: `personId IN (${placeholders})`, params: personIds },
+      { table: 'annotations', where: `entityType = 'person' AND entityId IN (${placeholders})`, params: personIds },
+      { table: 'messages', where: `senderId IN (${placeholders})`, params: personIds },
+      { table: 'thread_participants', where: `personId IN (${placeholders})`, params: personIds },
+      { table: 'meeting_attendees', where: `personId IN (${placeholders})`, params: personIds },
+      { table: 'person_scores', where: `personId IN (${placeholders})`, params: personIds },
+      { table: 'person_score_snapshots', where: `personId IN (${placeholders})`, params: personIds },
+      { table: 'snoozes', where: `personId IN (${placeholders})`, params: personIds },
+    ];
+  }
+
+  /**
+   * Hide a pair from future candidate lists
+   */
+  async dismiss(personIdA: string, personIdB: string): Promise<void> {
+    const dismissed = await this.getDismissedPairs();
+    dismissed.add(this.pairKey(personIdA, personIdB));
+    await AsyncStorage.setItem(DISMISSED_PAIRS_KEY, JSON.stringify(Array.from(dismissed)));
+  }
+
+  /**
+   * Fill gaps on the survivor from the merged record without overwriting what it already has
+   */
+  private mergeFields(survivor: Person, merged: Person): Partial<Person> {
+    const updates: Partial<Person> = {};
+
+    if (!survivor.nickname && merged.nickname) updates.nickname = merged.nickname;
+    if (!survivor.email && merged.email) updates.email = merged.email;
+    if (!survivor.phone && merged.phone) updates.phone = merged.phone;
+    if (!survivor.birthday && merged.birthday) updates.birthday = merged.birthday;
+    if (!survivor.avatar && merged.avatar) updates.avatar = merged.avatar;
+    if (!survivor.companyId && merged.companyId) updates.companyId = merged.companyId;
+    if (!survivor.cadence && merged.cadence) updates.cadence = merged.cadence;
+
+    if (merged.notes && merged.notes !== survivor.notes) {
+      updates.notes = survivor.notes ? `${survivor.notes}\n\n${merged.notes}` : merged.notes;
+    }
+
+    const tags = Array.from(new Set([...survivor.tags, ...merged.tags]));
+    if (tags.length !== survivor.tags.length) updates.tags = tags;
+
+    if (merged.lastInteraction && (!survivor.lastInteraction || merged.lastInteraction > survivor.lastInteraction)) {
+      updates.lastInteraction = merged.lastInteraction;
+    }
+
+    return updates;
+  }
+
+  /**
+   * Keep the richer record, falling back to the older one
+   */
+  private pickSurvivor(a: Person, b: Person): [Person, Person] {
+    const completeness = (person: Person) =>
+      [person.email, person.phone, person.birthday, person.avatar, person.companyId, person.notes, person.lastName]
+        .filter(Boolean).length;
+
+    const diff = completeness(a) - completeness(b);
+    if (diff !== 0) {
+      return diff > 0 ? [a, b] : [b, a];
+    }
+    return a.createdAt <= b.createdAt ? [a, b] : [b, a];
+  }
+
+  private isSimilarName(nameA: string, nameB: string): boolean {
+    // Single short names (e.g. "Al" vs "Ed") are too ambiguous for edit distance alone
+    if (Math.min(nameA.length, nameB.length) < 4) return false;
+    return isFuzzyNameMatch(nameA, nameB) || levenshteinDistance(nameA, nameB) <= 1;
+  }
+
+  private fullName(person: Person): string {
+    return normalizeName(`${person.firstName} ${person.lastName}`);
+  }
+
+  private groupSharedValues(entries: [string, string][]): Map<string, string[]> {
+    const grouped = new Map<string, Set<string>>();
+    for (const [value, personId] of entries) {
+      const ids = grouped.get(value) ?? new Set<string>();
+      ids.add(personId);
+      grouped.set(value, ids);
+    }
+
+    const shared = new Map<string, string[]>();
+    for (const [value, ids] of grouped) {
+      if (ids.size > 1) shared.set(value, Array.from(ids));
+    }
+    return shared;
+  }
+
+  private forEachPair(ids: string[], callback: (a: string, b: string) => void): void {
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        callback(ids[i], ids[j]);
+      }
+    }
+  }
+
+  private pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  private async getDismissedPairs(): Promise<Set<string>> {
+    try {
+      const raw = await AsyncStorage.getItem(DISMISSED_PAIRS_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return new Set(Array.isArray(parsed) ? parsed : []);
+    } catch (error) {
+      console.warn('[DuplicatePersonService] Failed to read dismissed pairs:', error);
+      return new Set();
+    }
+  }
+
+  private async forgetDismissedPairsFor(personId: string): Promise<void> {
+    const dismissed = await this.getDismissedPairs();
+    const remaining = Array.from(dismissed).filter(key => !key.split('|').includes(personId));
+    if (remaining.length !== dismissed.size) {
+      await AsyncStorage.setItem(DISMISSED_PAIRS_KEY, JSON.stringify(remaining));
+    }
+  }
+}
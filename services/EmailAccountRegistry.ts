@@ -0,0 +1,287 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+
+export type EmailAccountType = 'imap' | 'gmail';
+
+/**
+ * Non-secret account metadata. IMAP credentials live in secure storage,
+ * keyed by account ID, and are never kept in this list.
+ */
+export interface EmailAccount {
+  id: string;
+  type: EmailAccountType;
+  email: string;
+  label?: string;
+  provider?: string;
+  enabled: boolean;
+  createdAt: string;
+  lastSyncedAt?: string;
+  lastSyncError?: string;
+}
+
+export interface ImapAccountCredentials {
+  email: string;
+  appPassword: string;
+  host: string;
+  port: number;
+  tls: boolean;
+  provider?: string;
+  createdAt?: string;
+  mailboxes?: string[];
+}
+
+const ACCOUNTS_KEY = 'email_accounts';
+const LEGACY_IMAP_CONFIG_KEY = 'email_config';
+const CREDENTIALS_KEY_PREFIX = 'email_account_';
+// ImapService keeps one cursor per mailbox under `${prefix}${accountId}:${mailbox}`
+export const IMAP_SYNC_STATE_KEY_PREFIX = 'imap_sync_state:';
+
+/**
+ * EmailAccountRegistry - Device-Only Account List
+ *
+ * Privacy Implementation:
+ * - Account list stored locally in AsyncStorage
+ * - App passwords stored in device secure storage only
+ * - Removing an account deletes its credentials from the device
+ */
+export class EmailAccountRegistry {
+  private static instance: EmailAccountRegistry;
+  private migrationPromise: Promise<void> | null = null;
+
+  static getInstance(): EmailAccountRegistry {
+    if (!EmailAccountRegistry.instance) {
+      EmailAccountRegistry.instance = new EmailAccountRegistry();
+    }
+    return EmailAccountRegistry.instance;
+  }
+
+  async listAccounts(type?: EmailAccountType): Promise<EmailAccount[]> {
+    await this.ensureMigrated();
+    const accounts = await this.readAccounts();
+    return type ? accounts.filter(account => account.type === type) : accounts;
+  }
+
+  async getAccount(id: string): Promise<EmailAccount | null> {
+    const accounts = await this.listAccounts();
+    return accounts.find(account => account.id === id) ?? null;
+  }
+
+  async findByEmail(type: EmailAccountType, email: string): Promise<EmailAccount | null> {
+    const normalized = email.trim().toLowerCase();
+    const accounts = await this.listAccounts(type);
+    return accounts.find(account => account.email.toLowerCase() === normalized) ?? null;
+  }
+
+  /**
+   * Add an IMAP account, or replace the credentials of an existing one with the same address
+   */
+  async addImapAccount(credentials: ImapAccountCredentials, label?: string): Promise<EmailAccount> {
+    const existing = await this.findByEmail('imap', credentials.email);
+    const account: EmailAccount = existing
+      ? { ...existing, provider: credentials.provider, label: label ?? existing.label }
+      : {
+          id: this.accountId('imap', credentials.email),
+          type: 'imap',
+          email: credentials.email.trim(),
+          label,
+          provider: credentials.provider,
+          enabled: true,
+          createdAt: new Date().toISOString(),
+        };
+
+    await this.writeSecret(this.credentialsKey(account.id), JSON.stringify({
+      ...credentials,
+      createdAt: credentials.createdAt ?? account.createdAt,
+    }));
+    await this.upsertAccount(account);
+    return account;
+  }
+
+  /**
+   * Record a Google identity that authenticated through GmailSync.
+   *
+   * GmailSync holds a single set of Google tokens, so only one Gmail account is
+   * registered at a time; signing in as another Google identity replaces it.
+   */
+  async registerGmailAccount(email: string): Promise<EmailAccount> {
+    const existing = await this.findByEmail('gmail', email);
+    if (existing) {
+      return existing;
+    }
+
+    for (const previous of await this.listAccounts('gmail')) {
+      await this.removeAccount(previous.id);
+    }
+
+    const account: EmailAccount = {
+      id: this.accountId('gmail', email),
+      type: 'gmail',
+      email: email.trim(),
+      provider: 'Gmail',
+      enabled: true,
+      createdAt: new Date().toISOString(),
+    };
+
+    await this.upsertAccount(account);
+    return account;
+  }
+
+  async removeAccount(id: string): Promise<boolean> {
+    const accounts = await this.listAccounts();
+    const remaining = accounts.filter(account => account.id !== id);
+
+    if (remaining.length === accounts.length) {
+      return false;
+    }
+
+    await this.writeAccounts(remaining);
+    await this.deleteSecret(this.credentialsKey(id));
+    await this.clearSyncState(id);
+    return true;
+  }
+
+  async setEnabled(id: string, enabled: boolean): Promise<EmailAccount | null> {
+    return await this.updateAccount(id, { enabled });
+  }
+
+  async recordSyncResult(id: string, result: { success: boolean; error?: string }): Promise<void> {
+    await this.updateAccount(id, result.success
+      ? { lastSyncedAt: new Date().toISOString(), lastSyncError: undefined }
+      : { lastSyncError: result.error ?? 'Unknown error' });
+  }
+
+  async getImapCredentials(id: string): Promise<ImapAccountCredentials | null> {
+    try {
+      const raw = await this.readSecret(this.credentialsKey(id));
+      return raw ? (JSON.parse(raw) as ImapAccountCredentials) : null;
+    } catch (error) {
+      console.warn('[EmailAccountRegistry] Failed to read IMAP credentials:', error);
+      return null;
+    }
+  }
+
+  private async updateAccount(id: string, updates: Partial<Omit<EmailAccount, 'id' | 'type'>>): Promise<EmailAccount | null> {
+    const accounts = await this.listAccounts();
+    const index = accounts.findIndex(account => account.id === id);
+    if (index < 0) {
+      return null;
+    }
+
+    accounts[index] = { ...accounts[index], ...updates };
+    await this.writeAccounts(accounts);
+    return accounts[index];
+  }
+
+  private async upsertAccount(account: EmailAccount): Promise<void> {
+    const accounts = await this.readAccounts();
+    const index = accounts.findIndex(existing => existing.id === account.id);
+    if (index >= 0) {
+      accounts[index] = account;
+    } else {
+      accounts.push(account);
+    }
+    await this.writeAccounts(accounts);
+  }
+
+  /**
+   * Move the single pre-registry IMAP config into the account list once
+   */
+  private async ensureMigrated(): Promise<void> {
+    if (!this.migrationPromise) {
+      this.migrationPromise = this.migrateLegacyConfig().catch(error => {
+        console.warn('[EmailAccountRegistry] Legacy IMAP config migration failed:', error);
+      });
+    }
+    await this.migrationPromise;
+  }
+
+  private async migrateLegacyConfig(): Promise<void> {
+    const raw = await this.readSecret(LEGACY_IMAP_CONFIG_KEY);
+    if (!raw) {
+      return;
+    }
+
+    const legacy = JSON.parse(raw) as Partial<ImapAccountCredentials>;
+    const port = typeof legacy.port === 'string' ? parseInt(legacy.port, 10) : legacy.port;
+
+    if (legacy.email && legacy.appPassword && legacy.host && port) {
+      const accounts = await this.readAccounts();
+      const id = this.accountId('imap', legacy.email);
+
+      if (!accounts.some(account => account.id === id)) {
+        await this.writeSecret(this.credentialsKey(id), JSON.stringify({ ...legacy, port }));
+        accounts.push({
+          id,
+          type: 'imap',
+          email: legacy.email,
+          provider: legacy.provider,
+          enabled: true,
+          createdAt: legacy.createdAt ?? new Date().toISOString(),
+        });
+        await this.writeAccounts(accounts);
+      }
+    }
+
+    await this.deleteSecret(LEGACY_IMAP_CONFIG_KEY);
+    console.log('[EmailAccountRegistry] Migrated legacy IMAP configuration');
+  }
+
+  private accountId(type: EmailAccountType, email: string): string {
+    // SecureStore keys only allow alphanumerics, ".", "-" and "_"
+    return `${type}_${email.trim().toLowerCase().replace(/[^a-z0-9._-]/g, '_')}`;
+  }
+
+  private credentialsKey(id: string): string {
+    return `${CREDENTIALS_KEY_PREFIX}${id}`;
+  }
+
+  private async readAccounts(): Promise<EmailAccount[]> {
+    try {
+      const raw = await AsyncStorage.getItem(ACCOUNTS_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return Array.isArray(parsed) ? (parsed as EmailAccount[]) : [];
+    } catch (error) {
+      console.warn('[EmailAccountRegistry] Failed to read account list:', error);
+      return [];
+    }
+  }
+
+  private async writeAccounts(accounts: EmailAccount[]): Promise<void> {
+    await AsyncStorage.setItem(ACCOUNTS_KEY, JSON.stringify(accounts));
+  }
+
+  private async readSecret(key: string): Promise<string | null> {
+    return Platform.OS === 'web'
+      ? await AsyncStorage.getItem(key)
+      : await SecureStore.getItemAsync(key);
+  }
+
+  private async writeSecret(key: string, value: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      await AsyncStorage.setItem(key, value);
+    } else {
+      await SecureStore.setItemAsync(key, value);
+    }
+  }
+
+  private async clearSyncState(id: string): Promise<void> {
+    try {
+      const prefix = `${IMAP_SYNC_STATE_KEY_PREFIX}${id}:`;
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(prefix)));
+    } catch (error) {
+      console.warn('[EmailAccountRegistry] Failed to clear IMAP sync state:', error);
+    }
+  }
+
+  private async deleteSecret(key: string): Promise<void> {
+    if (Platform.OS === 'web') {
+      await AsyncStorage.removeItem(key);
+    } else {
+      await SecureStore.deleteItemAsync(key);
+    }
+  }
+}
+
+export const emailAccountRegistry = EmailAccountRegistry.getInstance();
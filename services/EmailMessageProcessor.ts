@@ -0,0 +1,196 @@
+import { Thread } from '@/models/Thread';
+import { Message } from '@/models/Message';
+import { Interaction } from '@/models/Interaction';
+
+/**
+ * Provider-neutral view of an email's headers.
+ *
+ * Gmail (metadata API) and IMAP (FETCH of header fields) both map their raw
+ * responses into this shape so they share one thread/message/interaction
+ * pipeline.
+ */
+export interface EmailHeaderRecord {
+  id: string;
+  threadId?: string; // Provider thread ID when the provider supplies one (Gmail)
+  from: string;
+  to: string;
+  cc?: string;
+  subject: string;
+  date: Date;
+  messageId?: string;
+  inReplyTo?: string;
+  references?: string[];
+  snippet?: string;
+}
+
+export interface EmailSyncBatch {
+  threads: Thread[];
+  messages: Message[];
+  interactions: Interaction[];
+}
+
+const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
+const EMAIL_REGEX_GLOBAL = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+
+/**
+ * EmailMessageProcessor - Local Email Metadata Processing
+ *
+ * Privacy Implementation:
+ * - Works on header metadata only (no message bodies)
+ * - Runs entirely on device
+ * - Produces the in-memory records that sync services hand to the database
+ */
+export class EmailMessageProcessor {
+  /**
+   * Turn header records into threads, messages and per-participant interactions
+   */
+  static process(
+    records: EmailHeaderRecord[],
+    userEmail: string,
+    options: { sourceAccountId?: string } = {}
+  ): EmailSyncBatch {
+    const threads: Thread[] = [];
+    const messages: Message[] = [];
+    const interactions: Interaction[] = [];
+    const threadMap = new Map<string, Thread>();
+    const messageThreadIds = new Map<string, string>();
+    const normalizedUserEmail = userEmail.toLowerCase();
+
+    // Process oldest first so replies can find the thread of the message they answer
+    const ordered = [...records].sort((a, b) => a.date.getTime() - b.date.getTime());
+
+    for (const record of ordered) {
+      try {
+        const fromEmail = this.extractEmailAddress(record.from);
+        const recipientEmails = [
+          ...this.extractEmailAddresses(record.to),
+          ...this.extractEmailAddresses(record.cc || ''),
+        ];
+        const isFromMe = Boolean(normalizedUserEmail) && fromEmail === normalizedUserEmail;
+        const threadId = this.resolveThreadId(record, messageThreadIds);
+
+        const normalizedMessageId = this.normalizeMessageId(record.messageId);
+        if (normalizedMessageId) {
+          messageThreadIds.set(normalizedMessageId, threadId);
+        }
+
+        // Create or update thread
+        let thread = threadMap.get(threadId);
+        if (!thread) {
+          thread = {
+            id: threadId,
+            personIds: [], // Will be populated when we map emails to persons
+            lastMessageAt: record.date,
+            platform: 'email',
+            unreadCount: 0,
+            createdAt: new Date(),
+            updatedAt: new Date()
+          };
+
+          threadMap.set(threadId, thread);
+          threads.push(thread);
+        } else if (record.date > thread.lastMessageAt) {
+          thread.lastMessageAt = record.date;
+        }
+
+        // Create message
+        const message: Message = {
+          id: record.id,
+          threadId,
+          senderId: fromEmail || 'unknown',
+          content: record.snippet || record.subject || '',
+          sentAt: record.date,
+          isFromMe,
+          createdAt: new Date(),
+          updatedAt: new Date()
+        };
+
+        messages.push(message);
+
+        // Create interactions for each participant
+        const participants = Array.from(new Set([fromEmail, ...recipientEmails]))
+          .filter(email => email && email !== normalizedUserEmail);
+
+        for (const participantEmail of participants) {
+          const interaction: Interaction = {
+            id: `${record.id}_${participantEmail}`,
+            personId: participantEmail, // Will be mapped to actual person ID later
+            type: 'email',
+            date: record.date,
+            notes: `Email: ${record.subject}`,
+            threadId,
+            sourceAccountId: options.sourceAccountId,
+            createdAt: new Date(),
+            updatedAt: new Date()
+          };
+
+          interactions.push(interaction);
+        }
+      } catch (error) {
+        console.error('[EmailMessageProcessor] Error processing message:', record.id, error);
+      }
+    }
+
+    return { threads, messages, interactions };
+  }
+
+  /**
+   * Extract single email address from header
+   */
+  static extractEmailAddress(header: string): string {
+    const match = header.match(EMAIL_REGEX);
+    return match ? match[0].toLowerCase() : '';
+  }
+
+  /**
+   * Extract multiple email addresses from header
+   */
+  static extractEmailAddresses(header: string): string[] {
+    const matches = header.match(EMAIL_REGEX_GLOBAL);
+    return matches ? matches.map(email => email.toLowerCase()) : [];
+  }
+
+  /**
+   * Parse a References / In-Reply-To header into bare message IDs
+   */
+  static parseMessageIdList(header: string | undefined): string[] {
+    if (!header) return [];
+    const matches = header.match(/<[^<>\s]+>/g);
+    if (matches) {
+      return matches.map(id => this.normalizeMessageId(id)).filter((id): id is string => Boolean(id));
+    }
+    return header.split(/\s+/).map(id => this.normalizeMessageId(id)).filter((id): id is string => Boolean(id));
+  }
+
+  static normalizeMessageId(messageId: string | undefined): string | undefined {
+    if (!messageId) return undefined;
+    const trimmed = messageId.trim().replace(/^</, '').replace(/>$/, '').toLowerCase();
+    return trimmed || undefined;
+  }
+
+  /**
+   * Pick a thread ID for a message.
+   *
+   * Provider thread IDs win. Otherwise the thread is keyed by the message it
+   * replies to (if already seen), then the root of the References chain, then
+   * the message's own Message-ID.
+   */
+  private static resolveThreadId(record: EmailHeaderRecord, messageThreadIds: Map<string, string>): string {
+    if (record.threadId) {
+      return record.threadId;
+    }
+
+    const inReplyTo = this.normalizeMessageId(this.parseMessageIdList(record.inReplyTo)[0]);
+    if (inReplyTo && messageThreadIds.has(inReplyTo)) {
+      return messageThreadIds.get(inReplyTo)!;
+    }
+
+    const references = record.references ?? [];
+    for (const reference of references) {
+      const known = messageThreadIds.get(reference);
+      if (known) return known;
+    }
+
+    return references[0] || inReplyTo || this.normalizeMessageId(record.messageId) || record.id;
+  }
+}
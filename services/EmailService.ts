@@ -99,10 +99,10 @@ export class EmailService {
         notes: entry.summary || `${entry.type === 'sent' ? 'Sent' : 'Received'} email: ${entry.subject}`,
       });
 
-      // Update last contacted date
+      // Update last contacted date; bookkeeping, so undo stops at the logged email
       await this.personDAO.update(person.id!, {
         lastInteraction: entry.date || new Date(),
-      });
+      }, { source: 'system' });
 
       return interaction;
     } catch (error) {
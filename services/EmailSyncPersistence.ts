@@ -0,0 +1,224 @@
+import { PersonDAO } from '@/database/PersonDAO';
+import { ThreadDAO } from '@/database/ThreadDAO';
+import { MessageDAO } from '@/database/MessageDAO';
+import { InteractionDAO } from '@/database/InteractionDAO';
+import { PendingEmailInteractionDAO } from '@/database/PendingEmailInteractionDAO';
+import { Person } from '@/models/Person';
+import { EmailSyncBatch } from './EmailMessageProcessor';
+
+export interface EmailPersistOptions {
+  // Create a Person for addresses that don't match anyone yet
+  createUnknownPersons?: boolean;
+}
+
+export interface EmailPersistResult {
+  threadsSaved: number;
+  messagesSaved: number;
+  interactionsSaved: number;
+  personsCreated: number;
+  unresolvedAddresses: number;
+  failed: number; // Threads, messages and interactions that could not be saved; a sync should not move past them
+}
+
+/**
+ * EmailSyncPersistence - Store Synced Email Metadata Locally
+ *
+ * Privacy Implementation:
+ * - Writes only to the local SQLite database
+ * - Resolves email addresses to people on device
+ *
+ * Safe to run repeatedly on the same batch: messages and interactions are
+ * keyed by provider message ID, so re-synced mail is skipped.
+ *
+ * Interactions with addresses that match nobody are held in
+ * pending_email_interactions and linked once someone has the address.
+ */
+export class EmailSyncPersistence {
+  private static instance: EmailSyncPersistence;
+  private personDAO = new PersonDAO();
+  private threadDAO = new ThreadDAO();
+  private messageDAO = new MessageDAO();
+  private interactionDAO = new InteractionDAO();
+  private pendingDAO = new PendingEmailInteractionDAO();
+
+  static getInstance(): EmailSyncPersistence {
+    if (!EmailSyncPersistence.instance) {
+      EmailSyncPersistence.instance = new EmailSyncPersistence();
+    }
+    return EmailSyncPersistence.instance;
+  }
+
+  async persist(batch: EmailSyncBatch, options: EmailPersistOptions = {}): Promise<EmailPersistResult> {
+    const result: EmailPersistResult = {
+      threadsSaved: 0,
+      messagesSaved: 0,
+      interactionsSaved: 0,
+      personsCreated: 0,
+      unresolvedAddresses: 0,
+      failed: 0,
+    };
+
+    if (!this.personDAO.isAvailable()) {
+      console.log('[EmailSyncPersistence] Database not available, skipping persistence');
+      result.failed = batch.threads.length + batch.messages.length + batch.interactions.length;
+      return result;
+    }
+
+    // People added since the last sync pick up the mail held for them
+    try {
+      await this.relinkPending();
+    } catch (error) {
+      console.error('[EmailSyncPersistence] Failed to relink held interactions:', error);
+    }
+
+    const personCache = new Map<string, string | null>();
+    const resolvePerson = async (email: string): Promise<string | null> => {
+      const normalized = email.trim().toLowerCase();
+      if (personCache.has(normalized)) {
+        return personCache.get(normalized)!;
+      }
+
+      let person = await this.personDAO.findByEmail(normalized);
+      if (!person && options.createUnknownPersons) {
+        person = await this.createPersonFromEmail(normalized);
+        result.personsCreated++;
+      }
+
+      personCache.set(normalized, person?.id ?? null);
+      return person?.id ?? null;
+    };
+
+    for (const thread of batch.threads) {
+      try {
+        await this.threadDAO.upsert(thread);
+        result.threadsSaved++;
+      } catch (error) {
+        console.error('[EmailSyncPersistence] Failed to save thread:', thread.id, error);
+        result.failed++;
+      }
+    }
+
+    for (const message of batch.messages) {
+      try {
+        const senderPersonId = message.isFromMe ? null : await resolvePerson(message.senderId);
+        const inserted = await this.messageDAO.upsert({
+          ...message,
+          // Own messages use the 'me' sender convention; unknown senders keep their address
+          senderId: message.isFromMe ? 'me' : senderPersonId ?? message.senderId,
+        });
+
+        if (inserted) {
+          result.messagesSaved++;
+        }
+      } catch (error) {
+        console.error('[EmailSyncPersistence] Failed to save message:', message.id, error);
+        result.failed++;
+      }
+    }
+
+    const unresolved = new Set<string>();
+
+    for (const interaction of batch.interactions) {
+      try {
+        // Interactions from the sync pipeline carry the participant's address in personId
+        const personId = await resolvePerson(interaction.personId);
+        if (!personId) {
+          // Held until someone has this address, so the sync can still move past it
+          const address = interaction.personId.trim().toLowerCase();
+          unresolved.add(address);
+          await this.pendingDAO.save({
+            id: interaction.id,
+            address,
+            type: interaction.type,
+            date: interaction.date,
+            notes: interaction.notes,
+            threadId: interaction.threadId,
+            sourceAccountId: interaction.sourceAccountId,
+          });
+          continue;
+        }
+
+        if (interaction.threadId) {
+          await this.threadDAO.addParticipant(interaction.threadId, personId);
+        }
+
+        const inserted = await this.interactionDAO.upsert({
+          id: interaction.id,
+          personId,
+          type: interaction.type,
+          date: interaction.date,
+          notes: interaction.notes,
+          threadId: interaction.threadId,
+          sourceAccountId: interaction.sourceAccountId,
+        });
+
+        if (inserted) {
+          result.interactionsSaved++;
+          await this.personDAO.touchLastInteraction(personId, interaction.date);
+        }
+      } catch (error) {
+        console.error('[EmailSyncPersistence] Failed to save interaction:', interaction.id, error);
+        result.failed++;
+      }
+    }
+
+    result.unresolvedAddresses = unresolved.size;
+    console.log(`[EmailSyncPersistence] Saved ${result.messagesSaved} messages, ${result.interactionsSaved} interactions (${result.personsCreated} people created, ${result.unresolvedAddresses} addresses unmatched, ${result.failed} failed)`);
+    return result;
+  }
+
+  /**
+   * Link held interactions and raw-address messages to people who have since been given those addresses.
+   * Runs before every persist, and after imports that add people.
+   */
+  async relinkPending(): Promise<number> {
+    if (!this.personDAO.isAvailable()) return 0;
+
+    let relinked = 0;
+    for (const { address, personId } of await this.pendingDAO.getMatchedAddresses()) {
+      try {
+        for (const pending of await this.pendingDAO.getByAddress(address)) {
+          if (pending.threadId) {
+            await this.threadDAO.addParticipant(pending.threadId, personId);
+          }
+
+          const inserted = await this.interactionDAO.upsert({
+            id: pending.id,
+            personId,
+            type: pending.type,
+            date: pending.date,
+            notes: pending.notes,
+            threadId: pending.threadId,
+            sourceAccountId: pending.sourceAccountId,
+          });
+          if (inserted) {
+            relinked++;
+            await this.personDAO.touchLastInteraction(personId, pending.date);
+          }
+        }
+
+        await this.messageDAO.relinkSender(address, personId);
+        await this.pendingDAO.deleteByAddress(address);
+      } catch (error) {
+        console.error('[EmailSyncPersistence] Failed to relink held interactions for an address:', error);
+      }
+    }
+
+    if (relinked > 0) {
+      console.log(`[EmailSyncPersistence] Relinked ${relinked} held interactions`);
+    }
+    return relinked;
+  }
+
+  private async createPersonFromEmail(email: string): Promise<Person> {
+    const newPerson: Omit<Person, 'id' | 'createdAt' | 'updatedAt'> = {
+      firstName: email.split('@')[0] || 'Unknown',
+      lastName: '',
+      email,
+      relationship: 'acquaintance',
+      tags: [],
+    };
+
+    return await this.personDAO.create(newPerson, { source: 'system' });
+  }
+}
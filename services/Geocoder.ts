@@ -0,0 +1,74 @@
+import * as Location from 'expo-location';
+import { Platform } from 'react-native';
+import { normalizePlaceName } from '@/models/Place';
+
+export interface GeocodeResult {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Resolves a free-form address or venue name to coordinates.
+ *
+ * Implementations return null when the address has no match and throw when the
+ * lookup itself failed, so callers can tell "retry later" from "give up".
+ */
+export interface Geocoder {
+  readonly name: string;
+  isAvailable(): Promise<boolean>;
+  geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+/**
+ * Geocoder backed by the platform geocoding service through expo-location
+ *
+ * Privacy Implementation:
+ * - Only the place's address text is passed to the OS geocoder
+ * - No people, meetings or interaction data leave the device
+ */
+export class ExpoLocationGeocoder implements Geocoder {
+  readonly name = 'expo-location';
+
+  async isAvailable(): Promise<boolean> {
+    if (Platform.OS === 'web') return false;
+    // Android refuses to geocode without location permission; iOS does not need it
+    if (Platform.OS !== 'android') return true;
+
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      return status === 'granted';
+    } catch {
+      return false;
+    }
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    const results = await Location.geocodeAsync(address);
+    const first = results[0];
+    return first ? { latitude: first.latitude, longitude: first.longitude } : null;
+  }
+}
+
+/**
+ * Deterministic geocoder that answers from a fixed table, for tests and demo data
+ */
+export class FixtureGeocoder implements Geocoder {
+  readonly name = 'fixture';
+  private fixtures: Map<string, GeocodeResult>;
+  readonly lookups: string[] = [];
+
+  constructor(fixtures: Record<string, GeocodeResult> = {}) {
+    this.fixtures = new Map(
+      Object.entries(fixtures).map(([address, result]) => [normalizePlaceName(address), result])
+    );
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+
+  async geocode(address: string): Promise<GeocodeResult | null> {
+    this.lookups.push(address);
+    return this.fixtures.get(normalizePlaceName(address)) ?? null;
+  }
+}
@@ -3,6 +3,8 @@ import { ENABLE_GOOGLE_OAUTH } from '../src/flags';
 import { Thread } from '@/models/Thread';
 import { Message } from '@/models/Message';
 import { Interaction } from '@/models/Interaction';
+import { EmailHeaderRecord, EmailMessageProcessor } from './EmailMessageProcessor';
+import { emailAccountRegistry } from './EmailAccountRegistry';
 
 let AuthSession: any;
 let WebBrowser: any;
@@ -191,6 +193,16 @@ export class GmailSync {
           );
           
           console.log('[GmailSync] Authentication successful');
+
+          const userEmail = await this.getCurrentUserEmail();
+          if (userEmail) {
+            // The stored history ID belongs to the previous Google identity
+            const previous = await emailAccountRegistry.listAccounts('gmail');
+            if (previous.some(account => account.email.toLowerCase() !== userEmail.trim().toLowerCase())) {
+              await this.clearStoredHistoryId();
+            }
+            await emailAccountRegistry.registerGmailAccount(userEmail);
+          }
           return true;
         }
       } else if (result.type === 'cancel') {
@@ -372,6 +384,11 @@ export class GmailSync {
       return { threads: [], messages: [], interactions: [] };
     }
 
+    if (!(await this.isSyncEnabled())) {
+      console.log('[GmailSync] Gmail account sync is turned off, skipping');
+      return { threads: [], messages: [], interactions: [] };
+    }
+
     try {
       console.log('[GmailSync] Starting initial Gmail sync (seed)...');
       
@@ -437,6 +454,11 @@ export class GmailSync {
 
     try {
       console.log('[GmailSync] Starting delta Gmail sync...');
+
+      if (!(await this.isSyncEnabled())) {
+        console.log('[GmailSync] Gmail account sync is turned off, skipping');
+        return { threads: [], messages: [], interactions: [] };
+      }
       
       const startHistoryId = await this.getStoredHistoryId();
       if (!startHistoryId) {
@@ -505,99 +527,28 @@ export class GmailSync {
    * - Creates interaction records for relationship tracking
    */
   private async processGmailMessages(gmailMessages: GmailMessage[]): Promise<{ threads: Thread[]; messages: Message[]; interactions: Interaction[] }> {
-    const threads: Thread[] = [];
-    const messages: Message[] = [];
-    const interactions: Interaction[] = [];
-    const threadMap = new Map<string, Thread>();
-
-    for (const gmailMessage of gmailMessages) {
-      try {
-        // Extract headers
-        const headers = gmailMessage.payload.headers;
-        const fromHeader = headers.find(h => h.name.toLowerCase() === 'from')?.value || '';
-        const toHeader = headers.find(h => h.name.toLowerCase() === 'to')?.value || '';
-        const subjectHeader = headers.find(h => h.name.toLowerCase() === 'subject')?.value || '';
-
-        // Parse email addresses
-        const fromEmail = this.extractEmailAddress(fromHeader);
-        const toEmails = this.extractEmailAddresses(toHeader);
-        
-        // Determine if message is from current user
-        const userEmail = await this.getCurrentUserEmail();
-        const isFromMe = fromEmail === userEmail;
-        
-        // Create or update thread
-        let thread = threadMap.get(gmailMessage.threadId);
-        if (!thread) {
-          thread = {
-            id: gmailMessage.threadId,
-            personIds: [], // Will be populated when we map emails to persons
-            lastMessageAt: new Date(gmailMessage.internalDate ? parseInt(gmailMessage.internalDate) : Date.now()),
-            platform: 'email',
-            unreadCount: 0,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          };
-          
-          threadMap.set(gmailMessage.threadId, thread);
-          threads.push(thread);
-        }
-
-        // Create message
-        const message: Message = {
-          id: gmailMessage.id,
-          threadId: gmailMessage.threadId,
-          senderId: fromEmail || 'unknown',
-          content: gmailMessage.snippet || '',
-          sentAt: new Date(gmailMessage.internalDate ? parseInt(gmailMessage.internalDate) : Date.now()),
-          isFromMe,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
-        
-        messages.push(message);
-
-        // Create interactions for each participant
-        const allParticipants = [fromEmail, ...toEmails].filter(email => email && email !== userEmail);
-        
-        for (const participantEmail of allParticipants) {
-          const interaction: Interaction = {
-            id: `${gmailMessage.id}_${participantEmail}`,
-            personId: participantEmail, // Will be mapped to actual person ID later
-            type: 'email',
-            date: new Date(gmailMessage.internalDate ? parseInt(gmailMessage.internalDate) : Date.now()),
-            notes: `Email: ${subjectHeader}`,
-            threadId: gmailMessage.threadId,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          };
-          
-          interactions.push(interaction);
-        }
-      } catch (error) {
-        console.error('[GmailSync] Error processing message:', gmailMessage.id, error);
-      }
-    }
-
-    return { threads, messages, interactions };
-  }
-
-  /**
-   * Extract single email address from header
-   */
-  private extractEmailAddress(header: string): string {
-    const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/;
-    const match = header.match(emailRegex);
-    return match ? match[0].toLowerCase() : '';
-  }
+    const userEmail = await this.getCurrentUserEmail();
+    const account = userEmail ? await emailAccountRegistry.registerGmailAccount(userEmail) : null;
+    const records: EmailHeaderRecord[] = gmailMessages.map(gmailMessage => {
+      const headers = gmailMessage.payload?.headers ?? [];
+      const header = (name: string) => headers.find(h => h.name.toLowerCase() === name)?.value || '';
+
+      return {
+        id: gmailMessage.id,
+        threadId: gmailMessage.threadId,
+        from: header('from'),
+        to: header('to'),
+        cc: header('cc'),
+        subject: header('subject'),
+        date: new Date(gmailMessage.internalDate ? parseInt(gmailMessage.internalDate) : Date.now()),
+        messageId: header('message-id') || undefined,
+        inReplyTo: header('in-reply-to') || undefined,
+        references: EmailMessageProcessor.parseMessageIdList(header('references')),
+        snippet: gmailMessage.snippet || '',
+      };
+    });
 
-  /**
-   * Extract multiple email addresses from header
-   */
-  private extractEmailAddresses(header: string): string[] {
-    const emailRegex = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
-    const matches = header.match(emailRegex);
-    return matches ? matches.map(email => email.toLowerCase()) : [];
+    return EmailMessageProcessor.process(records, userEmail, { sourceAccountId: account?.id });
   }
 
   /**
@@ -659,6 +610,14 @@ export class GmailSync {
     }
   }
 
+  /**
+   * Whether the Gmail account's sync toggle is on; a sign-in not yet registered counts as on
+   */
+  private async isSyncEnabled(): Promise<boolean> {
+    const gmailAccounts = await emailAccountRegistry.listAccounts('gmail');
+    return gmailAccounts.length === 0 || gmailAccounts.some(account => account.enabled);
+  }
+
   /**
    * Check if authenticated
    */
@@ -690,6 +649,11 @@ export class GmailSync {
         localStorage.removeItem('gmail_refresh_token');
         localStorage.removeItem('gmail_history_id');
       }
+
+      // The registered Gmail account is the identity these tokens belonged to
+      for (const account of await emailAccountRegistry.listAccounts('gmail')) {
+        await emailAccountRegistry.removeAccount(account.id);
+      }
       console.log('[GmailSync] Signed out successfully');
     } catch (error) {
       console.error('[GmailSync] Failed to sign out:', error);
@@ -1,6 +1,7 @@
 import { Platform } from 'react-native';
 import * as SecureStore from 'expo-secure-store';
 import { ENABLE_GOOGLE_OAUTH } from '../src/flags';
+import type { EmailSyncBatch } from './EmailMessageProcessor';
 
 /**
  * GoogleAPIService - Device-Only Architecture
@@ -159,6 +160,7 @@ export class GoogleAPIService {
 
       // Perform initial seed or delta sync
       const result = await gmailSync.seed(maxResults);
+      await this.persistGmailResult(result);
       
       console.log(`[GoogleAPI] Processed ${result.messages.length} messages locally`);
       return result.messages;
@@ -337,18 +339,30 @@ export class GoogleAPIService {
       }
 
       // Try delta sync first, fallback to seed if needed
+      let result;
       try {
-        return await gmailSync.delta();
+        result = await gmailSync.delta();
       } catch (error) {
         console.log('[GoogleAPI] Delta sync failed, performing full seed');
-        return await gmailSync.seed(maxResults);
+        result = await gmailSync.seed(maxResults);
       }
+
+      await this.persistGmailResult(result);
+      return result;
     } catch (error) {
       console.error('[GoogleAPI] Gmail sync failed:', error);
       throw error;
     }
   }
 
+  /**
+   * Store synced Gmail metadata in the local database
+   */
+  private async persistGmailResult(result: EmailSyncBatch): Promise<void> {
+    const { EmailSyncPersistence } = await import('./EmailSyncPersistence');
+    await EmailSyncPersistence.getInstance().persist(result);
+  }
+
   /**
    * Get Privacy Status - Transparency Information
    */
@@ -1,8 +1,12 @@
 import { Platform } from 'react-native';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import * as SecureStore from 'expo-secure-store';
 
 import TcpSocketTransport from './TcpSocketTransport';
+import { EmailHeaderRecord, EmailMessageProcessor } from './EmailMessageProcessor';
+import { emailAccountRegistry, ImapAccountCredentials, IMAP_SYNC_STATE_KEY_PREFIX } from './EmailAccountRegistry';
+import { Thread } from '@/models/Thread';
+import { Message } from '@/models/Message';
+import { Interaction } from '@/models/Interaction';
 
 import type { TcpSocket, TcpSocketConnectOpts } from 'react-native-tcp-socket';
 
@@ -10,6 +14,17 @@ type TcpSocketModule = typeof import('react-native-tcp-socket');
 
 const SOCKET_LIBRARY_NAME = 'react-native-tcp-socket';
 const SOCKET_NATIVE_ONLY_MESSAGE = `IMAP sync requires a native build that includes the ${SOCKET_LIBRARY_NAME} module.`;
+const HEADER_FIELDS = ['FROM', 'TO', 'CC', 'SUBJECT', 'DATE', 'MESSAGE-ID', 'IN-REPLY-TO', 'REFERENCES'];
+const FETCH_BATCH_SIZE = 50;
+const SPECIAL_USE_FLAGS = ['\\Sent', '\\Archive', '\\All'] as const;
+const DEFAULT_SYNC_MAILBOXES = ['INBOX', '\\Sent'];
+
+// Name-based fallbacks for servers that advertise neither SPECIAL-USE nor XLIST
+const SPECIAL_USE_NAME_HINTS: Record<ImapSpecialUse, RegExp> = {
+  '\\Sent': /^(\[gmail\]\/)?sent( (items|messages|mail))?$/i,
+  '\\Archive': /^archive$/i,
+  '\\All': /^\[gmail\]\/all mail$/i,
+};
 
 let cachedTransport: TcpSocketModule | null = null;
 let transportInitializationError: Error | null = null;
@@ -34,14 +49,44 @@ try {
   }
 }
 
-interface ImapAccountConfig {
+export type ImapSpecialUse = typeof SPECIAL_USE_FLAGS[number];
+
+interface ImapAccountConfig extends ImapAccountCredentials {
+  // Mailbox names or special-use flags (e.g. "\\Sent"); defaults to INBOX + Sent
+  mailboxes?: string[];
+  // Registry ID; absent for unsaved configs being tested
+  accountId?: string;
+}
+
+export interface ImapMailboxInfo {
+  name: string;
+  delimiter: string | null;
+  flags: string[];
+  specialUse?: ImapSpecialUse;
+}
+
+export interface ImapAccountSyncSummary {
+  accountId: string;
   email: string;
-  appPassword: string;
-  host: string;
-  port: number;
-  tls: boolean;
-  provider?: string;
-  createdAt?: string;
+  success: boolean;
+  messageCount: number;
+  error?: string;
+}
+
+export interface ImapMultiAccountSyncResult extends ImapSyncResult {
+  accounts: ImapAccountSyncSummary[];
+}
+
+export interface ImapMailboxSyncSummary {
+  mailbox: string;
+  messageUids: string[];
+  fullResync: boolean;
+  cursor?: ImapSyncCursor; // Saved by commitSyncState once the results are stored
+}
+
+export interface ImapSyncCursor {
+  stateId: string;
+  state: ImapMailboxSyncState;
 }
 
 export interface ImapSupportStatus {
@@ -58,17 +103,53 @@ export interface ImapTestResult {
 
 export interface ImapSyncResult {
   success: boolean;
+  accountId?: string;
   mailbox?: string;
   messageUids?: string[];
+  fullResync?: boolean;
+  mailboxes?: ImapMailboxSyncSummary[];
+  threads?: Thread[];
+  messages?: Message[];
+  interactions?: Interaction[];
   greeting?: string;
   capabilities?: string[];
   error?: string;
 }
 
+interface ImapResponseLine {
+  text: string;
+  literals: string[];
+}
+
+export interface ImapMailboxStatus {
+  exists: number;
+  uidValidity?: number;
+  uidNext?: number;
+  highestModSeq?: number;
+}
+
+/**
+ * Per-mailbox incremental sync cursor, persisted on device
+ */
+export interface ImapMailboxSyncState {
+  uidValidity: number;
+  lastSeenUid: number;
+  uidNext?: number;
+  highestModSeq?: number;
+  lastSyncedAt: string;
+}
+
+export interface ImapFetchedHeaders {
+  uid: string;
+  internalDate?: Date;
+  headers: Record<string, string>;
+}
+
 interface PendingCommand {
   resolve: (result: ImapCommandResult) => void;
   reject: (error: Error) => void;
   lines: string[];
+  responses: ImapResponseLine[];
   command: string;
   timer: ReturnType<typeof setTimeout>;
 }
@@ -77,6 +158,7 @@ interface ImapCommandResult {
   tag: string;
   status: 'OK' | 'NO' | 'BAD';
   lines: string[];
+  responses: ImapResponseLine[];
   text: string;
 }
 
@@ -163,6 +245,9 @@ class ImapConnection {
   private readonly pendingQueue: string[] = [];
   private tagCounter = 0;
   private buffer = '';
+  private partialLine: ImapResponseLine | null = null;
+  private literalBytesRemaining: number | null = null;
+  private literalBuffer = '';
   private ready = false;
   private greetingLine: string | null = null;
   private readyResolver?: () => void;
@@ -246,17 +331,80 @@ class ImapConnection {
     if (!chunk) return;
 
     this.buffer += chunk;
-    let newlineIndex = this.buffer.indexOf('\r\n');
 
-    while (newlineIndex >= 0) {
+    while (this.buffer.length > 0) {
+      if (this.literalBytesRemaining !== null) {
+        if (!this.consumeLiteral()) {
+          break;
+        }
+        continue;
+      }
+
+      const newlineIndex = this.buffer.indexOf('\r\n');
+      if (newlineIndex < 0) {
+        break;
+      }
+
       const line = this.buffer.slice(0, newlineIndex);
       this.buffer = this.buffer.slice(newlineIndex + 2);
-      this.dispatchLine(line);
-      newlineIndex = this.buffer.indexOf('\r\n');
+      this.handleLine(line);
     }
   };
 
-  private dispatchLine(line: string) {
+  /**
+   * Assemble logical response lines. A line ending in `{N}` announces an
+   * N-octet literal (e.g. FETCH header blocks); the literal is collected
+   * separately and the response continues on the line after it.
+   */
+  private handleLine(line: string) {
+    const literalMatch = this.ready ? line.match(/\{(\d+)\}$/) : null;
+    const current = this.partialLine ?? { text: '', literals: [] };
+    current.text += line;
+
+    if (literalMatch) {
+      this.partialLine = current;
+      this.literalBytesRemaining = parseInt(literalMatch[1], 10);
+      this.literalBuffer = '';
+      if (this.literalBytesRemaining === 0) {
+        this.consumeLiteral();
+      }
+      return;
+    }
+
+    this.partialLine = null;
+    this.dispatchLine(current.text, current.literals);
+  }
+
+  private consumeLiteral(): boolean {
+    let remaining = this.literalBytesRemaining ?? 0;
+    let index = 0;
+
+    while (remaining > 0 && index < this.buffer.length) {
+      const code = this.buffer.charCodeAt(index);
+      if (code >= 0xd800 && code <= 0xdbff && index + 1 < this.buffer.length) {
+        remaining -= 4;
+        index += 2;
+      } else {
+        remaining -= code < 0x80 ? 1 : code < 0x800 ? 2 : 3;
+        index += 1;
+      }
+    }
+
+    this.literalBuffer += this.buffer.slice(0, index);
+    this.buffer = this.buffer.slice(index);
+
+    if (remaining > 0) {
+      this.literalBytesRemaining = remaining;
+      return false;
+    }
+
+    this.partialLine?.literals.push(this.literalBuffer);
+    this.literalBuffer = '';
+    this.literalBytesRemaining = null;
+    return true;
+  }
+
+  private dispatchLine(line: string, literals: string[] = []) {
     if (!line) {
       return;
     }
@@ -303,6 +451,7 @@ class ImapConnection {
           tag: currentTag,
           status,
           lines: pending.lines.slice(),
+          responses: pending.responses.slice(),
           text: line,
         });
       } else {
@@ -310,6 +459,7 @@ class ImapConnection {
       }
     } else {
       pending.lines.push(line);
+      pending.responses.push({ text: line, literals });
     }
   }
 
@@ -370,6 +520,7 @@ class ImapConnection {
         resolve,
         reject,
         lines: [],
+        responses: [],
         command,
         timer,
       });
@@ -416,9 +567,77 @@ class ImapConnection {
     return capabilities;
   }
 
-  async selectMailbox(mailbox: string): Promise<void> {
+  /**
+   * List mailboxes with their attributes, preferring SPECIAL-USE, then XLIST
+   */
+  async listMailboxes(capabilities: string[] = []): Promise<ImapMailboxInfo[]> {
+    const upperCapabilities = capabilities.map(capability => capability.toUpperCase());
+    const useXlist = !upperCapabilities.includes('SPECIAL-USE') && upperCapabilities.includes('XLIST');
+    const command = upperCapabilities.includes('SPECIAL-USE')
+      ? 'LIST "" "*" RETURN (SPECIAL-USE)'
+      : useXlist
+        ? 'XLIST "" "*"'
+        : 'LIST "" "*"';
+
+    const response = await this.sendCommand(command);
+    const mailboxes: ImapMailboxInfo[] = [];
+
+    for (const entry of response.responses) {
+      const match = entry.text.match(/^\* X?LIST \(([^)]*)\) (NIL|"(?:[^"\\]|\\.)*") (.+)$/i);
+      if (!match) {
+        continue;
+      }
+
+      const flags = match[1].split(' ').filter(Boolean);
+      if (flags.some(flag => flag.toLowerCase() === '\\noselect' || flag.toLowerCase() === '\\nonexistent')) {
+        continue;
+      }
+
+      const delimiter = match[2].toUpperCase() === 'NIL' ? null : this.unquote(match[2]);
+      const rawName = match[3].trim();
+      const name = /^\{\d+\}$/.test(rawName) ? (entry.literals[0] ?? '') : this.unquote(rawName);
+
+      mailboxes.push({
+        name,
+        delimiter,
+        flags,
+        specialUse: this.resolveSpecialUse(name, flags),
+      });
+    }
+
+    return mailboxes;
+  }
+
+  async selectMailbox(mailbox: string, options: { condstore?: boolean } = {}): Promise<ImapMailboxStatus> {
     const escaped = this.escapeQuoted(mailbox);
-    await this.sendCommand(`SELECT "${escaped}"`);
+    const response = await this.sendCommand(`SELECT "${escaped}"${options.condstore ? ' (CONDSTORE)' : ''}`);
+    const status: ImapMailboxStatus = { exists: 0 };
+
+    for (const line of [...response.lines, response.text]) {
+      const existsMatch = line.match(/^\* (\d+) EXISTS/i);
+      if (existsMatch) {
+        status.exists = parseInt(existsMatch[1], 10);
+        continue;
+      }
+
+      const codeMatch = line.match(/\[(UIDVALIDITY|UIDNEXT|HIGHESTMODSEQ) (\d+)\]/i);
+      if (codeMatch) {
+        const value = parseInt(codeMatch[2], 10);
+        switch (codeMatch[1].toUpperCase()) {
+          case 'UIDVALIDITY':
+            status.uidValidity = value;
+            break;
+          case 'UIDNEXT':
+            status.uidNext = value;
+            break;
+          case 'HIGHESTMODSEQ':
+            status.highestModSeq = value;
+            break;
+        }
+      }
+    }
+
+    return status;
   }
 
   async uidSearch(criteria: string): Promise<string[]> {
@@ -441,6 +660,43 @@ class ImapConnection {
     return uids;
   }
 
+  /**
+   * Fetch envelope header fields for the given UIDs without marking them read
+   */
+  async uidFetchHeaders(uids: string[]): Promise<ImapFetchedHeaders[]> {
+    const results: ImapFetchedHeaders[] = [];
+
+    for (let i = 0; i < uids.length; i += FETCH_BATCH_SIZE) {
+      const batch = uids.slice(i, i + FETCH_BATCH_SIZE);
+      const response = await this.sendCommand(
+        `UID FETCH ${batch.join(',')} (UID INTERNALDATE BODY.PEEK[HEADER.FIELDS (${HEADER_FIELDS.join(' ')})])`,
+        { timeoutMs: 30000 }
+      );
+
+      for (const entry of response.responses) {
+        if (!/^\* \d+ FETCH /i.test(entry.text)) {
+          continue;
+        }
+
+        const uidMatch = entry.text.match(/\bUID (\d+)/i);
+        if (!uidMatch) {
+          continue;
+        }
+
+        const dateMatch = entry.text.match(/INTERNALDATE "([^"]+)"/i);
+        const internalDate = dateMatch ? this.parseInternalDate(dateMatch[1]) : undefined;
+
+        results.push({
+          uid: uidMatch[1],
+          internalDate,
+          headers: this.parseHeaderBlock(entry.literals[0] ?? ''),
+        });
+      }
+    }
+
+    return results;
+  }
+
   async noop(): Promise<void> {
     await this.sendCommand('NOOP');
   }
@@ -477,11 +733,84 @@ class ImapConnection {
   private escapeQuoted(value: string): string {
     return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
   }
+
+  private unquote(value: string): string {
+    const trimmed = value.trim();
+    if (trimmed.startsWith('"') && trimmed.endsWith('"')) {
+      return trimmed.slice(1, -1).replace(/\\(["\\])/g, '$1');
+    }
+    return trimmed;
+  }
+
+  private resolveSpecialUse(name: string, flags: string[]): ImapSpecialUse | undefined {
+    const lowerFlags = flags.map(flag => flag.toLowerCase());
+
+    // XLIST reports Gmail's All Mail as \AllMail
+    if (lowerFlags.includes('\\allmail')) {
+      return '\\All';
+    }
+
+    const flagged = SPECIAL_USE_FLAGS.find(flag => lowerFlags.includes(flag.toLowerCase()));
+    if (flagged) {
+      return flagged;
+    }
+
+    return SPECIAL_USE_FLAGS.find(flag => SPECIAL_USE_NAME_HINTS[flag].test(name));
+  }
+
+  private parseHeaderBlock(block: string): Record<string, string> {
+    const headers: Record<string, string> = {};
+    // Unfold continuation lines before splitting into fields
+    const unfolded = block.replace(/\r?\n[ \t]+/g, ' ');
+
+    for (const line of unfolded.split(/\r?\n/)) {
+      const separator = line.indexOf(':');
+      if (separator <= 0) continue;
+
+      const name = line.slice(0, separator).trim().toLowerCase();
+      const value = decodeMimeWords(line.slice(separator + 1).trim());
+      headers[name] = headers[name] ? `${headers[name]}, ${value}` : value;
+    }
+
+    return headers;
+  }
+
+  private parseInternalDate(value: string): Date | undefined {
+    // INTERNALDATE format: 17-Jul-1996 02:44:25 -0700
+    const parsed = new Date(value.replace(/^(\d{1,2})-(\w{3})-(\d{4})/, '$1 $2 $3'));
+    return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+}
+
+/**
+ * Decode RFC 2047 encoded-words (=?charset?B|Q?text?=) found in header values
+ */
+function decodeMimeWords(value: string): string {
+  return value
+    .replace(/(=\?[^?]+\?[BbQq]\?[^?]*\?=)\s+(?==\?)/g, '$1')
+    .replace(/=\?([^?]+)\?([BbQq])\?([^?]*)\?=/g, (match, charset: string, encoding: string, text: string) => {
+      try {
+        let bytes: number[];
+        if (encoding.toUpperCase() === 'B') {
+          const binary = typeof atob === 'function' ? atob(text) : '';
+          bytes = Array.from(binary, char => char.charCodeAt(0));
+        } else {
+          const decoded = text.replace(/_/g, ' ').replace(/=([0-9A-Fa-f]{2})/g, (_m, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+          bytes = Array.from(decoded, char => char.charCodeAt(0));
+        }
+
+        if (/^utf-?8$/i.test(charset)) {
+          return decodeURIComponent(bytes.map(byte => `%${byte.toString(16).padStart(2, '0')}`).join(''));
+        }
+        return String.fromCharCode(...bytes);
+      } catch {
+        return match;
+      }
+    });
 }
 
 export class ImapService {
   private static instance: ImapService | null = null;
-  private readonly configKey = 'email_config';
 
   static getInstance(): ImapService {
     if (!ImapService.instance) {
@@ -546,8 +875,11 @@ export class ImapService {
     }
   }
 
-  async syncMailbox(options: { mailbox?: string; limit?: number } = {}): Promise<ImapSyncResult> {
-    const account = await this.loadStoredConfig();
+  /**
+   * Sync the account's configured mailboxes (or a single mailbox) in one session
+   */
+  async syncMailbox(options: { accountId?: string; mailbox?: string; limit?: number } = {}): Promise<ImapSyncResult> {
+    const account = await this.loadStoredConfig(options.accountId);
     if (!account) {
       return { success: false, error: 'IMAP account configuration was not found' };
     }
@@ -563,27 +895,48 @@ export class ImapService {
       connection = await this.openConnection(account);
 
       await connection.login(account.email, account.appPassword);
-      const mailbox = options.mailbox ?? 'INBOX';
-      await connection.selectMailbox(mailbox);
+      const capabilities = await connection.capability().catch(() => [] as string[]);
+      const condstore = capabilities.some(capability => /^(CONDSTORE|QRESYNC)$/i.test(capability));
 
-      let uids = await connection.uidSearch('RECENT');
+      const mailboxes = options.mailbox
+        ? [options.mailbox]
+        : await this.resolveSyncMailboxes(connection, account, capabilities);
 
-      if (uids.length === 0) {
-        uids = await connection.uidSearch('ALL');
-      }
+      const summaries: ImapMailboxSyncSummary[] = [];
+      const recordsById = new Map<string, EmailHeaderRecord>();
 
-      const limit = options.limit ?? 50;
-      if (limit > 0 && uids.length > limit) {
-        uids = uids.slice(-limit);
+      for (const mailbox of mailboxes) {
+        const { uids, fullResync, records, cursor } = await this.syncSelectedMailbox(connection, account, mailbox, {
+          condstore,
+          limit: options.limit,
+        });
+
+        summaries.push({ mailbox, messageUids: uids, fullResync, cursor });
+        // The same message can live in several mailboxes (e.g. Gmail's All Mail)
+        for (const record of records) {
+          recordsById.set(record.id, record);
+        }
       }
 
-      const capabilities = await connection.capability().catch(() => []);
+      // Process all mailboxes together so replies in Sent join their inbox threads
+      const { threads, messages, interactions } = EmailMessageProcessor.process(
+        Array.from(recordsById.values()),
+        account.email,
+        { sourceAccountId: account.accountId }
+      );
+
       await connection.logout();
 
       return {
         success: true,
-        mailbox,
-        messageUids: uids,
+        accountId: account.accountId,
+        mailbox: mailboxes.join(', '),
+        messageUids: summaries.flatMap(summary => summary.messageUids),
+        fullResync: summaries.some(summary => summary.fullResync),
+        mailboxes: summaries,
+        threads,
+        messages,
+        interactions,
         greeting: connection.getGreeting() ?? undefined,
         capabilities,
       };
@@ -597,6 +950,84 @@ export class ImapService {
     }
   }
 
+  /**
+   * List the account's mailboxes so the user can pick which ones to sync
+   */
+  async listMailboxes(config?: Partial<ImapAccountConfig>): Promise<ImapMailboxInfo[]> {
+    const account = config ? this.normalizeConfig(config) : await this.loadStoredConfig();
+    if (!account) {
+      throw new Error('IMAP account has not been configured yet');
+    }
+
+    const support = await this.isSyncSupported();
+    if (!support.supported) {
+      throw new Error(support.reason ?? 'IMAP sync is not supported in this environment');
+    }
+
+    let connection: ImapConnection | null = null;
+
+    try {
+      connection = await this.openConnection(account);
+      await connection.login(account.email, account.appPassword);
+      const capabilities = await connection.capability().catch(() => [] as string[]);
+      const mailboxes = await connection.listMailboxes(capabilities);
+      await connection.logout();
+      return mailboxes;
+    } finally {
+      connection?.close();
+    }
+  }
+
+  /**
+   * Sync every enabled IMAP account, recording per-account results in the registry
+   */
+  async syncAllAccounts(options: { limit?: number } = {}): Promise<ImapMultiAccountSyncResult> {
+    const accounts = (await emailAccountRegistry.listAccounts('imap')).filter(account => account.enabled);
+    if (accounts.length === 0) {
+      return { success: false, error: 'No enabled IMAP accounts were found', accounts: [] };
+    }
+
+    const summaries: ImapAccountSyncSummary[] = [];
+    const combined: Required<Pick<ImapSyncResult, 'messageUids' | 'mailboxes' | 'threads' | 'messages' | 'interactions'>> = {
+      messageUids: [],
+      mailboxes: [],
+      threads: [],
+      messages: [],
+      interactions: [],
+    };
+
+    for (const account of accounts) {
+      const result = await this.syncMailbox({ accountId: account.id, limit: options.limit });
+      await emailAccountRegistry.recordSyncResult(account.id, result);
+
+      summaries.push({
+        accountId: account.id,
+        email: account.email,
+        success: result.success,
+        messageCount: result.messages?.length ?? 0,
+        error: result.error,
+      });
+
+      combined.messageUids.push(...(result.messageUids ?? []));
+      combined.mailboxes.push(...(result.mailboxes ?? []));
+      combined.threads.push(...(result.threads ?? []));
+      combined.messages.push(...(result.messages ?? []));
+      combined.interactions.push(...(result.interactions ?? []));
+    }
+
+    const failures = summaries.filter(summary => !summary.success);
+
+    return {
+      success: failures.length < summaries.length,
+      mailbox: summaries.map(summary => summary.email).join(', '),
+      ...combined,
+      accounts: summaries,
+      error: failures.length > 0
+        ? failures.map(summary => `${summary.email}: ${summary.error ?? 'Unknown error'}`).join('\n')
+        : undefined,
+    };
+  }
+
   async handleManualImapSync(options: { mailbox?: string; limit?: number } = {}): Promise<ImapSyncResult> {
     try {
       const support = await this.isSyncSupported();
@@ -616,6 +1047,169 @@ export class ImapService {
     }
   }
 
+  private async resolveSyncMailboxes(
+    connection: ImapConnection,
+    account: ImapAccountConfig,
+    capabilities: string[]
+  ): Promise<string[]> {
+    const requested = account.mailboxes && account.mailboxes.length > 0 ? account.mailboxes : DEFAULT_SYNC_MAILBOXES;
+    const needsDiscovery = requested.some(entry => entry.startsWith('\\'));
+    const available = needsDiscovery ? await connection.listMailboxes(capabilities).catch(() => [] as ImapMailboxInfo[]) : [];
+    const resolved: string[] = [];
+
+    for (const entry of requested) {
+      if (!entry.startsWith('\\')) {
+        resolved.push(entry);
+        continue;
+      }
+
+      const match = available.find(mailbox => mailbox.specialUse?.toLowerCase() === entry.toLowerCase());
+      if (match) {
+        resolved.push(match.name);
+      } else {
+        console.log(`[ImapService] No mailbox found for ${entry}, skipping`);
+      }
+    }
+
+    return Array.from(new Set(resolved));
+  }
+
+  private async syncSelectedMailbox(
+    connection: ImapConnection,
+    account: ImapAccountConfig,
+    mailbox: string,
+    options: { condstore: boolean; limit?: number }
+  ): Promise<{ uids: string[]; fullResync: boolean; records: EmailHeaderRecord[]; cursor?: ImapSyncCursor }> {
+    const { condstore } = options;
+    const status = await connection.selectMailbox(mailbox, { condstore });
+    const stateId = account.accountId ?? account.email.toLowerCase();
+    const previousState = await this.loadSyncState(stateId, mailbox);
+
+    // A changed UIDVALIDITY invalidates every UID we have seen, so start over
+    const fullResync = !previousState || status.uidValidity === undefined || previousState.uidValidity !== status.uidValidity;
+    let uids: string[] = [];
+
+    if (fullResync) {
+      uids = await connection.uidSearch('ALL');
+
+      const limit = options.limit ?? 50;
+      if (limit > 0 && uids.length > limit) {
+        uids = uids.slice(-limit);
+      }
+    } else if (this.hasMailboxChanged(previousState, status, condstore)) {
+      // UID n:* always returns the highest UID, even when it is below n
+      uids = (await connection.uidSearch(`UID ${previousState.lastSeenUid + 1}:*`))
+        .filter(uid => parseInt(uid, 10) > previousState.lastSeenUid);
+    }
+
+    const fetched = uids.length > 0 ? await connection.uidFetchHeaders(uids) : [];
+    const records = fetched.map(item => this.toHeaderRecord(item, mailbox));
+
+    // Not saved here: the cursor only moves once the caller has stored these records
+    let cursor: ImapSyncCursor | undefined;
+    if (status.uidValidity !== undefined) {
+      const highestUid = uids.reduce((max, uid) => Math.max(max, parseInt(uid, 10) || 0), 0);
+      cursor = {
+        stateId,
+        state: {
+          uidValidity: status.uidValidity,
+          lastSeenUid: Math.max(fullResync ? 0 : previousState.lastSeenUid, highestUid),
+          uidNext: status.uidNext,
+          highestModSeq: condstore ? status.highestModSeq : undefined,
+          lastSyncedAt: new Date().toISOString(),
+        },
+      };
+    }
+
+    return { uids, fullResync, records, cursor };
+  }
+
+  /**
+   * Advance the mailbox cursors of a sync result. Call after its threads,
+   * messages and interactions are persisted, so a failure re-fetches them.
+   */
+  async commitSyncState(result: ImapSyncResult): Promise<void> {
+    for (const summary of result.mailboxes ?? []) {
+      if (summary.cursor) {
+        await this.saveSyncState(summary.cursor.stateId, summary.mailbox, summary.cursor.state);
+      }
+    }
+  }
+
+  /**
+   * Clear stored sync cursors so the next run performs a full resync
+   */
+  async resetSyncState(accountId: string, mailbox?: string): Promise<void> {
+    try {
+      if (mailbox) {
+        await AsyncStorage.removeItem(this.syncStateKey(accountId, mailbox));
+        return;
+      }
+
+      const prefix = this.syncStateKey(accountId, '');
+      const keys = await AsyncStorage.getAllKeys();
+      await AsyncStorage.multiRemove(keys.filter(key => key.startsWith(prefix)));
+    } catch (error) {
+      console.warn('[ImapService] Failed to reset IMAP sync state:', error);
+    }
+  }
+
+  private hasMailboxChanged(state: ImapMailboxSyncState, status: ImapMailboxStatus, condstore: boolean): boolean {
+    if (condstore && state.highestModSeq !== undefined && status.highestModSeq !== undefined) {
+      return status.highestModSeq !== state.highestModSeq;
+    }
+
+    if (status.uidNext !== undefined) {
+      return status.uidNext > state.lastSeenUid + 1;
+    }
+
+    return true;
+  }
+
+  private syncStateKey(accountId: string, mailbox: string): string {
+    return `${IMAP_SYNC_STATE_KEY_PREFIX}${accountId}:${mailbox}`;
+  }
+
+  private async loadSyncState(accountId: string, mailbox: string): Promise<ImapMailboxSyncState | null> {
+    try {
+      const raw = await AsyncStorage.getItem(this.syncStateKey(accountId, mailbox));
+      return raw ? (JSON.parse(raw) as ImapMailboxSyncState) : null;
+    } catch (error) {
+      console.warn('[ImapService] Failed to read IMAP sync state:', error);
+      return null;
+    }
+  }
+
+  private async saveSyncState(accountId: string, mailbox: string, state: ImapMailboxSyncState): Promise<void> {
+    try {
+      await AsyncStorage.setItem(this.syncStateKey(accountId, mailbox), JSON.stringify(state));
+    } catch (error) {
+      console.warn('[ImapService] Failed to store IMAP sync state:', error);
+    }
+  }
+
+  private toHeaderRecord(item: ImapFetchedHeaders, mailbox: string): EmailHeaderRecord {
+    const { headers } = item;
+    const headerDate = headers.date ? new Date(headers.date) : null;
+    const date = headerDate && !Number.isNaN(headerDate.getTime())
+      ? headerDate
+      : item.internalDate ?? new Date();
+    const messageId = EmailMessageProcessor.normalizeMessageId(headers['message-id']);
+
+    return {
+      // Message-ID is stable across mailboxes; fall back to the mailbox-scoped UID
+      id: messageId ?? `imap:${mailbox}:${item.uid}`,
+      from: headers.from || '',
+      to: headers.to || '',
+      cc: headers.cc || '',
+      subject: headers.subject || '',
+      date,
+      messageId,
+      inReplyTo: headers['in-reply-to'],
+      references: EmailMessageProcessor.parseMessageIdList(headers.references),
+    };
+  }
+
   private async openConnection(account: ImapAccountConfig, options: OpenConnectionOptions = {}): Promise<ImapConnection> {
     const module = this.loadTransport();
     return await ImapConnection.connect(module, account, options);
@@ -633,18 +1227,22 @@ export class ImapService {
     throw new Error(SOCKET_NATIVE_ONLY_MESSAGE);
   }
 
-  private async loadStoredConfig(): Promise<ImapAccountConfig | null> {
+  /**
+   * Load credentials for an account, or the first enabled IMAP account when no ID is given
+   */
+  private async loadStoredConfig(accountId?: string): Promise<ImapAccountConfig | null> {
     try {
-      const raw = Platform.OS === 'web'
-        ? await AsyncStorage.getItem(this.configKey)
-        : await SecureStore.getItemAsync(this.configKey);
+      const account = accountId
+        ? await emailAccountRegistry.getAccount(accountId)
+        : (await emailAccountRegistry.listAccounts('imap')).find(candidate => candidate.enabled) ?? null;
 
-      if (!raw) {
+      if (!account || account.type !== 'imap') {
         return null;
       }
 
-      const parsed = JSON.parse(raw) as Partial<ImapAccountConfig>;
-      return this.normalizeConfig(parsed);
+      const credentials = await emailAccountRegistry.getImapCredentials(account.id);
+      const config = this.normalizeConfig(credentials);
+      return config ? { ...config, accountId: account.id } : null;
     } catch (error) {
       console.warn('[ImapService] Failed to read stored IMAP configuration:', error);
       return null;
@@ -670,6 +1268,7 @@ export class ImapService {
       tls: Boolean(config.tls),
       provider: config.provider,
       createdAt: config.createdAt,
+      mailboxes: Array.isArray(config.mailboxes) ? config.mailboxes.filter(Boolean) : undefined,
     };
   }
 
@@ -0,0 +1,305 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PlaceDAO, PlaceMergeResult } from '@/database/PlaceDAO';
+import { Place, hasCoordinates } from '@/models/Place';
+import { haversineDistanceMeters, levenshteinDistance } from '@/lib/utils';
+
+export interface PlaceCluster {
+  canonical: Place; // Suggested place to keep
+  duplicates: Place[]; // Suggested places to fold into the canonical one
+  score: number; // 0-100 confidence, from the strongest pair in the cluster
+  reasons: string[];
+}
+
+const DISMISSED_PAIRS_KEY = 'place_cluster_dismissed_pairs';
+const DEFAULT_MIN_SCORE = 50;
+
+// Two pinned places further apart than this are different venues, e.g. branches of a chain
+const MAX_MERGE_DISTANCE_METERS = 500;
+
+const SCORE_WEIGHTS = {
+  sameName: 50,
+  similarName: 30,
+  sameAddress: 30,
+  differentAddress: -30,
+  veryClose: 40, // Within 100m
+  nearby: 20, // Within 300m
+};
+
+// Words that say what kind of venue it is rather than which one
+const GENERIC_PLACE_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'of', 'at', 'cafe', 'coffee', 'restaurant', 'bar', 'shop', 'co', 'inc', 'ltd',
+]);
+
+const STREET_ABBREVIATIONS: Record<string, string> = {
+  street: 'st',
+  avenue: 'ave',
+  road: 'rd',
+  boulevard: 'blvd',
+  drive: 'dr',
+  lane: 'ln',
+  place: 'pl',
+  square: 'sq',
+};
+
+/**
+ * PlaceClusterService - Local Place Deduplication
+ *
+ * Privacy Implementation:
+ * - Compares names, addresses and coordinates entirely on device
+ * - Merges only after the user confirms each cluster
+ */
+export class PlaceClusterService {
+  private static instance: PlaceClusterService;
+  private placeDAO = new PlaceDAO();
+
+  static getInstance(): PlaceClusterService {
+    if (!PlaceClusterService.instance) {
+      PlaceClusterService.instance = new PlaceClusterService();
+    }
+    return PlaceClusterService.instance;
+  }
+
+  /**
+   * Group places that look like the same venue by name, address and distance
+   */
+  async findClusters(minScore: number = DEFAULT_MIN_SCORE): Promise<PlaceCluster[]> {
+    const places = await this.placeDAO.getAllPlaces();
+    if (places.length < 2) return [];
+
+    const dismissed = await this.getDismissedPairs();
+    const usage = await this.placeDAO.getUsageCounts();
+
+    // Union-find over every matching pair, so A~B and B~C end up in one cluster
+    const parent = new Map<string, string>(places.map(place => [place.id, place.id]));
+    const find = (id: string): string => {
+      let root = id;
+      while (parent.get(root) !== root) root = parent.get(root)!;
+      parent.set(id, root);
+      return root;
+    };
+
+    // Pinned members per root, so a chain through an unpinned place can't join far-apart venues
+    const pinned = new Map<string, Place[]>(
+      places.map(place => [place.id, hasCoordinates(place) ? [place] : []])
+    );
+
+    const pairScores = new Map<string, { score: number; reasons: string[] }>();
+    for (let i = 0; i < places.length; i++) {
+      for (let j = i + 1; j < places.length; j++) {
+        const key = this.pairKey(places[i].id, places[j].id);
+        if (dismissed.has(key)) continue;
+
+        const match = this.comparePlaces(places[i], places[j]);
+        if (match.score < minScore) continue;
+
+        pairScores.set(key, match);
+        const rootA = find(places[i].id);
+        const rootB = find(places[j].id);
+        if (rootA === rootB) continue;
+
+        const pinnedA = pinned.get(rootA)!;
+        const pinnedB = pinned.get(rootB)!;
+        if (!this.withinMergeDistance(pinnedA, pinnedB)) continue;
+
+        parent.set(rootA, rootB);
+        pinned.set(rootB, [...pinnedB, ...pinnedA]);
+        pinned.delete(rootA);
+      }
+    }
+
+    const groups = new Map<string, Place[]>();
+    for (const place of places) {
+      const root = find(place.id);
+      groups.set(root, [...(groups.get(root) ?? []), place]);
+    }
+
+    const clusters: PlaceCluster[] = [];
+    for (const members of groups.values()) {
+      if (members.length < 2) continue;
+
+      let score = 0;
+      const reasons = new Set<string>();
+      const memberIds = new Set(members.map(member => member.id));
+      for (const [key, match] of pairScores) {
+        const [a, b] = key.split('|');
+        if (!memberIds.has(a) || !memberIds.has(b)) continue;
+        score = Math.max(score, match.score);
+        match.reasons.forEach(reason => reasons.add(reason));
+      }
+
+      const [canonical, ...duplicates] = [...members].sort((a, b) => this.compareCanonical(a, b, usage));
+      clusters.push({ canonical, duplicates, score, reasons: Array.from(reasons) });
+    }
+
+    return clusters.sort((a, b) => b.score - a.score);
+  }
+
+  /**
+   * Fold the duplicates into the canonical place and forget their dismissals
+   */
+  async merge(canonicalId: string, duplicateIds: string[]): Promise<PlaceMergeResult> {
+    const ids = duplicateIds.filter(id => id !== canonicalId);
+    if (ids.length === 0) {
+      throw new Error('Choose at least one other place to merge');
+    }
+
+    const result = await this.placeDAO.mergePlaces(canonicalId, ids);
+    await this.forgetDismissedPairsFor(ids);
+    console.log(`[PlaceClusterService] Merged ${ids.length} place(s) into ${canonicalId}`, result);
+    return result;
+  }
+
+  /**
+   * Hide every pair in a cluster from future suggestions
+   */
+  async dismiss(placeIds: string[]): Promise<void> {
+    const dismissed = await this.getDismissedPairs();
+    for (let i = 0; i < placeIds.length; i++) {
+      for (let j = i + 1; j < placeIds.length; j++) {
+        dismissed.add(this.pairKey(placeIds[i], placeIds[j]));
+      }
+    }
+    await AsyncStorage.setItem(DISMISSED_PAIRS_KEY, JSON.stringify(Array.from(dismissed)));
+  }
+
+  private withinMergeDistance(a: Place[], b: Place[]): boolean {
+    return a.every(first => b.every(second =>
+      haversineDistanceMeters(first.latitude, first.longitude, second.latitude, second.longitude)
+        <= MAX_MERGE_DISTANCE_METERS
+    ));
+  }
+
+  private comparePlaces(a: Place, b: Place): { score: number; reasons: string[] } {
+    const reasons: string[] = [];
+    let score = 0;
+
+    if (hasCoordinates(a) && hasCoordinates(b)) {
+      const distance = haversineDistanceMeters(a.latitude, a.longitude, b.latitude, b.longitude);
+      if (distance > MAX_MERGE_DISTANCE_METERS) {
+        return { score: 0, reasons };
+      }
+      if (distance <= 100) {
+        score += SCORE_WEIGHTS.veryClose;
+        reasons.push(`${Math.round(distance)}m apart`);
+      } else if (distance <= 300) {
+        score += SCORE_WEIGHTS.nearby;
+        reasons.push(`${Math.round(distance)}m apart`);
+      }
+    }
+
+    const nameA = this.splitName(a);
+    const nameB = this.splitName(b);
+    const tokensA = this.nameTokens(nameA.name);
+    const tokensB = this.nameTokens(nameB.name);
+    const nameSimilarity = this.tokenContainment(tokensA, tokensB);
+    if (nameSimilarity === 1) {
+      // "Blue Bottle" inside "Blue Bottle Coffee Mint Plaza" is as strong a signal as an exact match
+      score += SCORE_WEIGHTS.sameName;
+      reasons.push(tokensA.join(' ') === tokensB.join(' ') ? 'Same name' : 'Similar name');
+    } else if (nameSimilarity >= 0.5) {
+      score += SCORE_WEIGHTS.similarName;
+      reasons.push('Similar name');
+    }
+
+    if (nameA.address && nameB.address) {
+      if (this.isSameAddress(nameA.address, nameB.address)) {
+        score += SCORE_WEIGHTS.sameAddress;
+        reasons.push('Same address');
+      } else {
+        score += SCORE_WEIGHTS.differentAddress;
+      }
+    }
+
+    return { score: Math.max(0, Math.min(100, score)), reasons };
+  }
+
+  /**
+   * Calendar locations often carry the address after a comma, e.g. "Blue Bottle, 66 Mint St"
+   */
+  private splitName(place: Place): { name: string; address?: string } {
+    const commaIndex = place.name.indexOf(',');
+    if (commaIndex > 0) {
+      const tail = place.name.slice(commaIndex + 1).trim();
+      if (/\d/.test(tail)) {
+        return { name: place.name.slice(0, commaIndex), address: place.address || tail };
+      }
+    }
+    return { name: place.name, address: place.address };
+  }
+
+  private nameTokens(name: string): string[] {
+    const tokens = name.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(Boolean);
+    const specific = tokens.filter(token => !GENERIC_PLACE_WORDS.has(token));
+    // "Coffee House" has no specific words; compare it as written
+    return specific.length > 0 ? specific : tokens;
+  }
+
+  private addressTokens(address: string): string[] {
+    return address
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+      .split(/\s+/)
+      .filter(Boolean)
+      .map(token => STREET_ABBREVIATIONS[token] ?? token);
+  }
+
+  /**
+   * Share of the shorter token list found in the longer one, tolerating one typo in longer words
+   */
+  private tokenContainment(tokensA: string[], tokensB: string[]): number {
+    if (tokensA.length === 0 || tokensB.length === 0) return 0;
+    const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+
+    const matched = shorter.filter(token => longer.some(other =>
+      token === other || (Math.min(token.length, other.length) >= 5 && levenshteinDistance(token, other) <= 1)
+    ));
+    return matched.length / shorter.length;
+  }
+
+  private isSameAddress(addressA: string, addressB: string): boolean {
+    const tokensA = this.addressTokens(addressA);
+    const tokensB = this.addressTokens(addressB);
+    // Street number and name must agree; city, state and postcode may be missing on one side
+    const streetLength = Math.min(tokensA.length, tokensB.length, 3);
+    return streetLength >= 2 && tokensA.slice(0, streetLength).join(' ') === tokensB.slice(0, streetLength).join(' ');
+  }
+
+  /**
+   * Most used place first, then ones with a trusted pin, then the oldest
+   */
+  private compareCanonical(a: Place, b: Place, usage: Map<string, number>): number {
+    const usageDiff = (usage.get(b.id) ?? 0) - (usage.get(a.id) ?? 0);
+    if (usageDiff !== 0) return usageDiff;
+
+    const pinRank = (place: Place) =>
+      place.geocodeStatus === 'manual' ? 2 : hasCoordinates(place) ? 1 : 0;
+    const pinDiff = pinRank(b) - pinRank(a);
+    if (pinDiff !== 0) return pinDiff;
+
+    return a.createdAt.getTime() - b.createdAt.getTime();
+  }
+
+  private pairKey(a: string, b: string): string {
+    return a < b ? `${a}|${b}` : `${b}|${a}`;
+  }
+
+  private async getDismissedPairs(): Promise<Set<string>> {
+    try {
+      const raw = await AsyncStorage.getItem(DISMISSED_PAIRS_KEY);
+      const parsed = raw ? JSON.parse(raw) : [];
+      return new Set(Array.isArray(parsed) ? parsed : []);
+    } catch (error) {
+      console.warn('[PlaceClusterService] Failed to read dismissed pairs:', error);
+      return new Set();
+    }
+  }
+
+  private async forgetDismissedPairsFor(placeIds: string[]): Promise<void> {
+    const dismissed = await this.getDismissedPairs();
+    const removed = new Set(placeIds);
+    const remaining = Array.from(dismissed).filter(key => !key.split('|').some(id => removed.has(id)));
+    if (remaining.length !== dismissed.size) {
+      await AsyncStorage.setItem(DISMISSED_PAIRS_KEY, JSON.stringify(remaining));
+    }
+  }
+}
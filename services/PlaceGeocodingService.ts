@@ -0,0 +1,146 @@
+import { PlaceDAO } from '@/database/PlaceDAO';
+import { Place, hasCoordinates } from '@/models/Place';
+import { ExpoLocationGeocoder, Geocoder } from './Geocoder';
+
+const MAX_ATTEMPTS = 6;
+const BASE_RETRY_MS = 60 * 60 * 1000; // 1 hour, doubled per failed attempt
+const MAX_RETRY_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface GeocodeQueueResult {
+  processed: number;
+  resolved: number;
+  failed: number;
+  skipped?: string;
+}
+
+/**
+ * PlaceGeocodingService - Coordinate Resolution for Places
+ *
+ * Privacy Implementation:
+ * - Places are queued locally in SQLite until they can be resolved
+ * - Only the place's name or address is sent to the geocoder
+ * - Manual pins never leave the device
+ */
+export class PlaceGeocodingService {
+  private static instance: PlaceGeocodingService;
+  private geocoder: Geocoder = new ExpoLocationGeocoder();
+  private isProcessing = false;
+
+  static getInstance(): PlaceGeocodingService {
+    if (!PlaceGeocodingService.instance) {
+      PlaceGeocodingService.instance = new PlaceGeocodingService();
+    }
+    return PlaceGeocodingService.instance;
+  }
+
+  setGeocoder(geocoder: Geocoder): void {
+    this.geocoder = geocoder;
+  }
+
+  getGeocoder(): Geocoder {
+    return this.geocoder;
+  }
+
+  /**
+   * Work through places waiting for coordinates, backing off exponentially on failure
+   */
+  async processQueue(limit: number = 20): Promise<GeocodeQueueResult> {
+    const result: GeocodeQueueResult = { processed: 0, resolved: 0, failed: 0 };
+
+    if (this.isProcessing) {
+      return { ...result, skipped: 'Geocoding already in progress' };
+    }
+    if (!(await this.geocoder.isAvailable())) {
+      // Leave the queue untouched so attempts are not spent while the geocoder cannot run
+      return { ...result, skipped: `Geocoder ${this.geocoder.name} unavailable` };
+    }
+
+    this.isProcessing = true;
+    try {
+      const placeDAO = new PlaceDAO();
+      const pending = await placeDAO.getPendingGeocode(limit);
+
+      for (const place of pending) {
+        result.processed++;
+        if (await this.resolve(place, place.geocodeAttempts, placeDAO)) {
+          result.resolved++;
+        } else {
+          result.failed++;
+        }
+      }
+
+      if (result.processed > 0) {
+        console.log(`[Geocoding] Resolved ${result.resolved}/${result.processed} queued places`);
+      }
+      return result;
+    } finally {
+      this.isProcessing = false;
+    }
+  }
+
+  /**
+   * Try a single place right away, e.g. when the user asks to retry its lookup.
+   * A place that already has a pin keeps it, and its status, unless the lookup finds a match.
+   */
+  async retryPlace(placeId: string): Promise<{ place: Place | null; found: boolean }> {
+    const placeDAO = new PlaceDAO();
+    const existing = await placeDAO.getPlaceById(placeId);
+    if (!existing) return { place: null, found: false };
+    if (existing.geocodeStatus === 'manual') {
+      throw new Error('This place was pinned by hand; adjust the pin instead');
+    }
+
+    if (hasCoordinates(existing)) {
+      if (!(await this.geocoder.isAvailable())) return { place: existing, found: false };
+      const coordinates = await this.geocoder.geocode(existing.address || existing.name);
+      if (!coordinates) return { place: existing, found: false };
+      const place = await placeDAO.setCoordinates(placeId, coordinates.latitude, coordinates.longitude, 'resolved');
+      return { place, found: true };
+    }
+
+    await placeDAO.requeueGeocode(placeId);
+    const found = await this.geocoder.isAvailable() && await this.resolve(existing, 0, placeDAO);
+    return { place: await placeDAO.getPlaceById(placeId), found };
+  }
+
+  /**
+   * Pin a place where the user says it is; manual pins are never overwritten by the geocoder
+   */
+  async setManualPin(placeId: string, latitude: number, longitude: number): Promise<Place | null> {
+    if (!Number.isFinite(latitude) || latitude < -90 || latitude > 90) {
+      throw new Error('Latitude must be between -90 and 90');
+    }
+    if (!Number.isFinite(longitude) || longitude < -180 || longitude > 180) {
+      throw new Error('Longitude must be between -180 and 180');
+    }
+
+    const place = await new PlaceDAO().setCoordinates(placeId, latitude, longitude, 'manual');
+    console.log(`[Geocoding] Manual pin set for place ${placeId}`);
+    return place;
+  }
+
+  private async resolve(place: Place, previousAttempts: number, placeDAO: PlaceDAO): Promise<boolean> {
+    const query = place.address || place.name;
+    const attempts = previousAttempts + 1;
+
+    try {
+      const coordinates = await this.geocoder.geocode(query);
+      if (coordinates) {
+        await placeDAO.setCoordinates(place.id, coordinates.latitude, coordinates.longitude, 'resolved');
+        return true;
+      }
+
+      // No match won't change on retry; give up straight away
+      await placeDAO.recordGeocodeFailure(place.id, attempts, null);
+      return false;
+    } catch (error) {
+      console.warn(`[Geocoding] Lookup failed for place ${place.id}:`, error);
+    }
+
+    const nextAttemptAt = attempts >= MAX_ATTEMPTS
+      ? null
+      : new Date(Date.now() + Math.min(BASE_RETRY_MS * 2 ** (attempts - 1), MAX_RETRY_MS));
+    await placeDAO.recordGeocodeFailure(place.id, attempts, nextAttemptAt);
+    return false;
+  }
+}
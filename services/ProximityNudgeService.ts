@@ -0,0 +1,311 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as Location from 'expo-location';
+import * as TaskManager from 'expo-task-manager';
+import { Platform } from 'react-native';
+import { PlaceDAO } from '@/database/PlaceDAO';
+import { Place, PlacePersonVisits, hasCoordinates } from '@/models/Place';
+import { haversineDistanceMeters } from '@/lib/utils';
+
+export const PROXIMITY_GEOFENCE_TASK = 'proximityGeofence';
+
+export interface ProximityNudge {
+  id: string; // place_<placeId> or area_<rounded coordinates>
+  kind: 'place' | 'area';
+  placeId?: string;
+  title: string;
+  message: string;
+  personIds: string[];
+  createdAt: Date;
+}
+
+interface StoredNudge extends Omit<ProximityNudge, 'createdAt'> {
+  createdAt: string;
+}
+
+interface LastArea {
+  latitude: number;
+  longitude: number;
+  checkedAt: string;
+}
+
+const ENABLED_KEY = 'proximity_nudges_enabled';
+const ACTIVE_NUDGES_KEY = 'proximity_nudges_active';
+const LAST_SHOWN_KEY = 'proximity_nudges_last_shown';
+const LAST_AREA_KEY = 'proximity_last_area';
+
+const PLACE_RADIUS_METERS = 150;
+// Roughly a city: people met anywhere within this distance count as "around here"
+const AREA_RADIUS_METERS = 25000;
+// Moving further than this since the last check counts as arriving somewhere new
+const AREA_CHANGE_METERS = 50000;
+// iOS monitors at most 20 regions per app
+const MAX_GEOFENCES = 20;
+const NUDGE_LIFETIME_MS = 12 * 60 * 60 * 1000;
+const NUDGE_COOLDOWN_MS = 7 * 24 * 60 * 60 * 1000;
+
+/**
+ * ProximityNudgeService - "You're near..." Reminders
+ *
+ * Privacy Implementation:
+ * - Opt-in; nothing runs until the user enables it in Settings
+ * - Location is compared against places stored on device only
+ * - Positions are never logged or stored beyond the last coarse check
+ */
+export class ProximityNudgeService {
+  private static instance: ProximityNudgeService;
+  private placeDAO = new PlaceDAO();
+
+  static getInstance(): ProximityNudgeService {
+    if (!ProximityNudgeService.instance) {
+      ProximityNudgeService.instance = new ProximityNudgeService();
+    }
+    return ProximityNudgeService.instance;
+  }
+
+  async isEnabled(): Promise<boolean> {
+    return (await AsyncStorage.getItem(ENABLED_KEY)) === 'true';
+  }
+
+  /**
+   * Turn nudges on or off; returns false when location permission was refused
+   */
+  async setEnabled(enabled: boolean): Promise<boolean> {
+    if (Platform.OS === 'web') return false;
+
+    if (!enabled) {
+      await AsyncStorage.setItem(ENABLED_KEY, 'false');
+      await AsyncStorage.multiRemove([ACTIVE_NUDGES_KEY, LAST_AREA_KEY]);
+      await this.stopGeofencing();
+      console.log('[ProximityNudge] Disabled');
+      return true;
+    }
+
+    const foreground = await Location.requestForegroundPermissionsAsync();
+    if (foreground.status !== 'granted') return false;
+
+    await AsyncStorage.setItem(ENABLED_KEY, 'true');
+    // Background permission only adds geofencing; foreground checks work without it
+    try {
+      const background = await Location.requestBackgroundPermissionsAsync();
+      if (background.status === 'granted') {
+        await this.refreshGeofences();
+      }
+    } catch (error) {
+      console.warn('[ProximityNudge] Background location unavailable:', error);
+    }
+
+    console.log('[ProximityNudge] Enabled');
+    return true;
+  }
+
+  /**
+   * Monitor the most visited places; call again when places change
+   */
+  async refreshGeofences(): Promise<number> {
+    if (Platform.OS === 'web' || !(await this.isEnabled())) return 0;
+
+    const { status } = await Location.getBackgroundPermissionsAsync();
+    if (status !== 'granted') return 0;
+
+    // Usage counts meetings as well as interactions, so calendar venues are monitored too
+    const [allPlaces, usage] = await Promise.all([
+      this.placeDAO.getAllPlaces(),
+      this.placeDAO.getUsageCounts(),
+    ]);
+    const places = allPlaces
+      .filter(place => hasCoordinates(place) && (usage.get(place.id) ?? 0) > 0)
+      .sort((a, b) => (usage.get(b.id) ?? 0) - (usage.get(a.id) ?? 0))
+      .slice(0, MAX_GEOFENCES);
+
+    if (places.length === 0) {
+      await this.stopGeofencing();
+      return 0;
+    }
+
+    await Location.startGeofencingAsync(PROXIMITY_GEOFENCE_TASK, places.map(place => ({
+      identifier: place.id,
+      latitude: place.latitude,
+      longitude: place.longitude,
+      radius: PLACE_RADIUS_METERS,
+      notifyOnEnter: true,
+      notifyOnExit: false,
+    })));
+
+    console.log(`[ProximityNudge] Monitoring ${places.length} places`);
+    return places.length;
+  }
+
+  /**
+   * Compare the current position with known places; used while the app is open
+   */
+  async checkCurrentLocation(): Promise<ProximityNudge[]> {
+    if (Platform.OS === 'web' || !(await this.isEnabled())) return [];
+
+    try {
+      const { status } = await Location.getForegroundPermissionsAsync();
+      if (status !== 'granted') return [];
+
+      const position = await Location.getLastKnownPositionAsync({ maxAge: 10 * 60 * 1000 })
+        ?? await Location.getCurrentPositionAsync({ accuracy: Location.Accuracy.Balanced });
+      const { latitude, longitude } = position.coords;
+
+      const nearby = await this.placeDAO.getPlacesNear(latitude, longitude, PLACE_RADIUS_METERS);
+      for (const place of nearby) {
+        await this.nudgeForPlace(place);
+      }
+      await this.checkArea(latitude, longitude);
+    } catch (error) {
+      console.warn('[ProximityNudge] Location check failed:', error);
+    }
+
+    return this.getActiveNudges();
+  }
+
+  /**
+   * Called from the geofencing task when the user enters a monitored place
+   */
+  async handleGeofenceEnter(placeId: string): Promise<void> {
+    if (!(await this.isEnabled())) return;
+    const place = await this.placeDAO.getPlaceById(placeId);
+    if (place) {
+      await this.nudgeForPlace(place);
+    }
+  }
+
+  async getActiveNudges(): Promise<ProximityNudge[]> {
+    const cutoff = Date.now() - NUDGE_LIFETIME_MS;
+    return (await this.readJson<StoredNudge[]>(ACTIVE_NUDGES_KEY, []))
+      .map(nudge => ({ ...nudge, createdAt: new Date(nudge.createdAt) }))
+      .filter(nudge => nudge.createdAt.getTime() >= cutoff)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async dismiss(nudgeId: string): Promise<void> {
+    const nudges = await this.readJson<StoredNudge[]>(ACTIVE_NUDGES_KEY, []);
+    await AsyncStorage.setItem(ACTIVE_NUDGES_KEY, JSON.stringify(nudges.filter(nudge => nudge.id !== nudgeId)));
+  }
+
+  private async nudgeForPlace(place: Place): Promise<void> {
+    const people = await this.placeDAO.getPeopleMetAt([place.id]);
+    if (people.length === 0) return;
+
+    const [top, ...others] = people;
+    let message = `You met ${top.name} here ${this.formatTimes(top.visitCount)}; last ${this.formatAgo(top.lastVisit)}`;
+    if (others.length > 0) {
+      message += ` · also ${others.slice(0, 2).map(person => person.name).join(', ')}`;
+      if (others.length > 2) message += ` +${others.length - 2} more`;
+    }
+
+    await this.addNudge({
+      id: `place_${place.id}`,
+      kind: 'place',
+      placeId: place.id,
+      title: `You're near ${place.name}`,
+      message,
+      personIds: people.map(person => person.personId),
+    });
+  }
+
+  /**
+   * Nudge about people met around here, but only on arrival in a new area so home doesn't trigger it daily
+   */
+  private async checkArea(latitude: number, longitude: number): Promise<void> {
+    const lastArea = await this.readJson<LastArea | null>(LAST_AREA_KEY, null);
+    await AsyncStorage.setItem(LAST_AREA_KEY, JSON.stringify({
+      // Two decimals (~1km) is all the area check needs
+      latitude: Math.round(latitude * 100) / 100,
+      longitude: Math.round(longitude * 100) / 100,
+      checkedAt: new Date().toISOString(),
+    }));
+
+    if (!lastArea) return;
+    if (haversineDistanceMeters(lastArea.latitude, lastArea.longitude, latitude, longitude) < AREA_CHANGE_METERS) return;
+
+    const places = await this.placeDAO.getPlacesNear(latitude, longitude, AREA_RADIUS_METERS);
+    const people = await this.placeDAO.getPeopleMetAt(places.map(place => place.id));
+    if (people.length === 0) return;
+
+    const lastVisit = people.reduce((latest, person) => (person.lastVisit > latest ? person.lastVisit : latest), people[0].lastVisit);
+    await this.addNudge({
+      id: `area_${Math.round(latitude * 10)}_${Math.round(longitude * 10)}`,
+      kind: 'area',
+      title: people.length === 1
+        ? `${people[0].name} is around here`
+        : `${people.length} people you've met are around here`,
+      message: `${this.describePeople(people)}; last met ${this.formatAgo(lastVisit)}`,
+      personIds: people.map(person => person.personId),
+    });
+  }
+
+  private async addNudge(nudge: Omit<ProximityNudge, 'createdAt'>): Promise<void> {
+    const lastShown = await this.readJson<Record<string, string>>(LAST_SHOWN_KEY, {});
+    const shownAt = lastShown[nudge.id];
+    if (shownAt && Date.now() - new Date(shownAt).getTime() < NUDGE_COOLDOWN_MS) return;
+
+    const now = new Date().toISOString();
+    const active = (await this.getActiveNudges())
+      .filter(existing => existing.id !== nudge.id)
+      .map(existing => ({ ...existing, createdAt: existing.createdAt.toISOString() }));
+
+    await AsyncStorage.setItem(ACTIVE_NUDGES_KEY, JSON.stringify([{ ...nudge, createdAt: now }, ...active]));
+    await AsyncStorage.setItem(LAST_SHOWN_KEY, JSON.stringify({ ...lastShown, [nudge.id]: now }));
+    console.log(`[ProximityNudge] New ${nudge.kind} nudge`);
+  }
+
+  private async stopGeofencing(): Promise<void> {
+    try {
+      if (await Location.hasStartedGeofencingAsync(PROXIMITY_GEOFENCE_TASK)) {
+        await Location.stopGeofencingAsync(PROXIMITY_GEOFENCE_TASK);
+      }
+    } catch (error) {
+      console.warn('[ProximityNudge] Failed to stop geofencing:', error);
+    }
+  }
+
+  private describePeople(people: PlacePersonVisits[]): string {
+    const shown = people.slice(0, 3).map(person => `${person.name} (${this.formatTimes(person.visitCount)})`);
+    return people.length > 3 ? `${shown.join(', ')} +${people.length - 3} more` : shown.join(', ');
+  }
+
+  private formatTimes(count: number): string {
+    if (count === 1) return 'once';
+    if (count === 2) return 'twice';
+    return `${count} times`;
+  }
+
+  private formatAgo(date: Date): string {
+    const days = Math.floor((Date.now() - date.getTime()) / (24 * 60 * 60 * 1000));
+    if (days < 1) return 'today';
+    if (days < 14) return days === 1 ? 'yesterday' : `${days} days ago`;
+    if (days < 60) return `${Math.floor(days / 7)} weeks ago`;
+    if (days < 365) return `${Math.floor(days / 30)} months ago`;
+    const years = Math.floor(days / 365);
+    return years === 1 ? 'a year ago' : `${years} years ago`;
+  }
+
+  private async readJson<T>(key: string, fallback: T): Promise<T> {
+    try {
+      const raw = await AsyncStorage.getItem(key);
+      return raw ? JSON.parse(raw) : fallback;
+    } catch (error) {
+      console.warn(`[ProximityNudge] Failed to read ${key}:`, error);
+      return fallback;
+    }
+  }
+}
+
+// Geofence events can arrive while the app is suspended, so the task is defined at module load
+if (Platform.OS !== 'web') {
+  TaskManager.defineTask<{ eventType: Location.GeofencingEventType; region: Location.LocationRegion }>(
+    PROXIMITY_GEOFENCE_TASK,
+    async ({ data, error }) => {
+      if (error) {
+        console.error('[ProximityNudge] Geofence task error:', error.message);
+        return;
+      }
+      if (data?.eventType === Location.GeofencingEventType.Enter && data.region.identifier) {
+        await ProximityNudgeService.getInstance().handleGeofenceEnter(data.region.identifier);
+      }
+    }
+  );
+}